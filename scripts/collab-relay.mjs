@@ -0,0 +1,90 @@
+// Minimal WebSocket relay for Gemini Studio collaboration rooms.
+//
+//   npm run relay            # listens on ws://0.0.0.0:8787
+//   PORT=9000 npm run relay
+//
+// It only forwards messages between members of the same room; payloads are
+// opaque (and encrypted when the room has a passphrase). See the protocol
+// notes in src/api/collabTransport.ts.
+
+import { WebSocketServer } from 'ws';
+
+const PORT = Number(process.env.PORT) || 8787;
+// Room history syncs are the largest frames; attachment chunks are ~120 KB
+const MAX_PAYLOAD = 4 * 1024 * 1024;
+// Dead connections are dropped after missing one ping, which frees their peer id
+const HEARTBEAT_MS = 30_000;
+// Close code for a join whose peer id is held by another open socket
+const PEER_ID_IN_USE = 4009;
+
+const rooms = new Map(); // room -> Map<peerId, socket>
+
+const send = (socket, message) => {
+  if (socket.readyState === socket.OPEN) socket.send(JSON.stringify(message));
+};
+
+const server = new WebSocketServer({ port: PORT, maxPayload: MAX_PAYLOAD });
+
+server.on('connection', (socket) => {
+  let room = null;
+  let peerId = null;
+  socket.isAlive = true;
+  socket.on('pong', () => { socket.isAlive = true; });
+
+  socket.on('message', (raw) => {
+    let msg;
+    try {
+      msg = JSON.parse(raw.toString());
+    } catch {
+      return;
+    }
+
+    if (msg.type === 'join' && !room && typeof msg.room === 'string' && typeof msg.peerId === 'string') {
+      const members = rooms.get(msg.room) || new Map();
+      // Only a reconnect may take over an id, once its old socket is gone;
+      // otherwise any member could impersonate another
+      const holder = members.get(msg.peerId);
+      if (holder && holder !== socket && holder.readyState === holder.OPEN) {
+        socket.close(PEER_ID_IN_USE, 'Peer id in use');
+        return;
+      }
+      room = msg.room;
+      peerId = msg.peerId;
+      rooms.set(room, members);
+      send(socket, { type: 'peers', peers: Array.from(members.keys()) });
+      members.forEach(other => send(other, { type: 'join', peerId }));
+      members.set(peerId, socket);
+      return;
+    }
+
+    if (msg.type === 'send' && room) {
+      const members = rooms.get(room);
+      const targets = Array.isArray(msg.to) ? msg.to : Array.from(members.keys());
+      targets.forEach(id => {
+        const target = members.get(id);
+        if (target && id !== peerId) send(target, { type: 'message', from: peerId, action: msg.action, data: msg.data });
+      });
+    }
+  });
+
+  socket.on('close', () => {
+    if (!room) return;
+    const members = rooms.get(room);
+    // A reconnect under the same id may already have replaced this socket
+    if (members.get(peerId) !== socket) return;
+    members.delete(peerId);
+    members.forEach(other => send(other, { type: 'leave', peerId }));
+    if (members.size === 0) rooms.delete(room);
+  });
+});
+
+const heartbeat = setInterval(() => {
+  server.clients.forEach(socket => {
+    if (!socket.isAlive) return socket.terminate();
+    socket.isAlive = false;
+    socket.ping();
+  });
+}, HEARTBEAT_MS);
+server.on('close', () => clearInterval(heartbeat));
+
+console.log(`Collaboration relay listening on ws://0.0.0.0:${PORT}`);
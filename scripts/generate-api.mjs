@@ -0,0 +1,282 @@
+// Generates src/api/heidiSchema.ts (types, response schemas and a typed
+// client) from the Heidi backend's OpenAPI document.
+//
+//   npm run generate:api                                          # from openapi/heidi.json
+//   npm run generate:api -- http://127.0.0.1:7777/openapi.json    # replace openapi/heidi.json first
+//   npm run generate:api -- path/to/openapi.json                  # any other local document
+//   npm run generate:api -- --check                               # fail if heidiSchema.ts is stale
+//
+// Only the OpenAPI 3.0 / 3.1 subset the backend uses is supported: $ref to
+// components, object/array/scalar types, nullable, enum, allOf/oneOf/anyOf,
+// path and query parameters, and JSON request and response bodies. Runtime
+// validation lives in src/api/openapi.ts.
+//
+// openapi/heidi.json is maintained by hand until the backend publishes its
+// own document; see its info.description.
+
+import { readFile, writeFile } from 'node:fs/promises';
+import { fileURLToPath } from 'node:url';
+import path from 'node:path';
+
+const ROOT = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '..');
+const SNAPSHOT = 'openapi/heidi.json';
+const OUTPUT = 'src/api/heidiSchema.ts';
+const METHODS = ['get', 'post', 'put', 'patch', 'delete'];
+// Keys kept in the embedded schemas; everything else is documentation
+const VALIDATION_KEYS = ['type', 'nullable', 'enum', 'properties', 'required', 'additionalProperties', 'items', '$ref', 'allOf', 'oneOf', 'anyOf'];
+
+const fail = (message) => {
+  throw new Error(message);
+};
+
+const loadDocument = async (source) => {
+  if (/^https?:\/\//.test(source)) {
+    const res = await fetch(source);
+    if (!res.ok) fail(`${source} answered ${res.status}`);
+    const doc = await res.json();
+    // Keep the snapshot in the repo so the generated code can be reviewed against it
+    await writeFile(path.join(ROOT, SNAPSHOT), JSON.stringify(doc, null, 2) + '\n');
+    console.log(`Saved ${source} to ${SNAPSHOT}`);
+    return { doc, label: SNAPSHOT };
+  }
+  const file = path.resolve(ROOT, source);
+  const doc = JSON.parse(await readFile(file, 'utf8'));
+  return { doc, label: path.relative(ROOT, file) };
+};
+
+const pascal = (name) => name.replace(/(^|[^A-Za-z0-9]+)([A-Za-z0-9])/g, (_, __, c) => c.toUpperCase());
+const quote = (value) => typeof value === 'string' ? `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'` : JSON.stringify(value);
+const propertyKey = (name) => /^[A-Za-z_$][A-Za-z0-9_$]*$/.test(name) ? name : quote(name);
+const refName = (ref) => ref.split('/').pop();
+
+// JS literal in the repo's style: single quotes, bare keys, one line when it fits
+const literal = (value, indent = '') => {
+  if (Array.isArray(value) || (value && typeof value === 'object')) {
+    const entries = Array.isArray(value)
+      ? value.map(v => literal(v, indent + '  '))
+      : Object.entries(value).map(([k, v]) => `${propertyKey(k)}: ${literal(v, indent + '  ')}`);
+    const [open, close] = Array.isArray(value) ? ['[', ']'] : ['{ ', ' }'];
+    const inline = entries.length ? `${open}${entries.join(', ')}${close}` : open.trim() + close.trim();
+    if (!inline.includes('\n') && indent.length + inline.length <= 100) return inline;
+    return `${open.trim()}\n${entries.map(e => `${indent}  ${e},`).join('\n')}\n${indent}${close.trim()}`;
+  }
+  return quote(value);
+};
+
+// Object literal of already-rendered expressions, wrapped like `literal`
+const expressions = (entries, indent) => {
+  const parts = entries.map(([key, expression]) => `${propertyKey(key)}: ${expression}`);
+  const inline = `{ ${parts.join(', ')} }`;
+  if (indent.length + inline.length <= 100) return inline;
+  return `{\n${parts.map(p => `${indent}  ${p},`).join('\n')}\n${indent}}`;
+};
+
+const comment = (schema, indent) => {
+  const text = [schema.deprecated ? 'Deprecated.' : '', schema.description || ''].filter(Boolean).join(' ');
+  return text ? text.split('\n').map(line => `${indent}// ${line}`.trimEnd()).join('\n') + '\n' : '';
+};
+
+const wrap = (type) => /[|&]/.test(type) && !type.startsWith('{') ? `(${type})` : type;
+
+const tsType = (schema = {}, indent = '') => {
+  const nullable = schema.nullable || (Array.isArray(schema.type) && schema.type.includes('null'));
+  const orNull = (type) => nullable && type !== 'any' ? `${type} | null` : type;
+
+  if (schema.$ref) return orNull(refName(schema.$ref));
+  if (schema.allOf) return orNull(schema.allOf.map(s => wrap(tsType(s, indent))).join(' & '));
+  if (schema.oneOf || schema.anyOf) return orNull((schema.oneOf || schema.anyOf).map(s => tsType(s, indent)).join(' | '));
+  if (schema.enum) return orNull(schema.enum.map(quote).join(' | '));
+
+  const types = (Array.isArray(schema.type) ? schema.type : [schema.type]).filter(t => t && t !== 'null');
+  if (types.length === 0) return schema.properties ? orNull(objectType(schema, indent)) : 'any';
+  return orNull(types.map(type => {
+    switch (type) {
+      case 'string': return 'string';
+      case 'integer':
+      case 'number': return 'number';
+      case 'boolean': return 'boolean';
+      case 'array': return `${wrap(tsType(schema.items, indent))}[]`;
+      case 'object': return objectType(schema, indent);
+      default: fail(`unsupported type "${type}"`);
+    }
+  }).join(' | '));
+};
+
+const objectBody = (schema, indent) => {
+  const required = new Set(schema.required || []);
+  const lines = Object.entries(schema.properties || {}).map(([name, property]) =>
+    `${comment(property, indent + '  ')}${indent}  ${propertyKey(name)}${required.has(name) ? '' : '?'}: ${tsType(property, indent + '  ')};`);
+  if (typeof schema.additionalProperties === 'object') {
+    lines.push(`${indent}  [key: string]: ${tsType(schema.additionalProperties, indent + '  ')};`);
+  }
+  return lines;
+};
+
+const objectType = (schema, indent) => {
+  if (!schema.properties) {
+    return typeof schema.additionalProperties === 'object' ? `Record<string, ${tsType(schema.additionalProperties, indent)}>` : 'Record<string, any>';
+  }
+  return `{\n${objectBody(schema, indent).join('\n')}\n${indent}}`;
+};
+
+const strip = (schema) => {
+  if (Array.isArray(schema)) return schema.map(strip);
+  if (!schema || typeof schema !== 'object') return schema;
+  const out = {};
+  for (const key of VALIDATION_KEYS) {
+    if (schema[key] === undefined) continue;
+    out[key] = key === 'properties'
+      ? Object.fromEntries(Object.entries(schema.properties).map(([name, s]) => [name, strip(s)]))
+      : key === 'enum' || key === 'required' || key === 'type' ? schema[key] : strip(schema[key]);
+  }
+  return out;
+};
+
+const renderSchemaTypes = (schemas) => Object.entries(schemas).map(([name, schema]) => {
+  const isObject = schema.properties && !schema.nullable && !schema.allOf && !schema.oneOf && !schema.anyOf;
+  const body = isObject
+    ? `export interface ${name} {\n${objectBody(schema, '').join('\n')}\n}`
+    : `export type ${name} = ${tsType(schema)};`;
+  return comment(schema, '') + body;
+});
+
+const successResponse = (responses = {}) => {
+  const status = ['200', '201', '202', '204'].find(s => responses[s]) || Object.keys(responses).find(s => /^2/.test(s));
+  return status ? responses[status] : undefined;
+};
+
+const collectOperations = (doc) => {
+  const operations = [];
+  Object.entries(doc.paths || {}).forEach(([route, item]) => {
+    METHODS.forEach(method => {
+      const op = item[method];
+      if (!op) return;
+      if (!op.operationId) fail(`${method.toUpperCase()} ${route} has no operationId`);
+      const success = successResponse(op.responses);
+      const content = success?.content;
+      if (content && !content['application/json']) {
+        console.log(`Skipping ${op.operationId}: ${Object.keys(content).join(', ')} responses are handled by hand`);
+        return;
+      }
+      // Operation-level parameters override path-level ones with the same name
+      const parameters = new Map();
+      [...(item.parameters || []), ...(op.parameters || [])]
+        .filter(p => p.in === 'path' || p.in === 'query')
+        .forEach(p => parameters.set(p.name, p));
+      operations.push({
+        id: op.operationId,
+        method: method.toUpperCase(),
+        route,
+        summary: op.summary,
+        parameters: [...parameters.values()],
+        body: op.requestBody?.content?.['application/json']?.schema,
+        bodyRequired: !!op.requestBody?.required,
+        response: content?.['application/json']?.schema,
+      });
+    });
+  });
+  return operations;
+};
+
+const failureMessage = (op) => op.summary
+  ? `Failed to ${op.summary.charAt(0).toLowerCase()}${op.summary.slice(1)}`
+  : `Request ${op.id} failed`;
+
+const renderOperation = (op) => {
+  const paramsType = `${pascal(op.id)}Params`;
+  const hasParams = op.parameters.length > 0;
+  const paramsOptional = op.parameters.every(p => !p.required);
+  const pathParams = op.parameters.filter(p => p.in === 'path');
+  const queryParams = op.parameters.filter(p => p.in === 'query');
+
+  const paramsInterface = hasParams
+    ? `export interface ${paramsType} {\n${op.parameters.map(p =>
+      `${comment(p, '  ')}  ${propertyKey(p.name)}${p.required ? '' : '?'}: ${tsType(p.schema)};`).join('\n')}\n}`
+    : null;
+
+  const inputs = [
+    hasParams ? `params: ${paramsType}${paramsOptional ? ' = {}' : ''}` : null,
+    op.body ? `body${op.bodyRequired ? '' : '?'}: ${tsType(op.body)}` : null,
+  ].filter(Boolean);
+
+  const fields = [
+    `operationId: '${op.id}'`,
+    `method: '${op.method}'`,
+    `path: '${op.route}'`,
+    pathParams.length ? `pathParams: { ${pathParams.map(p => `${propertyKey(p.name)}: params.${p.name}`).join(', ')} }` : null,
+    queryParams.length ? `query: ${expressions(queryParams.map(p => [p.name, `params${/^[A-Za-z_$][\w$]*$/.test(p.name) ? `.${p.name}` : `[${quote(p.name)}]`}`]), '    ')}` : null,
+    op.body ? 'body' : null,
+    op.response ? `response: ${literal(strip(op.response), '    ')}` : null,
+    `failure: ${quote(failureMessage(op))}`,
+  ].filter(Boolean);
+
+  const builder = `  ${op.id}: (${inputs.join(', ')}): ApiRequest => ({\n${fields.map(f => `    ${f},`).join('\n')}\n  }),`;
+  const args = inputs.map(i => i.split(/[?:]/)[0]);
+  const responseType = op.response ? tsType(op.response) : 'void';
+  const method = `  ${op.id}: (${[...inputs, 'options?: O'].join(', ')}) =>\n    send<${responseType}>(requests.${op.id}(${args.join(', ')}), options),`;
+  return { paramsInterface, builder, method, summary: op.summary };
+};
+
+// Source of heidiSchema.ts for an OpenAPI document; `label` names where it came from
+export const render = (doc, label) => {
+  const schemas = doc.components?.schemas || {};
+  const operations = collectOperations(doc).map(renderOperation);
+  const info = doc.info ? ` (${doc.info.title} ${doc.info.version})` : '';
+
+  return `// Generated by scripts/generate-api.mjs from ${label}${info}.
+// Do not edit by hand: update the OpenAPI document and run \`npm run generate:api\`.
+
+import { ApiRequest, Schema } from './openapi';
+
+// --- Schemas ---
+
+${renderSchemaTypes(schemas).join('\n\n')}
+
+// --- Operation parameters ---
+
+${operations.map(o => o.paramsInterface).filter(Boolean).join('\n\n')}
+
+// Validation copies of the component schemas, used by readResponse
+export const schemas: Record<string, Schema> = ${literal(Object.fromEntries(Object.entries(schemas).map(([name, s]) => [name, strip(s)])))};
+
+// --- Client ---
+
+// One builder per operation; the result is sent by whatever transport the app uses
+export const requests = {
+${operations.map(o => (o.summary ? `  // ${o.summary}\n` : '') + o.builder).join('\n')}
+};
+
+// Sends a request and resolves with its validated response body
+export type ApiSender<O> = <T>(request: ApiRequest, options?: O) => Promise<T>;
+
+export const createClient = <O>(send: ApiSender<O>) => ({
+${operations.map(o => o.method).join('\n')}
+});
+`;
+};
+
+const main = async (args) => {
+  const check = args.includes('--check');
+  const source = args.find(a => !a.startsWith('--')) || SNAPSHOT;
+  const { doc, label } = await loadDocument(source);
+  if (!doc.openapi && !doc.swagger) fail(`${source} is not an OpenAPI document`);
+  const output = render(doc, label);
+  const target = path.join(ROOT, OUTPUT);
+
+  if (check) {
+    const current = await readFile(target, 'utf8').catch(() => '');
+    if (current !== output) fail(`${OUTPUT} is out of date with ${label}; run \`npm run generate:api\``);
+    console.log(`${OUTPUT} is up to date`);
+    return;
+  }
+  await writeFile(target, output);
+  console.log(`Wrote ${OUTPUT}`);
+};
+
+// Run only from the command line, so tests can import render
+if (process.argv[1] && path.resolve(process.argv[1]) === fileURLToPath(import.meta.url)) {
+  main(process.argv.slice(2)).catch(e => {
+    console.error(`generate-api: ${e.message}`);
+    process.exit(1);
+  });
+}
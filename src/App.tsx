@@ -1,26 +1,53 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import Sidebar from './components/Sidebar';
+import Toaster from './components/Toaster';
 import Chat from './pages/Chat';
 import Settings from './pages/Settings';
 import Gemini from './pages/Gemini';
+import Compare from './pages/Compare';
+import Analytics from './pages/Analytics';
 import Login from './pages/Login';
+import AuthCallback from './pages/AuthCallback';
 import { api } from './api/heidi';
+import { useConnectionProfiles } from './hooks/useConnectionProfiles';
+import { useRoute, getCurrentRoute, parseRoute } from './hooks/useRoute';
+import { useMonthlyBudget } from './hooks/useBudget';
+import { useCollaboration } from './hooks/useCollaboration';
+import { SESSION_EXPIRED_EVENT, takeReturnTo } from './api/session';
+import { UnauthorizedError } from './api/errors';
 import { User } from './types';
-import { AlertTriangle, RefreshCw, LogIn } from 'lucide-react';
+import { AlertTriangle, RefreshCw, LogIn, Wallet } from 'lucide-react';
 
 function App() {
-  const [currentView, setCurrentView] = useState<'chat' | 'settings' | 'gemini' | 'login'>('chat');
-  const [selectedRunId, setSelectedRunId] = useState<string | null>(null);
+  const { route, navigate } = useRoute();
+  const currentView = route.name;
+  const selectedRunId = route.name === 'chat' ? route.runId : null;
+  const compareRunIds = route.name === 'compare' ? route.runIds : [];
+  const geminiChatId = route.name === 'gemini' ? route.chatId ?? null : null;
   const [refreshSidebarTrigger, setRefreshSidebarTrigger] = useState(0);
   const [isBackendOffline, setIsBackendOffline] = useState(false);
   const [isUnauthorized, setIsUnauthorized] = useState(false);
   const [isChecking, setIsChecking] = useState(false);
   const [user, setUser] = useState<User | null>(null);
+  const { activeProfile } = useConnectionProfiles();
+  const monthlyBudget = useMonthlyBudget(refreshSidebarTrigger);
+  const [budgetWarningDismissed, setBudgetWarningDismissed] = useState(false);
+  // Lives here rather than in Gemini Studio so peers see which run we have open
+  const collaboration = useCollaboration(
+    { userId: user?.id, name: user?.name || user?.username, avatarUrl: user?.avatar_url },
+    { view: currentView, runId: selectedRunId },
+  );
   
   // Default to open on desktop, closed on mobile
   const [isSidebarOpen, setIsSidebarOpen] = useState(window.innerWidth >= 768);
   const [isMobile, setIsMobile] = useState(window.innerWidth < 768);
 
+  // Back to where the user was when their session expired, if it did
+  const navigateAfterLogin = () => {
+    const returnTo = takeReturnTo();
+    navigate(returnTo ? parseRoute(returnTo.pathname, returnTo.search) : { name: 'chat', runId: null }, { replace: true });
+  };
+
   const checkStatus = async () => {
     setIsChecking(true);
     try {
@@ -33,9 +60,9 @@ function App() {
       if (auth.authenticated && auth.user) {
           setUser(auth.user);
           setIsUnauthorized(false);
-          // If we were on login page and just got authenticated (e.g. cookie set via redirect), go to chat
-          if (currentView === 'login') {
-              setCurrentView('chat');
+          // If we were on login page and just got authenticated (e.g. cookie set via redirect), go back
+          if (getCurrentRoute().name === 'login') {
+              navigateAfterLogin();
           }
       } else {
           setUser(null);
@@ -44,7 +71,7 @@ function App() {
           // api.getAuthStatus returns false if 401
       }
     } catch (e: any) {
-      if (e.message === 'Unauthorized') {
+      if (e instanceof UnauthorizedError) {
           setIsUnauthorized(true);
           setIsBackendOffline(false);
           setUser(null);
@@ -62,6 +89,35 @@ function App() {
     checkStatus();
   }, []);
 
+  // A request found the session expired and the refresh failed. Signed-in
+  // users go to the login page; the interceptor already saved their place.
+  const userRef = useRef(user);
+  userRef.current = user;
+  useEffect(() => {
+    const handleExpired = () => {
+      const wasSignedIn = !!userRef.current;
+      setUser(null);
+      setIsUnauthorized(true);
+      if (wasSignedIn && getCurrentRoute().name !== 'login') navigate({ name: 'login' });
+    };
+    window.addEventListener(SESSION_EXPIRED_EVENT, handleExpired);
+    return () => window.removeEventListener(SESSION_EXPIRED_EVENT, handleExpired);
+  }, []);
+
+  // Switching backend profile invalidates the open run and auth state
+  const profileIdRef = useRef(activeProfile.id);
+  useEffect(() => {
+    if (profileIdRef.current === activeProfile.id) return;
+    profileIdRef.current = activeProfile.id;
+    // Run IDs from the old backend mean nothing on the new one
+    if (selectedRunId || currentView === 'compare') {
+      navigate({ name: 'chat', runId: null }, { replace: true });
+    }
+    setUser(null);
+    setIsUnauthorized(false);
+    checkStatus();
+  }, [activeProfile.id]);
+
   // Monitor screen size
   useEffect(() => {
     const handleResize = () => {
@@ -75,30 +131,52 @@ function App() {
     return () => window.removeEventListener('resize', handleResize);
   }, [isSidebarOpen, currentView]);
 
-  const handleNavigate = (view: 'chat' | 'settings' | 'gemini' | 'login') => {
-    setCurrentView(view);
-    if (view === 'settings' || view === 'gemini' || view === 'login') {
-        setSelectedRunId(null);
-    }
+  const handleNavigate = (view: 'settings' | 'gemini' | 'analytics' | 'login') => {
+    navigate({ name: view });
     if (isMobile) setIsSidebarOpen(false);
   };
 
   const handleSelectRun = (runId: string) => {
-    setSelectedRunId(runId);
-    setCurrentView('chat');
+    navigate({ name: 'chat', runId });
+    if (isMobile) setIsSidebarOpen(false);
+  };
+
+  const handleCompareRuns = (runIds: string[]) => {
+    navigate({ name: 'compare', runIds });
+    if (isMobile) setIsSidebarOpen(false);
+  };
+
+  const handleSelectGeminiChat = (chatId: string | null) => {
+    navigate({ name: 'gemini', chatId });
     if (isMobile) setIsSidebarOpen(false);
   };
 
   const handleNewChat = () => {
-    setSelectedRunId(null);
-    setCurrentView('chat');
+    navigate({ name: 'chat', runId: null });
     if (isMobile) setIsSidebarOpen(false);
   };
 
-  const handleRunCreated = () => {
+  const handleRunCreated = (runId: string) => {
+      // Give the new run its shareable URL without adding a history entry
+      navigate({ name: 'chat', runId }, { replace: true });
       setRefreshSidebarTrigger(prev => prev + 1);
   };
 
+  const showUnauthorizedBanner = isUnauthorized && currentView !== 'login' && !user;
+  const showBudgetBanner = monthlyBudget.exceeded && !budgetWarningDismissed && !isBackendOffline && !showUnauthorizedBanner && currentView !== 'login';
+
+  // The OAuth redirect lands here; it renders on its own, outside the app shell
+  if (currentView === 'authCallback') {
+    return (
+      <AuthCallback
+        onComplete={() => {
+          navigateAfterLogin();
+          checkStatus();
+        }}
+      />
+    );
+  }
+
   const toggleSidebar = () => setIsSidebarOpen(!isSidebarOpen);
 
   return (
@@ -123,7 +201,7 @@ function App() {
       )}
 
       {/* Unauthorized Banner - Only show if not already on login page */}
-      {isUnauthorized && currentView !== 'login' && !user && (
+      {showUnauthorizedBanner && (
         <div className="fixed top-0 left-0 right-0 z-[100] bg-orange-600/90 backdrop-blur-md text-white px-4 py-2 text-sm font-bold flex items-center justify-center gap-4 shadow-xl animate-in slide-in-from-top duration-300">
            <div className="flex items-center gap-2">
              <LogIn size={16} />
@@ -131,13 +209,13 @@ function App() {
            </div>
            <div className="flex gap-2">
              <button 
-               onClick={() => setCurrentView('login')}
+               onClick={() => navigate({ name: 'login' })}
                className="px-3 py-1 bg-white text-orange-600 rounded-full text-xs hover:bg-orange-50 transition-colors"
              >
                Log In
              </button>
              <button 
-               onClick={() => setCurrentView('settings')}
+               onClick={() => navigate({ name: 'settings' })}
                className="px-3 py-1 bg-black/20 text-white rounded-full text-xs hover:bg-black/30 transition-colors"
              >
                Settings
@@ -146,6 +224,32 @@ function App() {
         </div>
       )}
 
+      {/* Budget Banner */}
+      {showBudgetBanner && (
+        <div className="fixed top-0 left-0 right-0 z-[100] bg-amber-600/90 backdrop-blur-md text-white px-4 py-2 text-sm font-bold flex items-center justify-center gap-4 shadow-xl animate-in slide-in-from-top duration-300">
+           <div className="flex items-center gap-2">
+             <Wallet size={16} />
+             <span>
+               Monthly budget exceeded: ${monthlyBudget.spent!.toFixed(2)} of ${monthlyBudget.budget!.toFixed(2)}
+             </span>
+           </div>
+           <div className="flex gap-2">
+             <button 
+               onClick={() => navigate({ name: 'analytics' })}
+               className="px-3 py-1 bg-white text-amber-700 rounded-full text-xs hover:bg-amber-50 transition-colors"
+             >
+               View Usage
+             </button>
+             <button 
+               onClick={() => setBudgetWarningDismissed(true)}
+               className="px-3 py-1 bg-black/20 text-white rounded-full text-xs hover:bg-black/30 transition-colors"
+             >
+               Dismiss
+             </button>
+           </div>
+        </div>
+      )}
+
       {/* Mobile Backdrop */}
       {isMobile && isSidebarOpen && currentView !== 'login' && (
         <div 
@@ -176,18 +280,22 @@ function App() {
                     }}
                     onNewChat={handleNewChat}
                     onSelectRun={handleSelectRun}
+                    onCompareRuns={handleCompareRuns}
+                    selectedChatId={geminiChatId}
+                    onSelectChat={handleSelectGeminiChat}
                     selectedRunId={selectedRunId}
                     refreshTrigger={refreshSidebarTrigger}
                     isOpen={isSidebarOpen}
                     onToggle={toggleSidebar}
                     user={user}
+                    peers={collaboration.peers}
                 />
             </div>
         </aside>
       )}
 
       {/* Main Content Area */}
-      <main className={`flex-1 flex flex-col relative h-full min-w-0 bg-gradient-to-b from-transparent to-black/20 ${(isBackendOffline || (isUnauthorized && !user && currentView !== 'login')) ? 'pt-8' : ''}`}>
+      <main className={`flex-1 flex flex-col relative h-full min-w-0 bg-gradient-to-b from-transparent to-black/20 ${(isBackendOffline || showUnauthorizedBanner || showBudgetBanner) ? 'pt-8' : ''}`}>
         {currentView === 'login' ? (
             <Login />
         ) : currentView === 'settings' ? (
@@ -195,10 +303,26 @@ function App() {
                 isSidebarOpen={isSidebarOpen}
                 onToggleSidebar={toggleSidebar}
             />
+        ) : currentView === 'analytics' ? (
+            <Analytics
+                isSidebarOpen={isSidebarOpen}
+                onToggleSidebar={toggleSidebar}
+            />
+        ) : currentView === 'compare' ? (
+            <Compare
+                runIds={compareRunIds}
+                onChangeRunIds={(runIds) => navigate({ name: 'compare', runIds }, { replace: true })}
+                onOpenRun={handleSelectRun}
+                isSidebarOpen={isSidebarOpen}
+                onToggleSidebar={toggleSidebar}
+            />
         ) : currentView === 'gemini' ? (
             <Gemini 
                 isSidebarOpen={isSidebarOpen}
                 onToggleSidebar={toggleSidebar}
+                chatId={geminiChatId}
+                onChatCreated={(chatId) => navigate({ name: 'gemini', chatId }, { replace: true })}
+                collaboration={collaboration}
             />
         ) : (
             <Chat 
@@ -206,10 +330,12 @@ function App() {
                 onRunCreated={handleRunCreated}
                 isSidebarOpen={isSidebarOpen}
                 onToggleSidebar={toggleSidebar}
+                viewers={selectedRunId ? collaboration.peers.filter(p => p.viewing?.runId === selectedRunId) : []}
             />
         )}
       </main>
 
+      <Toaster />
     </div>
   );
 }
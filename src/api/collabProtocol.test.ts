@@ -0,0 +1,74 @@
+import { describe, it, expect } from 'vitest';
+import { PROTOCOL_VERSION, mergeMessages, parseWireMessage, RoomMessage } from './collabProtocol';
+
+const presence = (fields: Record<string, unknown>) => ({
+  v: PROTOCOL_VERSION,
+  type: 'presence',
+  profile: { clientId: 'c1', name: 'Ada', avatarUrl: 'https://example.com/a.png' },
+  status: 'online',
+  viewing: { view: 'chat', runId: 'run-1' },
+  ...fields,
+});
+
+const message = (id: string, lamport: number, senderId = 'a'): RoomMessage => ({
+  v: PROTOCOL_VERSION, id, senderId, lamport, sentAt: 0, kind: 'chat', text: id,
+});
+
+describe('parseWireMessage', () => {
+  it('accepts well-formed presence', () => {
+    expect(parseWireMessage(presence({}))).toEqual({
+      v: PROTOCOL_VERSION,
+      type: 'presence',
+      profile: { clientId: 'c1', userId: undefined, name: 'Ada', avatarUrl: 'https://example.com/a.png' },
+      status: 'online',
+      viewing: { view: 'chat', runId: 'run-1' },
+    });
+  });
+
+  it('rejects presence without a client id or with an unknown status', () => {
+    expect(parseWireMessage(presence({ profile: { name: 'Ada' } }))).toBeNull();
+    expect(parseWireMessage(presence({ status: 'busy' }))).toBeNull();
+  });
+
+  it('drops profile and view fields of the wrong type', () => {
+    const parsed = parseWireMessage(presence({
+      profile: { clientId: 'c1', name: { first: 'Ada' }, userId: 5, avatarUrl: ['x'] },
+      viewing: { view: 'chat', runId: 12 },
+    }));
+    expect(parsed).toMatchObject({
+      profile: { clientId: 'c1', name: undefined, userId: undefined, avatarUrl: undefined },
+      viewing: { view: 'chat', runId: null },
+    });
+    expect(parseWireMessage(presence({ viewing: { view: 3 } }))).toMatchObject({ viewing: null });
+    expect(parseWireMessage(presence({ viewing: 'chat' }))).toMatchObject({ viewing: null });
+  });
+
+  it('only accepts http(s) avatar URLs', () => {
+    for (const avatarUrl of ['javascript:alert(1)', 'data:image/png;base64,AAAA', 'file:///etc/passwd', '/relative.png']) {
+      expect(parseWireMessage(presence({ profile: { clientId: 'c1', avatarUrl } }))).toMatchObject({ profile: { avatarUrl: undefined } });
+    }
+    expect(parseWireMessage(presence({ profile: { clientId: 'c1', avatarUrl: 'http://example.com/a.png' } })))
+      .toMatchObject({ profile: { avatarUrl: 'http://example.com/a.png' } });
+  });
+
+  it('rejects other protocol versions', () => {
+    expect(parseWireMessage(presence({ v: PROTOCOL_VERSION + 1 }))).toBeNull();
+  });
+
+  it('filters malformed messages out of a sync', () => {
+    const parsed = parseWireMessage({ v: PROTOCOL_VERSION, type: 'sync', messages: [message('m1', 1), { id: 'bad' }] });
+    expect(parsed).toMatchObject({ messages: [message('m1', 1)] });
+  });
+});
+
+describe('mergeMessages', () => {
+  it('orders by Lamport time, then sender, and ignores known ids', () => {
+    const merged = mergeMessages([message('m2', 2)], [message('m1', 1, 'b'), message('m0', 1, 'a'), message('m2', 2)]);
+    expect(merged.map(m => m.id)).toEqual(['m0', 'm1', 'm2']);
+  });
+
+  it('returns the same array when nothing is new', () => {
+    const existing = [message('m1', 1)];
+    expect(mergeMessages(existing, [message('m1', 1)])).toBe(existing);
+  });
+});
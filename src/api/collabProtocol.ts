@@ -0,0 +1,156 @@
+// --- Collaboration room wire protocol ---
+//
+// Every chat message travels in a versioned envelope with a unique id and
+// a Lamport timestamp, so peers can drop duplicates and agree on one order.
+// Receivers acknowledge each message; peers that join late ask the others
+// for whatever part of the transcript they are missing. Attachment bytes are
+// not part of the envelope; see collabTransfer.
+//
+// senderId is the sender's client id, which survives a page reload (unlike
+// the transport's peer id), so a returning user keeps their messages.
+// Presence is not part of the transcript: each peer announces its profile,
+// status and current view to new peers and again whenever it changes.
+
+export const PROTOCOL_VERSION = 2;
+
+// Unacknowledged messages are resent this often, up to MAX_RESENDS times
+export const ACK_TIMEOUT_MS = 3_000;
+export const MAX_RESENDS = 3;
+// Most messages handed to a late joiner in one sync
+export const SYNC_LIMIT = 200;
+
+export type RoomMessageKind = 'chat' | 'ai';
+
+// Announces an attachment; the bytes arrive as chunks keyed by transferId
+export interface RoomAttachment {
+  transferId: string;
+  type: 'image' | 'video';
+  mimeType: string;
+  size: number;
+  sha256: string;
+}
+
+export interface RoomMessage {
+  v: number;
+  id: string;
+  senderId: string;
+  senderName?: string;
+  lamport: number;
+  sentAt: number;
+  kind: RoomMessageKind;
+  text: string;
+  attachment?: RoomAttachment;
+}
+
+export type PresenceStatus = 'online' | 'idle' | 'away';
+
+export interface PeerProfile {
+  clientId: string;
+  userId?: string;
+  name?: string;
+  avatarUrl?: string;
+}
+
+// Which page a peer has open, and the run when it's a run page
+export interface PresenceView {
+  view: string;
+  runId?: string | null;
+}
+
+export type WireMessage =
+  | { v: number; type: 'msg'; message: RoomMessage }
+  | { v: number; type: 'ack'; ids: string[] }
+  | { v: number; type: 'sync-request'; known: string[] }
+  | { v: number; type: 'sync'; messages: RoomMessage[] }
+  | { v: number; type: 'chunk-request'; transferId: string; from: number }
+  | { v: number; type: 'presence'; profile: PeerProfile; status: PresenceStatus; viewing: PresenceView | null };
+
+export const createMessageId = () =>
+  typeof crypto !== 'undefined' && 'randomUUID' in crypto
+    ? crypto.randomUUID()
+    : Math.random().toString(36).slice(2) + Date.now().toString(36);
+
+// Total order shared by every peer: Lamport time, then sender, then id
+export const compareMessages = (a: RoomMessage, b: RoomMessage) =>
+  a.lamport - b.lamport || a.senderId.localeCompare(b.senderId) || a.id.localeCompare(b.id);
+
+// Adds incoming messages to an ordered transcript, ignoring ids already present.
+// Returns the same array when nothing was new.
+export const mergeMessages = (existing: RoomMessage[], incoming: RoomMessage[]): RoomMessage[] => {
+  const known = new Set(existing.map(m => m.id));
+  const added = incoming.filter(m => {
+    if (known.has(m.id)) return false;
+    known.add(m.id);
+    return true;
+  });
+  if (added.length === 0) return existing;
+  return [...existing, ...added].sort(compareMessages);
+};
+
+// Rejects anything from another protocol version or missing required fields
+export const parseWireMessage = (data: any): WireMessage | null => {
+  if (!data || typeof data !== 'object' || data.v !== PROTOCOL_VERSION) return null;
+  switch (data.type) {
+    case 'msg':
+      return isRoomMessage(data.message) ? data : null;
+    case 'ack':
+      return Array.isArray(data.ids) ? data : null;
+    case 'sync-request':
+      return Array.isArray(data.known) ? data : null;
+    case 'sync':
+      return Array.isArray(data.messages) ? { ...data, messages: data.messages.filter(isRoomMessage) } : null;
+    case 'chunk-request':
+      return typeof data.transferId === 'string' && typeof data.from === 'number' ? data : null;
+    case 'presence':
+      return parsePresence(data);
+    default:
+      return null;
+  }
+};
+
+const PRESENCE_STATUSES: PresenceStatus[] = ['online', 'idle', 'away'];
+
+const optionalString = (value: unknown) => typeof value === 'string' && value ? value : undefined;
+
+// Every member loads a peer's avatar, so only plain web URLs are accepted
+const safeAvatarUrl = (value: unknown) => {
+  if (typeof value !== 'string') return undefined;
+  try {
+    const url = new URL(value);
+    return url.protocol === 'https:' || url.protocol === 'http:' ? url.href : undefined;
+  } catch {
+    return undefined;
+  }
+};
+
+// Presence is rendered as-is, so it is rebuilt from the fields that have the
+// right types; anything else a peer sent is dropped
+const parsePresence = (data: any): WireMessage | null => {
+  const profile = data.profile;
+  if (!profile || typeof profile !== 'object' || typeof profile.clientId !== 'string' || !PRESENCE_STATUSES.includes(data.status)) return null;
+  const viewing = data.viewing;
+  return {
+    v: data.v,
+    type: 'presence',
+    profile: {
+      clientId: profile.clientId,
+      userId: optionalString(profile.userId),
+      name: optionalString(profile.name),
+      avatarUrl: safeAvatarUrl(profile.avatarUrl),
+    },
+    status: data.status,
+    viewing: viewing && typeof viewing === 'object' && typeof viewing.view === 'string'
+      ? { view: viewing.view, runId: optionalString(viewing.runId) ?? null }
+      : null,
+  };
+};
+
+const isRoomMessage = (m: any): m is RoomMessage =>
+  !!m && m.v === PROTOCOL_VERSION && typeof m.id === 'string' && typeof m.senderId === 'string' &&
+  typeof m.lamport === 'number' && typeof m.text === 'string';
+
+// What a peer that already knows `known` is missing, newest SYNC_LIMIT only
+export const missingMessages = (transcript: RoomMessage[], known: string[]) => {
+  const have = new Set(known);
+  return transcript.filter(m => !have.has(m.id)).slice(-SYNC_LIMIT);
+};
@@ -0,0 +1,80 @@
+// --- Collaboration room ids, passphrases and invite links ---
+//
+// A passphrase is handed to Trystero as its `password`, which derives the key
+// that encrypts the connection handshake; peers without it can't connect.
+// Invite links carry the passphrase in the URL fragment, which browsers never
+// send to a server.
+//
+// The client id and the current room live in sessionStorage: a reload keeps
+// both, so the user rejoins as the same participant, while a second tab gets
+// an identity of its own.
+
+export interface RoomJoin {
+  id: string;
+  passphrase?: string;
+}
+
+const CLIENT_ID_KEY = 'HEIDI_COLLAB_CLIENT_ID';
+const ACTIVE_ROOM_KEY = 'HEIDI_COLLAB_ROOM';
+
+const PASSPHRASE_ALPHABET = 'abcdefghijkmnpqrstuvwxyz23456789'; // No look-alike characters
+
+const randomBytes = (length: number) => crypto.getRandomValues(new Uint8Array(length));
+
+// 128 random bits, hex encoded
+export const createRoomId = () =>
+  Array.from(randomBytes(16)).map(b => b.toString(16).padStart(2, '0')).join('');
+
+// Four dash-separated groups of five characters, about 100 bits
+export const createPassphrase = () => {
+  const chars = Array.from(randomBytes(20)).map(b => PASSPHRASE_ALPHABET[b % PASSPHRASE_ALPHABET.length]);
+  return [0, 5, 10, 15].map(i => chars.slice(i, i + 5).join('')).join('-');
+};
+
+export const buildInviteLink = (room: RoomJoin) => {
+  const url = new URL('/gemini', window.location.origin);
+  url.searchParams.set('room', room.id);
+  if (room.passphrase) url.hash = new URLSearchParams({ key: room.passphrase }).toString();
+  return url.toString();
+};
+
+// Room invite in the current address, if any
+export const readInvite = (): RoomJoin | null => {
+  const id = new URLSearchParams(window.location.search).get('room');
+  if (!id) return null;
+  const passphrase = new URLSearchParams(window.location.hash.slice(1)).get('key') || undefined;
+  return { id, passphrase };
+};
+
+// Drops the invite from the address bar so the passphrase doesn't linger in history
+export const clearInvite = () => {
+  const params = new URLSearchParams(window.location.search);
+  params.delete('room');
+  const query = params.toString();
+  window.history.replaceState(null, '', `${window.location.pathname}${query ? `?${query}` : ''}`);
+};
+
+// This tab's identity in every room
+export const getClientId = () => {
+  let id = sessionStorage.getItem(CLIENT_ID_KEY);
+  if (!id) {
+    id = createRoomId();
+    sessionStorage.setItem(CLIENT_ID_KEY, id);
+  }
+  return id;
+};
+
+// Room to rejoin after a reload
+export const getActiveRoom = (): RoomJoin | null => {
+  try {
+    const stored = JSON.parse(sessionStorage.getItem(ACTIVE_ROOM_KEY) || 'null');
+    return stored && typeof stored.id === 'string' ? stored : null;
+  } catch (e) {
+    return null;
+  }
+};
+
+export const saveActiveRoom = (room: RoomJoin | null) => {
+  if (room) sessionStorage.setItem(ACTIVE_ROOM_KEY, JSON.stringify(room));
+  else sessionStorage.removeItem(ACTIVE_ROOM_KEY);
+};
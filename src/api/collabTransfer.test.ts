@@ -0,0 +1,32 @@
+import { describe, it, expect } from 'vitest';
+import { CHUNK_SIZE, assembleChunks, chunkAt, chunkCount, chunkLength, firstMissingChunk } from './collabTransfer';
+
+describe('chunking', () => {
+  const size = CHUNK_SIZE * 2 + 10;
+  const bytes = Uint8Array.from({ length: size }, (_, i) => i % 251);
+
+  it('splits into full chunks and a remainder', () => {
+    expect(chunkCount(size)).toBe(3);
+    expect([0, 1, 2].map(i => chunkLength(size, i))).toEqual([CHUNK_SIZE, CHUNK_SIZE, 10]);
+    expect([0, 1, 2].map(i => chunkAt(bytes, i).length)).toEqual([CHUNK_SIZE, CHUNK_SIZE, 10]);
+  });
+
+  it('expects one empty chunk for an empty attachment', () => {
+    expect(chunkCount(0)).toBe(1);
+    expect(chunkLength(0, 0)).toBe(0);
+  });
+
+  it('has no room for chunks past the end', () => {
+    expect(chunkLength(size, 3)).toBe(0);
+  });
+
+  it('reassembles what was split', () => {
+    const chunks = [0, 1, 2].map(i => chunkAt(bytes, i));
+    expect(assembleChunks(chunks, size)).toEqual(bytes);
+  });
+
+  it('resumes from the first missing chunk', () => {
+    expect(firstMissingChunk([new Uint8Array(1), undefined, new Uint8Array(1)])).toBe(1);
+    expect(firstMissingChunk([new Uint8Array(1)])).toBe(-1);
+  });
+});
@@ -0,0 +1,72 @@
+// --- Chunked attachment transfer for collaboration rooms ---
+//
+// Attachments are announced in the message envelope (size, type, checksum)
+// and the bytes follow separately as fixed-size binary chunks. Receivers pull
+// chunks starting from the first one they are missing, so an interrupted
+// transfer resumes where it stopped once the peer is back.
+
+export const CHUNK_SIZE = 64 * 1024;
+
+// Larger attachments are announced but never sent
+export const MAX_TRANSFER_BYTES = 100 * 1024 * 1024;
+
+export type TransferStatus = 'active' | 'paused' | 'done' | 'failed' | 'rejected';
+
+export interface TransferProgress {
+  transferId: string;
+  peerId: string; // The other side of the transfer
+  direction: 'send' | 'receive';
+  bytes: number;
+  size: number;
+  status: TransferStatus;
+  error?: string;
+}
+
+export const chunkCount = (size: number) => Math.max(1, Math.ceil(size / CHUNK_SIZE));
+
+// Every chunk is CHUNK_SIZE long except the last, which holds the rest
+export const chunkLength = (size: number, index: number) =>
+  Math.max(0, Math.min(CHUNK_SIZE, size - index * CHUNK_SIZE));
+
+export const chunkAt = (bytes: Uint8Array, index: number) =>
+  bytes.subarray(index * CHUNK_SIZE, Math.min((index + 1) * CHUNK_SIZE, bytes.length));
+
+// Index to resume from, or -1 once every chunk is in
+export const firstMissingChunk = (chunks: (Uint8Array | undefined)[]) => chunks.findIndex(c => !c);
+
+export const assembleChunks = (chunks: Uint8Array[], size: number) => {
+  const out = new Uint8Array(size);
+  let offset = 0;
+  chunks.forEach(c => {
+    out.set(c, offset);
+    offset += c.length;
+  });
+  return out;
+};
+
+export const sha256Hex = async (bytes: Uint8Array) => {
+  const digest = await crypto.subtle.digest('SHA-256', bytes as BufferSource);
+  return Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('');
+};
+
+export const base64ToBytes = (base64: string) => {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+};
+
+export const bytesToBase64 = (bytes: Uint8Array) => {
+  let binary = '';
+  // Build the string in slices; spreading a whole video overflows the call stack
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+};
+
+export const formatBytes = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(0)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
@@ -0,0 +1,261 @@
+// --- Signaling/data transport for collaboration rooms ---
+//
+// useCollaboration talks to a TransportRoom and doesn't care how peers find
+// each other. Two implementations:
+//   trystero - the bundled Trystero package: WebRTC, signaling over public
+//              BitTorrent trackers, no server of our own
+//   relay    - a self-hosted WebSocket relay (see scripts/collab-relay.mjs)
+//              that forwards every message; works where WebRTC and public
+//              trackers are blocked, but has no audio/video calls
+
+export type TransportKind = 'trystero' | 'relay';
+
+export interface TransportSettings {
+  kind: TransportKind;
+  relayUrl: string;
+}
+
+export type ActionSend = (data: any, target?: string | string[] | null, metadata?: any) => Promise<unknown>;
+export type ActionReceive = (handler: (data: any, peerId: string, metadata?: any) => void) => void;
+
+export interface TransportRoom {
+  selfId: string;
+  supportsMedia: boolean;
+  makeAction: (name: string) => [ActionSend, ActionReceive];
+  onPeerJoin: (fn: (peerId: string) => void) => void;
+  onPeerLeave: (fn: (peerId: string) => void) => void;
+  onPeerStream: (fn: (stream: MediaStream, peerId: string) => void) => void;
+  getPeers: () => string[];
+  addStream: (stream: MediaStream) => void;
+  removeStream: (stream: MediaStream) => void;
+  leave: () => void;
+}
+
+export interface JoinOptions {
+  appId: string;
+  passphrase?: string;
+}
+
+const TRANSPORT_KEY = 'HEIDI_COLLAB_TRANSPORT';
+
+export const DEFAULT_TRANSPORT_SETTINGS: TransportSettings = {
+  kind: 'trystero',
+  relayUrl: 'ws://127.0.0.1:8787',
+};
+
+export const getTransportSettings = (): TransportSettings => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(TRANSPORT_KEY) || 'null');
+    return { ...DEFAULT_TRANSPORT_SETTINGS, ...stored };
+  } catch (e) {
+    return DEFAULT_TRANSPORT_SETTINGS;
+  }
+};
+
+export const saveTransportSettings = (settings: TransportSettings) => {
+  localStorage.setItem(TRANSPORT_KEY, JSON.stringify(settings));
+};
+
+// Settings apply the next time a room is joined
+export const joinTransportRoom = (settings: TransportSettings, roomId: string, options: JoinOptions): Promise<TransportRoom> =>
+  settings.kind === 'relay'
+    ? joinRelayRoom(settings.relayUrl, roomId, options)
+    : joinTrysteroRoom(roomId, options);
+
+// --- Trystero ---
+
+const joinTrysteroRoom = async (roomId: string, options: JoinOptions): Promise<TransportRoom> => {
+  const { joinRoom, selfId } = await import('trystero/torrent');
+  // With a password Trystero encrypts the handshake; peers without it can't connect
+  const room = joinRoom({ appId: options.appId, ...(options.passphrase ? { password: options.passphrase } : {}) }, roomId);
+  return {
+    selfId,
+    supportsMedia: true,
+    makeAction: (name) => {
+      const [send, receive] = room.makeAction<any>(name);
+      return [(data, target, metadata) => send(data, target, metadata), (handler) => receive(handler)];
+    },
+    onPeerJoin: (fn) => room.onPeerJoin(fn),
+    onPeerLeave: (fn) => room.onPeerLeave(fn),
+    onPeerStream: (fn) => room.onPeerStream(fn),
+    getPeers: () => Object.keys(room.getPeers()),
+    addStream: (stream) => { room.addStream(stream); },
+    removeStream: (stream) => room.removeStream(stream),
+    leave: () => { room.leave(); },
+  };
+};
+
+// --- WebSocket relay ---
+//
+// Text frames of JSON. Client -> relay:
+//   { type: 'join', room, peerId }
+//   { type: 'send', to: string[] | null, action, data }
+// Relay -> client:
+//   { type: 'peers', peers }   current members, sent after join
+//   { type: 'join', peerId } / { type: 'leave', peerId }
+//   { type: 'message', from, action, data }
+// `data` is opaque to the relay. The room name it sees is a hash, and with a
+// passphrase the data is AES-GCM encrypted, so the relay can't read either.
+
+const RELAY_RECONNECT_MS = 2_000;
+const RELAY_MAX_RECONNECT_MS = 15_000;
+// Pause sending while this much is still queued on the socket
+const RELAY_MAX_BUFFERED = 1024 * 1024;
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+const toBase64 = (bytes: Uint8Array) => {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  return btoa(binary);
+};
+
+const fromBase64 = (base64: string) => Uint8Array.from(atob(base64), c => c.charCodeAt(0));
+
+const sha256Hex = async (text: string) => {
+  const digest = await crypto.subtle.digest('SHA-256', encoder.encode(text));
+  return Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('');
+};
+
+const deriveKey = async (passphrase: string, salt: string) => {
+  const material = await crypto.subtle.importKey('raw', encoder.encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt: encoder.encode(salt), iterations: 100_000, hash: 'SHA-256' },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt'],
+  );
+};
+
+// Binary payloads (attachment chunks) are base64 encoded to ride in JSON
+const encodePayload = (data: any, metadata: any) =>
+  data instanceof ArrayBuffer || ArrayBuffer.isView(data)
+    ? { binary: toBase64(data instanceof ArrayBuffer ? new Uint8Array(data) : new Uint8Array(data.buffer, data.byteOffset, data.byteLength)), metadata }
+    : { json: data, metadata };
+
+const decodePayload = (payload: any): { data: any; metadata: any } =>
+  payload.binary !== undefined
+    ? { data: fromBase64(payload.binary).buffer, metadata: payload.metadata }
+    : { data: payload.json, metadata: payload.metadata };
+
+const joinRelayRoom = async (relayUrl: string, roomId: string, options: JoinOptions): Promise<TransportRoom> => {
+  const selfId = crypto.randomUUID();
+  const roomHash = await sha256Hex(`${options.appId}:${roomId}`);
+  const key = options.passphrase ? await deriveKey(options.passphrase, roomHash) : null;
+
+  const seal = async (payload: any) => {
+    const plain = JSON.stringify(payload);
+    if (!key) return plain;
+    const iv = crypto.getRandomValues(new Uint8Array(12));
+    const sealed = new Uint8Array(await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, encoder.encode(plain)));
+    return { iv: toBase64(iv), ct: toBase64(sealed) };
+  };
+
+  const open = async (data: any) => {
+    if (!key) return typeof data === 'string' ? JSON.parse(data) : null;
+    if (!data || typeof data.iv !== 'string') return null;
+    const plain = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: fromBase64(data.iv) }, key, fromBase64(data.ct));
+    return JSON.parse(decoder.decode(plain));
+  };
+
+  const receivers = new Map<string, (data: any, peerId: string, metadata?: any) => void>();
+  const joinHandlers: ((peerId: string) => void)[] = [];
+  const leaveHandlers: ((peerId: string) => void)[] = [];
+  const peers = new Set<string>();
+  let socket: WebSocket | null = null;
+  let left = false;
+  let joined = false;
+  let reconnectDelay = RELAY_RECONNECT_MS;
+
+  const addPeer = (peerId: string) => {
+    if (peerId === selfId || peers.has(peerId)) return;
+    peers.add(peerId);
+    joinHandlers.forEach(fn => fn(peerId));
+  };
+
+  const removePeer = (peerId: string) => {
+    if (!peers.delete(peerId)) return;
+    leaveHandlers.forEach(fn => fn(peerId));
+  };
+
+  const connect = () => new Promise<void>((resolve, reject) => {
+    const ws = new WebSocket(relayUrl);
+    socket = ws;
+    ws.onopen = () => {
+      reconnectDelay = RELAY_RECONNECT_MS;
+      // Joined on the next tick so the caller can register handlers before peers arrive
+      setTimeout(() => ws.send(JSON.stringify({ type: 'join', room: roomHash, peerId: selfId })), 0);
+      resolve();
+    };
+    ws.onerror = () => reject(new Error(`Could not connect to relay at ${relayUrl}`));
+    ws.onmessage = async (event) => {
+      let msg: any;
+      try {
+        msg = JSON.parse(event.data);
+      } catch (e) {
+        return;
+      }
+      if (msg.type === 'peers') (msg.peers || []).forEach(addPeer);
+      else if (msg.type === 'join') addPeer(msg.peerId);
+      else if (msg.type === 'leave') removePeer(msg.peerId);
+      else if (msg.type === 'message') {
+        const receiver = receivers.get(msg.action);
+        if (!receiver) return;
+        try {
+          const payload = await open(msg.data);
+          if (!payload) return;
+          const { data, metadata } = decodePayload(payload);
+          receiver(data, msg.from, metadata);
+        } catch (e) {
+          // Wrong passphrase or tampered data
+          console.warn(`Dropped undecryptable relay message from ${msg.from}`);
+        }
+      }
+    };
+    ws.onclose = () => {
+      if (socket !== ws) return;
+      Array.from(peers).forEach(removePeer);
+      if (left || !joined) return;
+      // Rejoining under the same id lets peers resume interrupted transfers
+      setTimeout(() => { if (!left) connect().catch(() => {}); }, reconnectDelay);
+      reconnectDelay = Math.min(reconnectDelay * 2, RELAY_MAX_RECONNECT_MS);
+    };
+  });
+
+  await connect();
+  joined = true;
+
+  const waitForBuffer = async () => {
+    while (socket && socket.readyState === WebSocket.OPEN && socket.bufferedAmount > RELAY_MAX_BUFFERED) {
+      await new Promise(resolve => setTimeout(resolve, 20));
+    }
+  };
+
+  return {
+    selfId,
+    supportsMedia: false,
+    makeAction: (name) => [
+      async (data, target, metadata) => {
+        const sealed = await seal(encodePayload(data, metadata));
+        await waitForBuffer();
+        if (!socket || socket.readyState !== WebSocket.OPEN) throw new Error('Relay connection lost');
+        const to = target ? (Array.isArray(target) ? target : [target]) : null;
+        socket.send(JSON.stringify({ type: 'send', to, action: name, data: sealed }));
+      },
+      (handler) => { receivers.set(name, handler); },
+    ],
+    onPeerJoin: (fn) => { joinHandlers.push(fn); },
+    onPeerLeave: (fn) => { leaveHandlers.push(fn); },
+    onPeerStream: () => {},
+    getPeers: () => Array.from(peers),
+    addStream: () => { throw new Error('Calls are not available over the relay transport'); },
+    removeStream: () => {},
+    leave: () => {
+      left = true;
+      socket?.close();
+      socket = null;
+    },
+  };
+};
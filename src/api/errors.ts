@@ -0,0 +1,180 @@
+// --- Errors from the Heidi backend ---
+//
+// Every failed api.* call rejects with an ApiError subclass, so callers can
+// branch on the kind of failure instead of matching message strings. The
+// message comes from the backend's JSON error body when there is one, and
+// the request id (from the X-Request-ID header or the body) is kept so users
+// can quote it when reporting a problem. A 2xx response whose body doesn't
+// match the OpenAPI schema is an error too (ResponseSchemaError).
+
+export type ApiErrorKind = 'network' | 'unauthorized' | 'forbidden' | 'not_found' | 'validation' | 'server' | 'timeout' | 'schema';
+
+export interface ApiErrorOptions {
+  status?: number;
+  requestId?: string;
+  code?: string;
+  cause?: unknown;
+}
+
+export class ApiError extends Error {
+  readonly kind: ApiErrorKind;
+  readonly status?: number;
+  readonly requestId?: string;
+  readonly code?: string;
+
+  constructor(kind: ApiErrorKind, message: string, options: ApiErrorOptions = {}) {
+    super(message);
+    this.name = new.target.name;
+    this.kind = kind;
+    this.status = options.status;
+    this.requestId = options.requestId;
+    this.code = options.code;
+    if (options.cause !== undefined) (this as any).cause = options.cause;
+  }
+}
+
+// The request never got a response: offline, DNS, CORS, connection refused
+export class NetworkError extends ApiError {
+  constructor(message = 'Could not reach the Heidi backend', options?: ApiErrorOptions) {
+    super('network', message, options);
+  }
+}
+
+export class TimeoutError extends ApiError {
+  constructor(message = 'The request timed out', options?: ApiErrorOptions) {
+    super('timeout', message, options);
+  }
+}
+
+export class UnauthorizedError extends ApiError {
+  constructor(message = 'Unauthorized', options?: ApiErrorOptions) {
+    super('unauthorized', message, options);
+  }
+}
+
+export class ForbiddenError extends ApiError {
+  constructor(message = 'You do not have access to this', options?: ApiErrorOptions) {
+    super('forbidden', message, options);
+  }
+}
+
+export class NotFoundError extends ApiError {
+  constructor(message = 'Not found', options?: ApiErrorOptions) {
+    super('not_found', message, options);
+  }
+}
+
+// 400/409/422; `fields` maps a request field to what is wrong with it
+export class ValidationError extends ApiError {
+  readonly fields: Record<string, string>;
+
+  constructor(message = 'The request was invalid', options: ApiErrorOptions & { fields?: Record<string, string> } = {}) {
+    super('validation', message, options);
+    this.fields = options.fields || {};
+  }
+}
+
+export class ServerError extends ApiError {
+  constructor(message = 'The Heidi backend failed to handle the request', options?: ApiErrorOptions) {
+    super('server', message, options);
+  }
+}
+
+// The response arrived but doesn't have the shape the OpenAPI schema
+// describes; `issues` lists each mismatch
+export class ResponseSchemaError extends ApiError {
+  readonly issues: string[];
+
+  constructor(operation: string, issues: string[], options?: ApiErrorOptions) {
+    const shown = issues.slice(0, 3).join('; ') + (issues.length > 3 ? ` (and ${issues.length - 3} more)` : '');
+    super('schema', `Unexpected response from ${operation}: ${shown}`, options);
+    this.issues = issues;
+  }
+}
+
+export const isApiError = (e: unknown): e is ApiError => e instanceof ApiError;
+
+interface ErrorBody {
+  message?: string;
+  code?: string;
+  requestId?: string;
+  fields: Record<string, string>;
+}
+
+// Understands { detail: "..." }, FastAPI's { detail: [{ loc, msg }] },
+// { error: "..." }, { error: { message, code } } and { message, code }
+const readErrorBody = (text: string): ErrorBody => {
+  const fields: Record<string, string> = {};
+  let data: any;
+  try {
+    data = JSON.parse(text);
+  } catch (e) {
+    // Plain text bodies are used as the message, HTML error pages are not
+    const plain = text.trim();
+    return { message: plain && !plain.startsWith('<') ? plain.slice(0, 300) : undefined, fields };
+  }
+  if (!data || typeof data !== 'object') return { fields };
+
+  const error = typeof data.error === 'object' && data.error ? data.error : null;
+  let message: string | undefined =
+    typeof data.detail === 'string' ? data.detail
+    : typeof data.error === 'string' ? data.error
+    : error?.message ?? data.message;
+
+  if (Array.isArray(data.detail)) {
+    data.detail.forEach((d: any) => {
+      if (!d || typeof d.msg !== 'string') return;
+      const loc = Array.isArray(d.loc) ? d.loc.filter((l: any) => l !== 'body').join('.') : '';
+      fields[loc || 'request'] = d.msg;
+    });
+    message = Object.entries(fields).map(([field, msg]) => `${field}: ${msg}`).join('; ') || undefined;
+  }
+
+  return {
+    message: typeof message === 'string' ? message : undefined,
+    code: error?.code ?? data.code,
+    requestId: data.request_id ?? error?.request_id,
+    fields,
+  };
+};
+
+// Builds the matching ApiError for a non-2xx response. `fallback` describes
+// what was being attempted and is used when the body has no message.
+export const parseApiError = async (res: Response, fallback: string): Promise<ApiError> => {
+  let text = '';
+  try {
+    text = await res.text();
+  } catch (e) {
+    // Body already consumed or connection dropped; the status still tells us enough
+  }
+  const body = readErrorBody(text);
+  const options = {
+    status: res.status,
+    requestId: res.headers.get('X-Request-ID') || body.requestId || undefined,
+    code: body.code,
+  };
+  const message = body.message || fallback;
+
+  switch (true) {
+    case res.status === 401: return new UnauthorizedError(body.message || 'Unauthorized', options);
+    case res.status === 403: return new ForbiddenError(message, options);
+    case res.status === 404: return new NotFoundError(message, options);
+    case res.status === 408 || res.status === 504: return new TimeoutError(message, options);
+    case res.status === 400 || res.status === 409 || res.status === 422: return new ValidationError(message, { ...options, fields: body.fields });
+    case res.status >= 500: return new ServerError(message, options);
+    default: return new ApiError('server', message, options);
+  }
+};
+
+// One-line explanation for the UI
+export const describeError = (e: unknown, fallback = 'Something went wrong'): string => {
+  if (isApiError(e)) {
+    switch (e.kind) {
+      case 'network': return `${e.message}. Check that it is running and the URL in Settings is correct.`;
+      case 'unauthorized': return 'Your session has expired or the API key was rejected.';
+      case 'schema': return `${e.message}. The backend may be running a different version than this app.`;
+      default: return e.message;
+    }
+  }
+  return e instanceof Error && e.message ? e.message : fallback;
+};
@@ -1,4 +1,5 @@
 import { GoogleGenAI } from "@google/genai";
+import type { ChatSettings } from './geminiModels';
 
 // Initialize the client with the API key from environment variables
 // Note: In a real production app, ensure this key is not exposed if not intended for public client-side usage.
@@ -30,15 +31,51 @@ declare global {
 
 const DB_NAME = 'GeminiStudioDB';
 const STORE_NAME = 'chats';
-const DB_VERSION = 1;
+const ATTACHMENT_STORE = 'attachments';
+const DB_VERSION = 2;
+
+// Fired on window after any chat is saved, renamed or deleted
+export const CHATS_CHANGE_EVENT = 'gemini:chats-change';
+
+// Attachments above this size are not persisted; the message keeps a placeholder
+export const MAX_STORED_ATTACHMENT_BYTES = 25 * 1024 * 1024;
+
+export type AttachmentKind = 'image' | 'video';
+
+export interface StoredMessage {
+  role: 'user' | 'model' | 'peer';
+  text: string;
+  senderId?: string;
+  senderName?: string;
+  roomMessageId?: string; // Envelope id when the message went through a collaboration room
+  mimeType?: string;
+  thoughts?: string; // Thinking summary shown with a model reply
+  stopped?: boolean;
+  settings?: ChatSettings; // Model configuration that produced this reply
+  runIds?: string[]; // Heidi runs the reply started or looked up
+  // Binary payloads live in the attachments store, keyed by id
+  attachment?: { id: string; kind: AttachmentKind };
+  attachmentOmitted?: AttachmentKind; // Too large to keep
+}
 
 export interface StoredChat {
   id: string;
   title: string;
-  messages: any[];
+  customTitle?: boolean; // Renamed by the user; never auto-retitled
+  messages: StoredMessage[];
+  // Running summary of messages that no longer fit the model context
+  contextSummary?: { coveredMessages: number; text: string };
+  settings?: ChatSettings; // Model and tools picked for this conversation
+  createdAt?: number;
   updatedAt: number;
 }
 
+export interface StoredAttachment {
+  id: string;
+  chatId: string;
+  blob: Blob;
+}
+
 const openDB = (): Promise<IDBDatabase> => {
   return new Promise((resolve, reject) => {
     const request = indexedDB.open(DB_NAME, DB_VERSION);
@@ -50,19 +87,52 @@ const openDB = (): Promise<IDBDatabase> => {
         const store = db.createObjectStore(STORE_NAME, { keyPath: 'id' });
         store.createIndex('updatedAt', 'updatedAt', { unique: false });
       }
+      if (!db.objectStoreNames.contains(ATTACHMENT_STORE)) {
+        const store = db.createObjectStore(ATTACHMENT_STORE, { keyPath: 'id' });
+        store.createIndex('chatId', 'chatId', { unique: false });
+      }
     };
   });
 };
 
+const notifyChatsChange = () => {
+  window.dispatchEvent(new CustomEvent(CHATS_CHANGE_EVENT));
+};
+
+export const createChatId = () =>
+  typeof crypto !== 'undefined' && 'randomUUID' in crypto
+    ? crypto.randomUUID()
+    : Math.random().toString(36).slice(2) + Date.now().toString(36);
+
+export const base64ToBlob = (base64: string, mimeType: string): Blob => {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return new Blob([bytes], { type: mimeType });
+};
+
+export const blobToBase64 = (blob: Blob): Promise<string> => {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onloadend = () => resolve((reader.result as string).split(',')[1] || '');
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+};
+
+// Decoded size of a base64 payload
+export const base64Size = (base64: string) => Math.floor(base64.length * 3 / 4);
+
 export const db = {
   saveChat: async (chat: StoredChat) => {
     const db = await openDB();
-    return new Promise<void>((resolve, reject) => {
+    await new Promise<void>((resolve, reject) => {
       const tx = db.transaction(STORE_NAME, 'readwrite');
       tx.objectStore(STORE_NAME).put(chat);
       tx.oncomplete = () => resolve();
       tx.onerror = () => reject(tx.error);
     });
+    notifyChatsChange();
   },
   getChat: async (id: string): Promise<StoredChat | undefined> => {
     const db = await openDB();
@@ -94,13 +164,48 @@ export const db = {
       req.onerror = () => reject(req.error);
     });
   },
+  renameChat: async (id: string, title: string, custom = true) => {
+    const chat = await db.getChat(id);
+    if (!chat) return;
+    // Auto titles never replace one the user picked
+    if (!custom && chat.customTitle) return;
+    await db.saveChat({ ...chat, title, customTitle: custom || chat.customTitle });
+  },
   deleteChat: async (id: string) => {
       const db = await openDB();
-      return new Promise<void>((resolve, reject) => {
-          const tx = db.transaction(STORE_NAME, 'readwrite');
+      await new Promise<void>((resolve, reject) => {
+          const tx = db.transaction([STORE_NAME, ATTACHMENT_STORE], 'readwrite');
           tx.objectStore(STORE_NAME).delete(id);
+          const attachments = tx.objectStore(ATTACHMENT_STORE).index('chatId');
+          const req = attachments.openKeyCursor(IDBKeyRange.only(id));
+          req.onsuccess = () => {
+              const cursor = req.result;
+              if (cursor) {
+                  tx.objectStore(ATTACHMENT_STORE).delete(cursor.primaryKey);
+                  cursor.continue();
+              }
+          };
           tx.oncomplete = () => resolve();
           tx.onerror = () => reject(tx.error);
       });
-  }
-};
\ No newline at end of file
+      notifyChatsChange();
+  },
+  saveAttachment: async (attachment: StoredAttachment) => {
+    const db = await openDB();
+    return new Promise<void>((resolve, reject) => {
+      const tx = db.transaction(ATTACHMENT_STORE, 'readwrite');
+      tx.objectStore(ATTACHMENT_STORE).put(attachment);
+      tx.oncomplete = () => resolve();
+      tx.onerror = () => reject(tx.error);
+    });
+  },
+  getAttachment: async (id: string): Promise<StoredAttachment | undefined> => {
+    const db = await openDB();
+    return new Promise((resolve, reject) => {
+      const tx = db.transaction(ATTACHMENT_STORE, 'readonly');
+      const req = tx.objectStore(ATTACHMENT_STORE).get(id);
+      req.onsuccess = () => resolve(req.result);
+      req.onerror = () => reject(req.error);
+    });
+  },
+};
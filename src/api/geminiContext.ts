@@ -0,0 +1,169 @@
+import { Part } from '@google/genai';
+import { ai, base64Size } from './gemini';
+
+// --- Multi-turn context for Gemini Studio chat ---
+//
+// Every request carries the conversation so far. Older turns are dropped
+// once the estimated size passes the budget; what was dropped is folded
+// into a running summary that rides along as the system instruction.
+
+export const DEFAULT_CONTEXT_BUDGET = 32_000; // tokens
+
+const CHARS_PER_TOKEN = 4;
+const IMAGE_TOKENS = 258;
+const VIDEO_TOKENS_PER_MB = 3_000;
+// Only the most recent media attachments are resent; older ones become a placeholder
+const MEDIA_MESSAGES_KEPT = 2;
+// Summaries cut deeper than strictly needed so the next few turns fit without another pass
+const SUMMARY_HEADROOM = 0.75;
+const SUMMARY_MODEL = 'gemini-2.5-flash-lite';
+
+export interface ContextMessage {
+  role: 'user' | 'model' | 'peer';
+  text: string;
+  image?: string;
+  video?: string;
+  mimeType?: string;
+  senderId?: string;
+}
+
+export interface ContextSummary {
+  coveredMessages: number; // Messages before this index are folded into the summary
+  text: string;
+}
+
+export interface ContextPlan {
+  firstIncluded: number; // Index of the oldest message sent verbatim
+  mediaStripped: Set<number>;
+  usedTokens: number;
+  budget: number;
+  droppedMessages: number; // Conversation messages not sent verbatim
+}
+
+export const estimateTokens = (text: string) => Math.ceil(text.length / CHARS_PER_TOKEN);
+
+const mediaTokens = (m: ContextMessage) => {
+  if (m.image) return IMAGE_TOKENS;
+  if (m.video) return Math.ceil((base64Size(m.video) / (1024 * 1024)) * VIDEO_TOKENS_PER_MB);
+  return 0;
+};
+
+// Failed requests and echoed peer AI replies are display-only
+const isConversational = (m: ContextMessage) =>
+  !(m.role === 'model' && m.text.startsWith('Error: ')) &&
+  !(m.role === 'peer' && m.text.startsWith('[AI Response]')) &&
+  !!(m.text.trim() || m.image || m.video);
+
+const textOf = (m: ContextMessage) =>
+  m.role === 'peer' ? `[Peer ${m.senderId?.slice(0, 4) || ''}]: ${m.text}` : m.text;
+
+const mediaPlaceholder = (m: ContextMessage) => `[earlier ${m.image ? 'image' : 'video'} omitted]`;
+
+// Picks the newest messages that fit the budget. The latest message is always kept.
+export const planContext = (messages: ContextMessage[], budget: number, summary?: ContextSummary | null): ContextPlan => {
+  const mediaStripped = new Set<number>();
+  let used = summary ? estimateTokens(summary.text) : 0;
+  let firstIncluded = messages.length;
+  let mediaKept = 0;
+
+  for (let i = messages.length - 1; i >= 0; i--) {
+    const m = messages[i];
+    if (!isConversational(m)) continue;
+
+    let cost = estimateTokens(textOf(m));
+    const hasMedia = !!(m.image || m.video);
+    const keepMedia = hasMedia && mediaKept < MEDIA_MESSAGES_KEPT;
+    if (hasMedia) cost += keepMedia ? mediaTokens(m) : estimateTokens(mediaPlaceholder(m));
+
+    if (used + cost > budget && firstIncluded < messages.length) break;
+    used += cost;
+    firstIncluded = i;
+    if (keepMedia) mediaKept++;
+    else if (hasMedia) mediaStripped.add(i);
+  }
+
+  // A window must open on a user turn
+  while (firstIncluded < messages.length - 1 && (messages[firstIncluded].role === 'model' || !isConversational(messages[firstIncluded]))) {
+    const m = messages[firstIncluded];
+    if (isConversational(m)) used -= estimateTokens(textOf(m));
+    firstIncluded++;
+  }
+
+  // Nothing dropped means the summary is not sent
+  if (firstIncluded === 0 && summary) used -= estimateTokens(summary.text);
+
+  const droppedMessages = messages.slice(0, firstIncluded).filter(isConversational).length;
+  return { firstIncluded, mediaStripped, usedTokens: used, budget, droppedMessages };
+};
+
+// Request contents for the planned window; consecutive same-role turns are merged
+export const toContents = (messages: ContextMessage[], plan: ContextPlan) => {
+  const contents: { role: 'user' | 'model'; parts: Part[] }[] = [];
+  messages.forEach((m, i) => {
+    if (i < plan.firstIncluded || !isConversational(m)) return;
+    const role = m.role === 'model' ? 'model' : 'user';
+    const parts: Part[] = [];
+    if (m.image || m.video) {
+      if (plan.mediaStripped.has(i)) {
+        parts.push({ text: mediaPlaceholder(m) });
+      } else {
+        const fallbackType = m.image ? 'image/jpeg' : 'video/mp4';
+        parts.push({ inlineData: { data: (m.image || m.video)!, mimeType: m.mimeType || fallbackType } });
+      }
+    }
+    if (m.text.trim()) parts.push({ text: textOf(m) });
+
+    const last = contents[contents.length - 1];
+    if (last && last.role === role) last.parts.push(...parts);
+    else contents.push({ role, parts });
+  });
+  return contents;
+};
+
+const summarize = async (previous: string | undefined, messages: ContextMessage[]): Promise<string> => {
+  const transcript = messages
+    .map(m => `${m.role === 'model' ? 'Assistant' : 'User'}: ${textOf(m)}${m.image ? ' [image]' : m.video ? ' [video]' : ''}`)
+    .join('\n\n');
+  const response = await ai.models.generateContent({
+    model: SUMMARY_MODEL,
+    contents: [
+      'Condense this conversation into a factual summary of at most 250 words.',
+      'Keep names, numbers, decisions, open questions and anything the user asked to remember.',
+      previous ? `\nSummary so far:\n${previous}` : '',
+      `\nNew messages:\n${transcript}`,
+    ].join('\n'),
+  });
+  return (response.text || '').trim();
+};
+
+// Plans the request, refreshing the summary when messages fall out of the window.
+// If summarizing fails the request still goes out, just without the older turns.
+export const buildRequestContext = async (
+  messages: ContextMessage[],
+  summary: ContextSummary | null,
+  budget = DEFAULT_CONTEXT_BUDGET,
+) => {
+  let plan = planContext(messages, budget, summary);
+  const covered = summary?.coveredMessages ?? 0;
+
+  if (plan.firstIncluded > covered) {
+    const target = Math.max(planContext(messages, Math.floor(budget * SUMMARY_HEADROOM), summary).firstIncluded, plan.firstIncluded);
+    try {
+      const text = await summarize(summary?.text, messages.slice(covered, target).filter(isConversational));
+      if (text) {
+        summary = { coveredMessages: target, text };
+        plan = planContext(messages, budget, summary);
+      }
+    } catch (e) {
+      console.warn("Could not summarize earlier messages", e);
+    }
+  }
+
+  const useSummary = !!summary && plan.firstIncluded > 0;
+  return {
+    contents: toContents(messages, plan),
+    systemInstruction: useSummary ? `Summary of the earlier part of this conversation:\n${summary!.text}` : undefined,
+    summary,
+    plan,
+  };
+};
@@ -0,0 +1,99 @@
+import { GenerateContentConfig, Tool } from '@google/genai';
+import { HEIDI_FUNCTION_DECLARATIONS } from './geminiTools';
+
+// --- Model and tool selection for Gemini Studio chat ---
+//
+// The model, tools and thinking budget are picked independently
+// and combined into one request config. The same settings object is stored
+// with the conversation and on every reply it produced.
+
+export type GeminiTool = 'search' | 'maps' | 'codeExecution' | 'heidi';
+
+export interface GeminiModelInfo {
+  id: string;
+  label: string;
+  maxThinkingBudget: number;
+  canDisableThinking: boolean; // Pro models always think
+  tools: GeminiTool[];
+}
+
+export const GEMINI_MODELS: GeminiModelInfo[] = [
+  { id: 'gemini-3-pro-preview', label: 'Gemini 3 Pro', maxThinkingBudget: 32768, canDisableThinking: false, tools: ['search', 'codeExecution', 'heidi'] },
+  { id: 'gemini-3-flash-preview', label: 'Gemini 3 Flash', maxThinkingBudget: 24576, canDisableThinking: true, tools: ['search', 'codeExecution', 'heidi'] },
+  { id: 'gemini-2.5-flash', label: 'Gemini 2.5 Flash', maxThinkingBudget: 24576, canDisableThinking: true, tools: ['search', 'maps', 'codeExecution', 'heidi'] },
+  { id: 'gemini-2.5-flash-lite', label: 'Gemini 2.5 Flash Lite', maxThinkingBudget: 24576, canDisableThinking: true, tools: ['search', 'maps', 'codeExecution', 'heidi'] },
+];
+
+export const TOOL_LABELS: Record<GeminiTool, string> = {
+  search: 'Search',
+  maps: 'Maps',
+  codeExecution: 'Code',
+  heidi: 'Heidi',
+};
+
+// -1 lets the model decide how long to think; 0 turns thinking off
+export const DYNAMIC_THINKING = -1;
+export const THINKING_BUDGETS = [0, DYNAMIC_THINKING, 1024, 8192, 24576, 32768];
+
+export interface ChatSettings {
+  model: string;
+  tools: GeminiTool[];
+  thinkingBudget: number;
+}
+
+export const DEFAULT_CHAT_SETTINGS: ChatSettings = {
+  model: 'gemini-3-pro-preview',
+  tools: [],
+  thinkingBudget: DYNAMIC_THINKING,
+};
+
+export const getModelInfo = (id: string): GeminiModelInfo =>
+  GEMINI_MODELS.find(m => m.id === id) || { id, label: id, maxThinkingBudget: 32768, canDisableThinking: true, tools: [] };
+
+// Budgets the given model accepts
+export const thinkingBudgetsFor = (model: string) => {
+  const info = getModelInfo(model);
+  return THINKING_BUDGETS.filter(b => b <= info.maxThinkingBudget && (b !== 0 || info.canDisableThinking));
+};
+
+// Drops tools and budgets the selected model does not support
+export const normalizeSettings = (settings: Partial<ChatSettings> | undefined): ChatSettings => {
+  const merged = { ...DEFAULT_CHAT_SETTINGS, ...settings };
+  const info = getModelInfo(merged.model);
+  const budgets = thinkingBudgetsFor(merged.model);
+  return {
+    model: merged.model,
+    tools: (merged.tools || []).filter(t => info.tools.includes(t)),
+    thinkingBudget: budgets.includes(merged.thinkingBudget) ? merged.thinkingBudget : DYNAMIC_THINKING,
+  };
+};
+
+export const isThinkingEnabled = (settings: ChatSettings) => settings.thinkingBudget !== 0;
+
+export const buildGenerateConfig = (settings: ChatSettings): GenerateContentConfig => {
+  const config: GenerateContentConfig = {};
+  const tools: Tool[] = [];
+  if (settings.tools.includes('search')) tools.push({ googleSearch: {} });
+  if (settings.tools.includes('maps')) tools.push({ googleMaps: {} });
+  if (settings.tools.includes('codeExecution')) tools.push({ codeExecution: {} });
+  if (settings.tools.includes('heidi')) tools.push({ functionDeclarations: HEIDI_FUNCTION_DECLARATIONS });
+  if (tools.length > 0) config.tools = tools;
+  config.thinkingConfig = isThinkingEnabled(settings)
+    ? { thinkingBudget: settings.thinkingBudget, includeThoughts: true }
+    : { thinkingBudget: 0 };
+  return config;
+};
+
+export const formatThinkingBudget = (budget: number) => {
+  if (budget === 0) return 'Off';
+  if (budget === DYNAMIC_THINKING) return 'Auto';
+  return budget >= 1024 ? `${Math.round(budget / 1024)}k` : String(budget);
+};
+
+// e.g. "Gemini 2.5 Flash · Search + Code · Thinking 8k"
+export const describeSettings = (settings: ChatSettings) => {
+  const parts = [getModelInfo(settings.model).label];
+  if (settings.tools.length > 0) parts.push(settings.tools.map(t => TOOL_LABELS[t]).join(' + '));
+  if (isThinkingEnabled(settings)) parts.push(`Thinking ${formatThinkingBudget(settings.thinkingBudget)}`);
+  return parts.join(' · ');
+};
@@ -0,0 +1,169 @@
+import { FunctionDeclaration, Type } from '@google/genai';
+import { api } from './heidi';
+
+// --- Heidi functions exposed to Gemini Studio chat ---
+//
+// When the Heidi tool is enabled the model may call these declarations;
+// each call is executed against the active Heidi profile and its result
+// is sent back as a function response before the model continues.
+//
+// The model picks every argument, and room messages from peers reach its
+// context, so calls that start or cancel runs need the user's approval.
+
+export type HeidiFunctionName = 'startRun' | 'startLoop' | 'getRun' | 'getRuns' | 'cancelRun';
+
+// The only calls that run without asking
+const READ_ONLY_FUNCTIONS: string[] = ['getRun', 'getRuns'];
+
+export const needsConfirmation = (name: string) => !READ_ONLY_FUNCTIONS.includes(name);
+
+export interface HeidiCall {
+  name: string;
+  args: Record<string, any>;
+}
+
+export interface HeidiCallOptions {
+  signal?: AbortSignal;
+  // Asked before any call that changes something; resolves true to go ahead
+  confirm: (call: HeidiCall) => Promise<boolean>;
+}
+
+// Rounds of call -> response before the reply is cut off with a notice
+export const MAX_FUNCTION_ROUNDS = 5;
+
+// Long results are truncated so a single run can't flood the context
+const MAX_RESULT_CHARS = 4_000;
+
+const executorParam = { type: Type.STRING, description: "Executor to use, e.g. 'copilot'. Defaults to 'copilot'." };
+const runIdParam = { type: Type.STRING, description: 'The Heidi run id.' };
+const commonRunParams = {
+  executor: executorParam,
+  workdir: { type: Type.STRING, description: 'Working directory on the Heidi host. Optional.' },
+  persona: { type: Type.STRING, description: 'Persona name. Optional.' },
+  dry_run: { type: Type.BOOLEAN, description: 'Plan without making changes.' },
+};
+
+export const HEIDI_FUNCTION_DECLARATIONS: FunctionDeclaration[] = [
+  {
+    name: 'startRun',
+    description: 'Start a single Heidi run that executes a prompt once.',
+    parameters: {
+      type: Type.OBJECT,
+      properties: { prompt: { type: Type.STRING, description: 'What the agent should do.' }, ...commonRunParams },
+      required: ['prompt'],
+    },
+  },
+  {
+    name: 'startLoop',
+    description: 'Start a Heidi loop that plans, executes, reviews and audits a task, retrying until it passes.',
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        task: { type: Type.STRING, description: 'The task to complete.' },
+        max_retries: { type: Type.INTEGER, description: 'Retries before giving up. Defaults to 2.' },
+        ...commonRunParams,
+      },
+      required: ['task'],
+    },
+  },
+  {
+    name: 'getRun',
+    description: 'Get the status, result and recent events of a Heidi run.',
+    parameters: { type: Type.OBJECT, properties: { run_id: runIdParam }, required: ['run_id'] },
+  },
+  {
+    name: 'getRuns',
+    description: 'List the most recent Heidi runs.',
+    parameters: {
+      type: Type.OBJECT,
+      properties: { limit: { type: Type.INTEGER, description: 'How many runs to return (max 50). Defaults to 10.' } },
+    },
+  },
+  {
+    name: 'cancelRun',
+    description: 'Cancel a Heidi run that is still in progress.',
+    parameters: { type: Type.OBJECT, properties: { run_id: runIdParam }, required: ['run_id'] },
+  },
+];
+
+export interface HeidiCallResult {
+  response: Record<string, any>;
+  runId?: string; // Run started or touched by the call, shown inline in chat
+}
+
+const truncate = (text: string | undefined) =>
+  text && text.length > MAX_RESULT_CHARS ? `${text.slice(0, MAX_RESULT_CHARS)}… [truncated]` : text;
+
+const abortError = () => new DOMException('Aborted', 'AbortError');
+
+// Runs one function call. Failures and declined calls become an error
+// response so the model can explain them; a stop rejects with AbortError.
+// Reads are cancelled by the signal, but a confirmed start or cancel is left
+// to finish so its run is never lost.
+export const executeHeidiFunction = async (name: string, args: Record<string, any> = {}, { signal, confirm }: HeidiCallOptions): Promise<HeidiCallResult> => {
+  if (signal?.aborted) throw abortError();
+  if (needsConfirmation(name)) {
+    const approved = await confirm({ name, args });
+    if (signal?.aborted) throw abortError();
+    if (!approved) return { response: { error: 'The user declined this call.' } };
+  }
+  try {
+    switch (name as HeidiFunctionName) {
+      case 'startRun': {
+        const res = await api.startRun({
+          prompt: String(args.prompt || ''),
+          executor: args.executor || 'copilot',
+          workdir: args.workdir,
+          persona: args.persona,
+          dry_run: args.dry_run,
+        });
+        return { response: { run_id: res.run_id, status: res.status }, runId: res.run_id };
+      }
+      case 'startLoop': {
+        const res = await api.startLoop({
+          task: String(args.task || ''),
+          executor: args.executor || 'copilot',
+          max_retries: args.max_retries ?? 2,
+          workdir: args.workdir,
+          persona: args.persona,
+          dry_run: args.dry_run,
+        });
+        return { response: { run_id: res.run_id, status: res.status }, runId: res.run_id };
+      }
+      case 'getRun': {
+        const run = await api.getRun(String(args.run_id), { signal });
+        return {
+          response: {
+            run_id: run.run_id,
+            status: run.meta.status,
+            task: run.meta.task || run.meta.prompt,
+            executor: run.meta.executor,
+            result: truncate(run.result),
+            error: run.error,
+            usage: run.usage,
+            recent_events: run.events.slice(-10).map(e => ({ type: e.type, message: truncate(e.message) })),
+          },
+          runId: run.run_id,
+        };
+      }
+      case 'getRuns': {
+        const limit = Math.min(Math.max(Number(args.limit) || 10, 1), 50);
+        const runs = await api.getRuns(limit, { signal });
+        return {
+          response: {
+            runs: runs.map(r => ({ run_id: r.run_id, status: r.status, task: r.task || r.prompt, executor: r.executor, created_at: r.created_at })),
+          },
+        };
+      }
+      case 'cancelRun': {
+        await api.cancelRun(String(args.run_id));
+        return { response: { run_id: args.run_id, cancelled: true }, runId: String(args.run_id) };
+      }
+      default:
+        return { response: { error: `Unknown function: ${name}` } };
+    }
+  } catch (e: any) {
+    if (signal?.aborted) throw abortError();
+    return { response: { error: e.message || String(e) } };
+  }
+};
@@ -0,0 +1,49 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { api } from './heidi';
+import { RunPage, RunSummary } from '../types';
+
+const run = (id: string, status = 'completed'): RunSummary => ({ run_id: id, status });
+
+// Serves `pages` in order, filtering each one the way getRunsPage does
+const servePages = (pages: { runs: RunSummary[]; has_more: boolean }[], status?: string) =>
+  vi.spyOn(api, 'getRunsPage').mockImplementation(async (): Promise<RunPage> => {
+    const page = pages.shift() || { runs: [], has_more: false };
+    return {
+      runs: page.runs.filter(r => !status || r.status === status),
+      has_more: page.has_more,
+      fetched_ids: page.runs.map(r => r.run_id),
+    };
+  });
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('api.collectRuns', () => {
+  it('walks past pages that filtering left empty', async () => {
+    const getRunsPage = servePages([
+      { runs: [run('a', 'failed'), run('b', 'failed')], has_more: true },
+      { runs: [run('c')], has_more: false },
+    ], 'completed');
+    expect((await api.collectRuns({ status: 'completed' })).map(r => r.run_id)).toEqual(['c']);
+    expect(getRunsPage).toHaveBeenCalledTimes(2);
+  });
+
+  it('stops when the backend sends an empty page', async () => {
+    const getRunsPage = servePages([{ runs: [run('a')], has_more: true }, { runs: [], has_more: true }]);
+    expect((await api.collectRuns()).map(r => r.run_id)).toEqual(['a']);
+    expect(getRunsPage).toHaveBeenCalledTimes(2);
+  });
+
+  it('stops when the backend ignores paging and repeats a page', async () => {
+    const page = { runs: [run('a'), run('b')], has_more: true };
+    const getRunsPage = servePages([page, page, page]);
+    expect((await api.collectRuns()).map(r => r.run_id)).toEqual(['a', 'b']);
+    expect(getRunsPage).toHaveBeenCalledTimes(2);
+  });
+
+  it('stops at maxRuns', async () => {
+    servePages([{ runs: [run('a'), run('b')], has_more: true }, { runs: [run('c'), run('d')], has_more: true }]);
+    expect((await api.collectRuns({}, 3)).map(r => r.run_id)).toEqual(['a', 'b', 'c']);
+  });
+});
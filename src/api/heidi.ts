@@ -1,18 +1,75 @@
-import { Agent, LoopRequest, RunDetails, RunRequest, RunResponse, RunSummary, SettingsState, AuthProvider, AuthStatus, IntegrationStatus, OpenAIConnectionStatus, OpenAIConnectionTestResult } from '../types';
+import { Agent, LoopRequest, RunDetails, RunRequest, RunResponse, RunSummary, RunQuery, RunPage, SettingsState, ConnectionProfile, AuthProvider, AuthStatus, IntegrationStatus, OpenAIConnectionStatus, OpenAIConnectionTestResult } from '../types';
+import { openRunStream, RunStreamHandlers, SSEConnection } from './sse';
+import { LoginChallenge } from './pkce';
+import { expireSession } from './session';
+import { NetworkError, ResponseSchemaError, TimeoutError, UnauthorizedError, isApiError, parseApiError } from './errors';
+import { ApiRequest, readResponse, requestPath } from './openapi';
+import { createClient, requests, schemas } from './heidiSchema';
 
 // Use relative path by default to leverage Vite proxy
 const DEFAULT_BASE_URL = '/api';
 
-export const getSettings = (): SettingsState => {
-  return {
+const PROFILES_KEY = 'HEIDI_PROFILES';
+const ACTIVE_PROFILE_KEY = 'HEIDI_ACTIVE_PROFILE';
+
+// Fired on window whenever the profile list or the active profile changes
+export const PROFILE_CHANGE_EVENT = 'heidi:profile-change';
+
+export const PROFILE_COLORS = ['#6366f1', '#10b981', '#f59e0b', '#f43f5e', '#0ea5e9', '#a855f7'];
+
+export const createProfileId = () =>
+  Math.random().toString(36).slice(2, 10) + Date.now().toString(36);
+
+export const getProfiles = (): ConnectionProfile[] => {
+  try {
+    const raw = localStorage.getItem(PROFILES_KEY);
+    const parsed = raw ? JSON.parse(raw) : null;
+    if (Array.isArray(parsed) && parsed.length > 0) return parsed;
+  } catch (e) {
+    console.warn("Could not parse connection profiles", e);
+  }
+  // Migrate the legacy single-connection settings into a default profile
+  return [{
+    id: 'default',
+    label: 'Local',
     baseUrl: localStorage.getItem('HEIDI_BASE_URL') || DEFAULT_BASE_URL,
     apiKey: localStorage.getItem('HEIDI_API_KEY') || '',
-  };
+    color: PROFILE_COLORS[0],
+  }];
+};
+
+const notifyProfileChange = () => {
+  window.dispatchEvent(new CustomEvent(PROFILE_CHANGE_EVENT));
+};
+
+export const saveProfiles = (profiles: ConnectionProfile[]) => {
+  localStorage.setItem(PROFILES_KEY, JSON.stringify(profiles));
+  notifyProfileChange();
+};
+
+export const getActiveProfile = (): ConnectionProfile => {
+  const profiles = getProfiles();
+  const activeId = localStorage.getItem(ACTIVE_PROFILE_KEY);
+  return profiles.find(p => p.id === activeId) || profiles[0];
 };
 
+export const setActiveProfile = (profileId: string) => {
+  localStorage.setItem(ACTIVE_PROFILE_KEY, profileId);
+  notifyProfileChange();
+};
+
+export const getSettings = (): SettingsState => {
+  const { baseUrl, apiKey } = getActiveProfile();
+  return { baseUrl: baseUrl || DEFAULT_BASE_URL, apiKey };
+};
+
+// Updates the connection details of the active profile
 export const saveSettings = (settings: SettingsState) => {
-  localStorage.setItem('HEIDI_BASE_URL', settings.baseUrl);
-  localStorage.setItem('HEIDI_API_KEY', settings.apiKey);
+  const active = getActiveProfile();
+  const profiles = getProfiles();
+  const exists = profiles.some(p => p.id === active.id);
+  const updated = { ...active, baseUrl: settings.baseUrl, apiKey: settings.apiKey };
+  saveProfiles(exists ? profiles.map(p => p.id === active.id ? updated : p) : [...profiles, updated]);
 };
 
 const getHeaders = (customApiKey?: string) => {
@@ -36,205 +93,402 @@ const getBaseUrl = (customUrl?: string) => {
   return url.replace(/\/$/, '');
 };
 
-// Helper for requests with auth
-const safeFetch = async (url: string, options: RequestInit = {}) => {
-  const res = await fetch(url, {
-    ...options,
-    credentials: 'include', // Ensure cookies are sent (CRITICAL for Auth)
-  });
+export const matchesRunQuery = (run: RunSummary, query: RunQuery): boolean => {
+  if (query.q) {
+    const needle = query.q.toLowerCase();
+    const haystack = `${run.task || ''} ${run.prompt || ''} ${run.run_id}`.toLowerCase();
+    if (!haystack.includes(needle)) return false;
+  }
+  if (query.status && (run.status || '').toLowerCase() !== query.status.toLowerCase()) return false;
+  if (query.executor && run.executor !== query.executor) return false;
+  if ((query.from || query.to) && run.created_at) {
+    const day = run.created_at.slice(0, 10);
+    if (query.from && day < query.from) return false;
+    if (query.to && day > query.to) return false;
+  }
+  const cost = run.usage?.cost_usd ?? 0;
+  if (query.min_cost !== undefined && cost < query.min_cost) return false;
+  if (query.max_cost !== undefined && cost > query.max_cost) return false;
+  return true;
+};
+
+// Per-call knobs accepted by every api.* method
+export interface RequestOptions {
+  signal?: AbortSignal;
+  // Applies to each attempt; a retry gets a fresh timeout
+  timeoutMs?: number;
+  // Extra attempts after a network error, timeout or 502/503/504. Defaults to
+  // DEFAULT_RETRIES for idempotent methods and 0 for everything else.
+  retries?: number;
+}
+
+interface FetchOptions extends RequestOptions {
+  intercept?: boolean;
+}
+
+export const DEFAULT_TIMEOUT_MS = 15_000;
+// Status checks should fail fast rather than leave "Checking..." spinning
+const HEALTH_TIMEOUT_MS = 5_000;
+const DEFAULT_RETRIES = 2;
+const RETRY_BASE_DELAY_MS = 300;
+const RETRY_MAX_DELAY_MS = 4_000;
+const IDEMPOTENT_METHODS = ['GET', 'HEAD', 'OPTIONS', 'PUT', 'DELETE'];
+const RETRYABLE_STATUSES = [502, 503, 504];
+
+const abortError = () => new DOMException('The request was aborted', 'AbortError');
+
+// "Full jitter": anywhere between zero and the exponential cap, so clients
+// that failed together don't retry together
+const retryDelay = (attempt: number) =>
+  Math.random() * Math.min(RETRY_MAX_DELAY_MS, RETRY_BASE_DELAY_MS * 2 ** attempt);
+
+const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  if (signal?.aborted) return reject(abortError());
+  const onAbort = () => {
+    clearTimeout(timer);
+    reject(abortError());
+  };
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+// Statuses whose Response cannot be constructed with a body
+const NULL_BODY_STATUSES = [204, 205, 304];
+
+// A single attempt. The body is read inside the timed section, so a backend
+// that sends headers and then stalls still times out and can still be
+// aborted. Rejects with TimeoutError when the full response doesn't arrive
+// in time, NetworkError when there is no response at all, and the caller's
+// AbortError when they cancel.
+const fetchOnce = async (url: string, init: RequestInit, signal: AbortSignal | undefined, timeoutMs: number): Promise<Response> => {
+  if (signal?.aborted) throw abortError();
+  const controller = new AbortController();
+  let timedOut = false;
+  const timer = setTimeout(() => {
+    timedOut = true;
+    controller.abort();
+  }, timeoutMs);
+  const onAbort = () => controller.abort();
+  signal?.addEventListener('abort', onAbort, { once: true });
+  try {
+    const res = await fetch(url, {
+      ...init,
+      signal: controller.signal,
+      credentials: 'include', // Ensure cookies are sent (CRITICAL for Auth)
+    });
+    const body = NULL_BODY_STATUSES.includes(res.status) ? null : await res.arrayBuffer();
+    return new Response(body, { status: res.status, statusText: res.statusText, headers: res.headers });
+  } catch (e: any) {
+    if (timedOut) throw new TimeoutError(`No response from the Heidi backend within ${Math.round(timeoutMs / 1000)}s`, { cause: e });
+    if (e?.name === 'AbortError') throw e;
+    throw new NetworkError(undefined, { cause: e });
+  } finally {
+    clearTimeout(timer);
+    signal?.removeEventListener('abort', onAbort);
+  }
+};
+
+const fetchWithRetry = async (url: string, init: RequestInit, { signal, timeoutMs = DEFAULT_TIMEOUT_MS, retries }: RequestOptions) => {
+  const idempotent = IDEMPOTENT_METHODS.includes((init.method || 'GET').toUpperCase());
+  const maxRetries = retries ?? (idempotent ? DEFAULT_RETRIES : 0);
+  for (let attempt = 0; ; attempt++) {
+    try {
+      const res = await fetchOnce(url, init, signal, timeoutMs);
+      if (attempt >= maxRetries || !RETRYABLE_STATUSES.includes(res.status)) return res;
+    } catch (e) {
+      if (attempt >= maxRetries || !(e instanceof NetworkError || e instanceof TimeoutError)) throw e;
+    }
+    await sleep(retryDelay(attempt), signal);
+  }
+};
+
+// One refresh at a time; every request that hits a 401 meanwhile waits for it
+let refreshing: Promise<boolean> | null = null;
+
+const refreshSession = (): Promise<boolean> => {
+  if (!refreshing) {
+    refreshing = fetchOnce(`${getBaseUrl()}${requestPath(requests.refreshSession())}`, { method: 'POST', headers: getHeaders() }, undefined, DEFAULT_TIMEOUT_MS)
+      .then(res => res.ok, () => false)
+      .finally(() => { refreshing = null; });
+  }
+  return refreshing;
+};
+
+// Helper for requests with auth. A 401 outside /auth/ means the session
+// expired: refresh it and retry once, or report the expiry and hand the 401
+// back so the caller's usual handling still applies.
+const safeFetch = async (url: string, init: RequestInit = {}, { intercept = true, ...request }: FetchOptions = {}) => {
+  const send = () => fetchWithRetry(url, init, request);
+  if (!intercept || url.includes('/auth/')) return send();
+
+  if (refreshing) await refreshing;
+  const res = await send();
+  if (res.status !== 401) return res;
+  if (await refreshSession()) return send();
+  expireSession();
   return res;
 };
 
+interface InFlight {
+  promise: Promise<unknown>;
+  controller: AbortController;
+  waiters: number;
+}
+
+const inFlight = new Map<string, InFlight>();
+
+// The same URL under another API key is a different read
+const readKey = (url: string) => `${getSettings().apiKey}|${url}`;
+
+// Identical reads made while one is already running share its result. The
+// shared request is only aborted once every caller waiting on it has aborted.
+const shared = <T>(key: string, run: (signal: AbortSignal) => Promise<T>, signal?: AbortSignal): Promise<T> => {
+  if (signal?.aborted) return Promise.reject(abortError());
+  let entry = inFlight.get(key);
+  if (!entry) {
+    const controller = new AbortController();
+    const created: InFlight = { promise: run(controller.signal), controller, waiters: 0 };
+    created.promise.catch(() => {}).finally(() => {
+      if (inFlight.get(key) === created) inFlight.delete(key);
+    });
+    inFlight.set(key, created);
+    entry = created;
+  }
+  const current = entry;
+  current.waiters++;
+  if (!signal) return current.promise as Promise<T>;
+
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => {
+      reject(abortError());
+      if (--current.waiters > 0) return;
+      current.controller.abort();
+      if (inFlight.get(key) === current) inFlight.delete(key);
+    };
+    signal.addEventListener('abort', onAbort, { once: true });
+    (current.promise as Promise<T>).then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+  });
+};
+
+// Parses and validates a 2xx body; mismatches are also logged with every issue
+const readValidated = async <T>(request: ApiRequest, res: Response): Promise<T> => {
+  try {
+    return await readResponse<T>(request, res, schemas);
+  } catch (e) {
+    if (e instanceof ResponseSchemaError) console.error(e.message, e.issues);
+    throw e;
+  }
+};
+
+// Transport for the generated client: the active profile's backend, with
+// auth, timeouts and retries from safeFetch
+const send = <T>(request: ApiRequest, options: RequestOptions = {}): Promise<T> => {
+  const url = `${getBaseUrl()}${requestPath(request)}`;
+  const run = async (signal?: AbortSignal) => {
+    const res = await safeFetch(url, {
+      method: request.method,
+      headers: getHeaders(),
+      ...(request.body !== undefined ? { body: JSON.stringify(request.body) } : {}),
+    }, { ...options, signal });
+    if (!res.ok) throw await parseApiError(res, request.failure);
+    return readValidated<T>(request, res);
+  };
+  // Run cards, Compare, Analytics and the budget banner often read the same
+  // run or page at the same time
+  return request.method === 'GET' ? shared(readKey(url), run, options.signal) : run(options.signal);
+};
+
+const client = createClient<RequestOptions>(send);
+
 export const api = {
-  health: async (customBaseUrl?: string, customApiKey?: string): Promise<{ status: string }> => {
-    const url = getBaseUrl(customBaseUrl);
+  health: async (customBaseUrl?: string, customApiKey?: string, options: RequestOptions = {}): Promise<{ status: string }> => {
+    const request = requests.health();
     const headers = getHeaders(customApiKey);
-    const res = await safeFetch(`${url}/health`, { headers });
+    // Checks against another profile's backend say nothing about our session
+    const res = await safeFetch(`${getBaseUrl(customBaseUrl)}${requestPath(request)}`, { headers }, { timeoutMs: HEALTH_TIMEOUT_MS, ...options, intercept: !customBaseUrl });
     
     if (res.status === 401 || res.status === 403) {
-      throw new Error("Unauthorized");
+      throw new UnauthorizedError('Unauthorized', { status: res.status, requestId: res.headers.get('X-Request-ID') || undefined });
     }
-    if (!res.ok) throw new Error('Health check failed');
-    return res.json();
+    if (!res.ok) throw await parseApiError(res, 'Health check failed');
+    return readValidated(request, res);
   },
 
   // Auth Methods
-  getAuthStatus: async (): Promise<AuthStatus> => {
+  getAuthStatus: async (options: RequestOptions = {}): Promise<AuthStatus> => {
     try {
-      const res = await safeFetch(`${getBaseUrl()}/auth/status`, { headers: getHeaders() });
-      if (res.status === 401) return { authenticated: false };
-      if (!res.ok) return { authenticated: false };
-      return res.json();
+      return await client.getAuthStatus(options);
     } catch (e) {
       return { authenticated: false };
     }
   },
 
-  getAuthProviders: async (): Promise<AuthProvider[]> => {
+  getAuthProviders: async (options: RequestOptions = {}): Promise<AuthProvider[]> => {
     try {
-      const res = await safeFetch(`${getBaseUrl()}/auth/providers`, { headers: getHeaders() });
-      if (!res.ok) return [];
-      return res.json();
+      return await client.listAuthProviders(options);
     } catch (e) {
       console.warn("Could not fetch auth providers", e);
       return [];
     }
   },
 
-  getLoginUrl: async (providerId: string): Promise<string> => {
-    // We call the backend to get the redirect URL
-    const res = await safeFetch(`${getBaseUrl()}/auth/login/${providerId}`, {
-      method: 'GET',
-      headers: getHeaders(),
-    });
-
-    if (!res.ok) {
-        const txt = await res.text();
-        throw new Error(`Failed to get login URL: ${txt}`);
-    }
-    const data = await res.json();
-    return data.auth_url || data.authorization_url;
+  getLoginUrl: async (providerId: string, challenge: LoginChallenge, options: RequestOptions = {}): Promise<string> => {
+    // We call the backend to get the redirect URL; it forwards the PKCE challenge and state to the provider
+    const data = await client.getLoginUrl({
+      provider: providerId,
+      code_challenge: challenge.codeChallenge,
+      code_challenge_method: challenge.codeChallengeMethod,
+      state: challenge.state,
+    }, options);
+    const url = data.auth_url || data.authorization_url;
+    if (!url) throw new ResponseSchemaError('GET /auth/login/{provider}', ['auth_url: missing']);
+    return url;
   },
 
-  loginFinish: async (code: string, verifier: string): Promise<void> => {
-      const res = await safeFetch(`${getBaseUrl()}/auth/callback`, {
-          method: 'POST',
-          headers: getHeaders(),
-          body: JSON.stringify({ code, verifier })
-      });
-      if (!res.ok) {
-          const text = await res.text();
-          throw new Error(text || 'Login failed');
-      }
+  loginFinish: async (code: string, verifier: string, options: RequestOptions = {}): Promise<void> => {
+      return client.finishLogin({ code, verifier }, options);
   },
 
-  logout: async (): Promise<void> => {
-    await safeFetch(`${getBaseUrl()}/auth/logout`, {
-        method: 'POST',
-        headers: getHeaders()
-    });
+  logout: async (options: RequestOptions = {}): Promise<void> => {
+    return client.logout(options);
   },
 
   // Integration Methods
-  checkOpenCodeStatus: async (): Promise<IntegrationStatus> => {
+  checkOpenCodeStatus: async (options: RequestOptions = {}): Promise<IntegrationStatus> => {
       try {
-          const res = await safeFetch(`${getBaseUrl()}/opencode/status`, { headers: getHeaders() });
-          if (!res.ok) return { provider: 'opencode', connected: false, details: 'Status check failed' };
-          return res.json();
+          return await client.getOpenCodeStatus(options);
       } catch (e) {
-          return { provider: 'opencode', connected: false, details: 'Backend unreachable' };
+          // An error with a status means the backend answered
+          return { provider: 'opencode', connected: false, details: isApiError(e) && e.status ? 'Status check failed' : 'Backend unreachable' };
       }
   },
 
-  getOpenAIStatus: async (): Promise<OpenAIConnectionStatus> => {
+  getOpenAIStatus: async (options: RequestOptions = {}): Promise<OpenAIConnectionStatus> => {
     try {
-      const res = await safeFetch(`${getBaseUrl()}/connect/opencode/openai/status`, { headers: getHeaders() });
-      if (!res.ok) return { connected: false, lastError: 'Status check failed' };
-      return res.json();
+      return await client.getOpenAIStatus(options);
     } catch (e: any) {
       return { connected: false, lastError: e.message || 'Backend unreachable' };
     }
   },
 
-  testOpenAIConnection: async (): Promise<OpenAIConnectionTestResult> => {
+  testOpenAIConnection: async (options: RequestOptions = {}): Promise<OpenAIConnectionTestResult> => {
     try {
-        const res = await safeFetch(`${getBaseUrl()}/connect/opencode/openai/test`, {
-            method: 'POST',
-            headers: getHeaders()
-        });
-        if (!res.ok) return { pass: false, message: 'Test request failed' };
-        return res.json();
+        return await client.testOpenAIConnection(options);
     } catch (e: any) {
         return { pass: false, message: e.message || 'Test failed' };
     }
   },
 
   // Agent & Run Methods
-  getAgents: async (): Promise<Agent[]> => {
+  getAgents: async (options: RequestOptions = {}): Promise<Agent[]> => {
     try {
-      const res = await safeFetch(`${getBaseUrl()}/agents`, { headers: getHeaders() });
-      if (!res.ok) return [];
-      return res.json();
+      return await client.listAgents(options);
     } catch (e) {
       console.warn("Could not fetch agents", e);
       return [];
     }
   },
 
-  startRun: async (payload: RunRequest): Promise<RunResponse> => {
+  startRun: async (payload: RunRequest, options: RequestOptions = {}): Promise<RunResponse> => {
     const body = {
       prompt: payload.prompt,
       executor: payload.executor || 'copilot',
       workdir: payload.workdir || null,
+      ...(payload.persona ? { persona: payload.persona } : {}),
+      ...(payload.context_paths?.length ? { context_paths: payload.context_paths } : {}),
       ...(payload.dry_run ? { dry_run: true } : {})
     };
-
-    const res = await safeFetch(`${getBaseUrl()}/run`, {
-      method: 'POST',
-      headers: getHeaders(),
-      body: JSON.stringify(body),
-    });
-    if (!res.ok) {
-      const errText = await res.text();
-      if (res.status === 401) throw new Error("Unauthorized");
-      throw new Error(`Failed to start run: ${errText}`);
-    }
-    return res.json();
+    return client.startRun(body, options);
   },
 
-  startLoop: async (payload: LoopRequest): Promise<RunResponse> => {
+  startLoop: async (payload: LoopRequest, options: RequestOptions = {}): Promise<RunResponse> => {
     const body = {
       task: payload.task,
       executor: payload.executor || 'copilot',
       max_retries: payload.max_retries ?? 2,
       workdir: payload.workdir || null,
+      ...(payload.persona ? { persona: payload.persona } : {}),
+      ...(payload.context_paths?.length ? { context_paths: payload.context_paths } : {}),
       ...(payload.dry_run ? { dry_run: true } : {})
     };
+    return client.startLoop(body, options);
+  },
 
-    const res = await safeFetch(`${getBaseUrl()}/loop`, {
-      method: 'POST',
-      headers: getHeaders(),
-      body: JSON.stringify(body),
-    });
-    if (!res.ok) {
-      const errText = await res.text();
-      if (res.status === 401) throw new Error("Unauthorized");
-      throw new Error(`Failed to start loop: ${errText}`);
-    }
-    return res.json();
+  cancelRun: async (runId: string, options: RequestOptions = {}): Promise<void> => {
+    return client.cancelRun({ run_id: runId }, options);
   },
 
-  cancelRun: async (runId: string): Promise<void> => {
-    try {
-      await safeFetch(`${getBaseUrl()}/runs/${runId}/cancel`, {
-        method: 'POST',
-        headers: getHeaders(),
-      });
-    } catch (e) {
-      console.warn("Failed to cancel run via backend", e);
-    }
+  deleteRun: async (runId: string, options: RequestOptions = {}): Promise<void> => {
+    return client.deleteRun({ run_id: runId }, options);
   },
 
-  deleteRun: async (runId: string): Promise<void> => {
-    const res = await safeFetch(`${getBaseUrl()}/runs/${runId}`, {
-      method: 'DELETE',
-      headers: getHeaders(),
-    });
-    if (!res.ok) {
-        throw new Error('Failed to delete run');
-    }
+  getRuns: async (limit = 10, options: RequestOptions = {}): Promise<RunSummary[]> => {
+    const page = await api.getRunsPage({ limit }, options);
+    return page.runs;
   },
 
-  getRuns: async (limit = 10): Promise<RunSummary[]> => {
-    const res = await safeFetch(`${getBaseUrl()}/runs?limit=${limit}`, { headers: getHeaders() });
-    if (!res.ok) throw new Error('Failed to fetch runs');
-    return res.json();
+  // Paginated, filtered history. Accepts either a plain array or a
+  // { runs, next_cursor } envelope; filters are re-applied client-side
+  // so older backends that ignore them still narrow the list.
+  getRunsPage: async (query: RunQuery = {}, options: RequestOptions = {}): Promise<RunPage> => {
+    const limit = query.limit ?? 20;
+    const data = await client.listRuns({
+      limit,
+      cursor: query.cursor || undefined,
+      offset: query.cursor ? undefined : query.offset || undefined,
+      q: query.q,
+      status: query.status,
+      executor: query.executor,
+      from: query.from,
+      to: query.to,
+      min_cost: query.min_cost,
+      max_cost: query.max_cost,
+    }, options);
+
+    const runs: RunSummary[] = Array.isArray(data) ? data : (data.runs || data.items || []);
+    const nextCursor: string | null = Array.isArray(data) ? null : (data.next_cursor ?? null);
+    const hasMore = Array.isArray(data) ? runs.length >= limit : (data.has_more ?? !!nextCursor);
+    return {
+      runs: runs.filter(run => matchesRunQuery(run, query)),
+      next_cursor: nextCursor,
+      has_more: hasMore,
+      fetched_ids: runs.map(run => run.run_id),
+    };
+  },
+
+  // Walks every page matching the query, stopping after maxRuns
+  collectRuns: async (query: RunQuery = {}, maxRuns = 2000, options: RequestOptions = {}): Promise<RunSummary[]> => {
+    const limit = query.limit ?? 100;
+    const runs: RunSummary[] = [];
+    const seen = new Set<string>();
+    const fetched = new Set<string>();
+    let cursor: string | null | undefined;
+    let offset = 0;
+    while (runs.length < maxRuns) {
+      const page = await api.getRunsPage({ ...query, limit, ...(cursor ? { cursor } : { offset }) }, options);
+      page.runs.forEach(run => {
+        if (!seen.has(run.run_id)) {
+          seen.add(run.run_id);
+          runs.push(run);
+        }
+      });
+      // Judged on what the backend sent, not what survived filtering: a page
+      // of no matches can still be followed by more. A backend that ignores
+      // paging keeps sending runs it already sent.
+      const fetchedBefore = fetched.size;
+      page.fetched_ids.forEach(id => fetched.add(id));
+      if (!page.has_more || fetched.size === fetchedBefore) break;
+      cursor = page.next_cursor;
+      offset += limit;
+    }
+    return runs.slice(0, maxRuns);
   },
 
-  getRun: async (runId: string): Promise<RunDetails> => {
-    const res = await safeFetch(`${getBaseUrl()}/runs/${runId}`, { headers: getHeaders() });
-    if (!res.ok) throw new Error('Failed to fetch run details');
-    return res.json();
+  getRun: async (runId: string, options: RequestOptions = {}): Promise<RunDetails> => {
+    return client.getRun({ run_id: runId }, options);
   },
 
   getStreamUrl: (runId: string): string => {
@@ -246,4 +500,22 @@ export const api = {
     }
     return base;
   },
+
+  // Live run events over SSE, resuming with Last-Event-ID after disconnects
+  streamRun: (runId: string, handlers: RunStreamHandlers): SSEConnection => {
+    const { apiKey } = getSettings();
+    const headers: Record<string, string> = {};
+    if (apiKey) {
+        headers['X-Heidi-Key'] = apiKey;
+    }
+    return openRunStream(api.getStreamUrl(runId), headers, {
+      // The stream doesn't go through safeFetch, so it refreshes the session itself
+      onUnauthorized: async () => {
+        if (await refreshSession()) return true;
+        expireSession();
+        return false;
+      },
+      ...handlers,
+    });
+  },
 };
\ No newline at end of file
@@ -0,0 +1,99 @@
+import { readFileSync } from 'node:fs';
+import { describe, it, expect } from 'vitest';
+import { render } from '../../scripts/generate-api.mjs';
+
+const read = (file: string) => readFileSync(new URL(file, import.meta.url), 'utf8');
+
+// A small document covering what the generator supports
+const fixture = {
+  openapi: '3.0.3',
+  info: { title: 'Fixture', version: '1.0.0' },
+  paths: {
+    '/items/{item_id}': {
+      parameters: [{ name: 'item_id', in: 'path', required: true, schema: { type: 'string' } }],
+      get: {
+        operationId: 'getItem',
+        summary: 'Fetch item',
+        parameters: [{ name: 'expand', in: 'query', schema: { type: 'boolean' }, description: 'Include children' }],
+        responses: { '200': { description: 'OK', content: { 'application/json': { schema: { $ref: '#/components/schemas/Item' } } } } },
+      },
+      delete: {
+        operationId: 'deleteItem',
+        responses: { '204': { description: 'No content' } },
+      },
+    },
+    '/items/{item_id}/events': {
+      get: {
+        operationId: 'streamItem',
+        responses: { '200': { description: 'OK', content: { 'text/event-stream': {} } } },
+      },
+    },
+  },
+  components: {
+    schemas: {
+      Item: {
+        type: 'object',
+        description: 'A stored item',
+        properties: {
+          id: { type: 'string' },
+          kind: { type: 'string', enum: ['a', 'b'], example: 'a' },
+          parent: { nullable: true, allOf: [{ $ref: '#/components/schemas/Item' }] },
+          tags: { type: 'array', items: { type: 'string' } },
+        },
+        required: ['id'],
+      },
+    },
+  },
+};
+
+describe('generate-api', () => {
+  const output = render(fixture, 'fixture.json');
+
+  it('generates interfaces for component schemas', () => {
+    expect(output).toContain(`// A stored item
+export interface Item {
+  id: string;
+  kind?: 'a' | 'b';
+  parent?: Item | null;
+  tags?: string[];
+}`);
+  });
+
+  it('embeds validation schemas without documentation keys', () => {
+    expect(output).toContain("kind: { type: 'string', enum: ['a', 'b'] }");
+    expect(output).not.toContain('example');
+    expect(output).not.toContain('description:');
+  });
+
+  it('merges path-level parameters into each operation', () => {
+    expect(output).toContain(`export interface GetItemParams {
+  item_id: string;
+  // Include children
+  expand?: boolean;
+}`);
+    expect(output).toContain("pathParams: { item_id: params.item_id }");
+    expect(output).toContain('query: { expand: params.expand }');
+  });
+
+  it('generates a request builder and client method per JSON operation', () => {
+    expect(output).toContain("failure: 'Failed to fetch item'");
+    expect(output).toContain("failure: 'Request deleteItem failed'");
+    expect(output).toContain('send<Item>(requests.getItem(params), options)');
+    expect(output).toContain('send<void>(requests.deleteItem(params), options)');
+    expect(output).not.toContain('streamItem');
+  });
+
+  it('names the source document', () => {
+    expect(output.startsWith('// Generated by scripts/generate-api.mjs from fixture.json (Fixture 1.0.0).')).toBe(true);
+  });
+
+  it('rejects operations without an operationId', () => {
+    const doc = { ...fixture, paths: { '/x': { get: { responses: {} } } } };
+    expect(() => render(doc, 'fixture.json')).toThrow('GET /x has no operationId');
+  });
+
+  it('keeps heidiSchema.ts in step with openapi/heidi.json', () => {
+    const doc = JSON.parse(read('../../openapi/heidi.json'));
+    expect(render(doc, 'openapi/heidi.json')).toBe(read('./heidiSchema.ts'));
+  });
+});
@@ -0,0 +1,586 @@
+// Generated by scripts/generate-api.mjs from openapi/heidi.json (Heidi 0.1.0).
+// Do not edit by hand: update the OpenAPI document and run `npm run generate:api`.
+
+import { ApiRequest, Schema } from './openapi';
+
+// --- Schemas ---
+
+export interface HealthStatus {
+  status: string;
+}
+
+export interface Agent {
+  name: string;
+  description?: string | null;
+}
+
+export interface RunRequest {
+  prompt: string;
+  executor: string;
+  workdir?: string | null;
+  persona?: string;
+  dry_run?: boolean;
+  context_paths?: string[];
+}
+
+export interface LoopRequest {
+  task: string;
+  executor: string;
+  max_retries: number;
+  workdir?: string | null;
+  persona?: string;
+  dry_run?: boolean;
+  context_paths?: string[];
+}
+
+export interface RunResponse {
+  run_id: string;
+  status: string;
+  result?: string | null;
+  error?: string | null;
+}
+
+export interface RunUsage {
+  input_tokens: number;
+  output_tokens: number;
+  total_tokens: number;
+  cost_usd: number;
+}
+
+export interface RunEvent {
+  type: string;
+  message: string;
+  ts: string;
+  // Free-form payload that depends on the event type
+  details?: any;
+  // Streamed events may carry running usage totals
+  usage?: RunUsage;
+}
+
+export interface RunMeta {
+  status: string;
+  executor: string;
+  // Set for loops
+  task?: string | null;
+  // Set for single runs
+  prompt?: string | null;
+  workdir?: string | null;
+  persona?: string | null;
+  max_retries?: number | null;
+  context_paths?: string[] | null;
+  created_at?: string | null;
+  updated_at?: string | null;
+  finished_at?: string | null;
+}
+
+export interface RunDetails {
+  run_id: string;
+  meta: RunMeta;
+  events: RunEvent[];
+  result?: string | null;
+  error?: string | null;
+  usage?: RunUsage | null;
+}
+
+export interface RunSummary {
+  run_id: string;
+  status: string;
+  task?: string | null;
+  prompt?: string | null;
+  executor?: string | null;
+  created_at?: string | null;
+  usage?: RunUsage | null;
+}
+
+export interface RunListPage {
+  runs?: RunSummary[];
+  // Deprecated. Older backends name the list `items`
+  items?: RunSummary[];
+  next_cursor?: string | null;
+  has_more?: boolean;
+}
+
+export interface User {
+  id: string;
+  username: string;
+  name?: string | null;
+  email?: string | null;
+  avatar_url?: string | null;
+  provider: string;
+}
+
+export interface AuthStatus {
+  authenticated: boolean;
+  user?: User | null;
+  message?: string | null;
+}
+
+export interface AuthProvider {
+  id: string;
+  name: string;
+  icon?: string | null;
+  // Direct login URL for providers that skip the backend flow
+  url?: string | null;
+}
+
+export interface LoginUrl {
+  auth_url?: string;
+  // Older backends use this name
+  authorization_url?: string;
+}
+
+export interface LoginCallbackRequest {
+  code: string;
+  // PKCE code verifier
+  verifier: string;
+}
+
+export interface IntegrationStatus {
+  provider: string;
+  connected: boolean;
+  details?: string | null;
+  last_checked?: string | null;
+}
+
+export interface OpenAIConnectionStatus {
+  connected: boolean;
+  authPath?: string | null;
+  models?: string[] | null;
+  lastError?: string | null;
+}
+
+export interface OpenAIConnectionTestResult {
+  pass: boolean;
+  message?: string | null;
+}
+
+// --- Operation parameters ---
+
+export interface GetLoginUrlParams {
+  provider: string;
+  code_challenge: string;
+  code_challenge_method: 'S256';
+  state: string;
+}
+
+export interface ListRunsParams {
+  limit?: number;
+  // Proposed. Ignored when cursor is set
+  offset?: number;
+  // Proposed.
+  cursor?: string;
+  // Proposed. Matches task, prompt and run id
+  q?: string;
+  // Proposed.
+  status?: string;
+  // Proposed.
+  executor?: string;
+  // Proposed. Inclusive
+  from?: string;
+  // Proposed. Inclusive
+  to?: string;
+  // Proposed.
+  min_cost?: number;
+  // Proposed.
+  max_cost?: number;
+}
+
+export interface GetRunParams {
+  run_id: string;
+}
+
+export interface DeleteRunParams {
+  run_id: string;
+}
+
+export interface CancelRunParams {
+  run_id: string;
+}
+
+// Validation copies of the component schemas, used by readResponse
+export const schemas: Record<string, Schema> = {
+  HealthStatus: { type: 'object', properties: { status: { type: 'string' } }, required: ['status'] },
+  Agent: {
+    type: 'object',
+    properties: { name: { type: 'string' }, description: { type: 'string', nullable: true } },
+    required: ['name'],
+  },
+  RunRequest: {
+    type: 'object',
+    properties: {
+      prompt: { type: 'string' },
+      executor: { type: 'string' },
+      workdir: { type: 'string', nullable: true },
+      persona: { type: 'string' },
+      dry_run: { type: 'boolean' },
+      context_paths: { type: 'array', items: { type: 'string' } },
+    },
+    required: ['prompt', 'executor'],
+  },
+  LoopRequest: {
+    type: 'object',
+    properties: {
+      task: { type: 'string' },
+      executor: { type: 'string' },
+      max_retries: { type: 'integer' },
+      workdir: { type: 'string', nullable: true },
+      persona: { type: 'string' },
+      dry_run: { type: 'boolean' },
+      context_paths: { type: 'array', items: { type: 'string' } },
+    },
+    required: ['task', 'executor', 'max_retries'],
+  },
+  RunResponse: {
+    type: 'object',
+    properties: {
+      run_id: { type: 'string' },
+      status: { type: 'string' },
+      result: { type: 'string', nullable: true },
+      error: { type: 'string', nullable: true },
+    },
+    required: ['run_id', 'status'],
+  },
+  RunUsage: {
+    type: 'object',
+    properties: {
+      input_tokens: { type: 'integer' },
+      output_tokens: { type: 'integer' },
+      total_tokens: { type: 'integer' },
+      cost_usd: { type: 'number' },
+    },
+    required: ['input_tokens', 'output_tokens', 'total_tokens', 'cost_usd'],
+  },
+  RunEvent: {
+    type: 'object',
+    properties: {
+      type: { type: 'string' },
+      message: { type: 'string' },
+      ts: { type: 'string' },
+      details: {},
+      usage: { $ref: '#/components/schemas/RunUsage' },
+    },
+    required: ['type', 'message', 'ts'],
+  },
+  RunMeta: {
+    type: 'object',
+    properties: {
+      status: { type: 'string' },
+      executor: { type: 'string' },
+      task: { type: 'string', nullable: true },
+      prompt: { type: 'string', nullable: true },
+      workdir: { type: 'string', nullable: true },
+      persona: { type: 'string', nullable: true },
+      max_retries: { type: 'integer', nullable: true },
+      context_paths: { type: 'array', nullable: true, items: { type: 'string' } },
+      created_at: { type: 'string', nullable: true },
+      updated_at: { type: 'string', nullable: true },
+      finished_at: { type: 'string', nullable: true },
+    },
+    required: ['status', 'executor'],
+  },
+  RunDetails: {
+    type: 'object',
+    properties: {
+      run_id: { type: 'string' },
+      meta: { $ref: '#/components/schemas/RunMeta' },
+      events: { type: 'array', items: { $ref: '#/components/schemas/RunEvent' } },
+      result: { type: 'string', nullable: true },
+      error: { type: 'string', nullable: true },
+      usage: { nullable: true, allOf: [{ $ref: '#/components/schemas/RunUsage' }] },
+    },
+    required: ['run_id', 'meta', 'events'],
+  },
+  RunSummary: {
+    type: 'object',
+    properties: {
+      run_id: { type: 'string' },
+      status: { type: 'string' },
+      task: { type: 'string', nullable: true },
+      prompt: { type: 'string', nullable: true },
+      executor: { type: 'string', nullable: true },
+      created_at: { type: 'string', nullable: true },
+      usage: { nullable: true, allOf: [{ $ref: '#/components/schemas/RunUsage' }] },
+    },
+    required: ['run_id', 'status'],
+  },
+  RunListPage: {
+    type: 'object',
+    properties: {
+      runs: { type: 'array', items: { $ref: '#/components/schemas/RunSummary' } },
+      items: { type: 'array', items: { $ref: '#/components/schemas/RunSummary' } },
+      next_cursor: { type: 'string', nullable: true },
+      has_more: { type: 'boolean' },
+    },
+  },
+  User: {
+    type: 'object',
+    properties: {
+      id: { type: 'string' },
+      username: { type: 'string' },
+      name: { type: 'string', nullable: true },
+      email: { type: 'string', nullable: true },
+      avatar_url: { type: 'string', nullable: true },
+      provider: { type: 'string' },
+    },
+    required: ['id', 'username', 'provider'],
+  },
+  AuthStatus: {
+    type: 'object',
+    properties: {
+      authenticated: { type: 'boolean' },
+      user: { nullable: true, allOf: [{ $ref: '#/components/schemas/User' }] },
+      message: { type: 'string', nullable: true },
+    },
+    required: ['authenticated'],
+  },
+  AuthProvider: {
+    type: 'object',
+    properties: {
+      id: { type: 'string' },
+      name: { type: 'string' },
+      icon: { type: 'string', nullable: true },
+      url: { type: 'string', nullable: true },
+    },
+    required: ['id', 'name'],
+  },
+  LoginUrl: {
+    type: 'object',
+    properties: { auth_url: { type: 'string' }, authorization_url: { type: 'string' } },
+  },
+  LoginCallbackRequest: {
+    type: 'object',
+    properties: { code: { type: 'string' }, verifier: { type: 'string' } },
+    required: ['code', 'verifier'],
+  },
+  IntegrationStatus: {
+    type: 'object',
+    properties: {
+      provider: { type: 'string' },
+      connected: { type: 'boolean' },
+      details: { type: 'string', nullable: true },
+      last_checked: { type: 'string', nullable: true },
+    },
+    required: ['provider', 'connected'],
+  },
+  OpenAIConnectionStatus: {
+    type: 'object',
+    properties: {
+      connected: { type: 'boolean' },
+      authPath: { type: 'string', nullable: true },
+      models: { type: 'array', nullable: true, items: { type: 'string' } },
+      lastError: { type: 'string', nullable: true },
+    },
+    required: ['connected'],
+  },
+  OpenAIConnectionTestResult: {
+    type: 'object',
+    properties: { pass: { type: 'boolean' }, message: { type: 'string', nullable: true } },
+    required: ['pass'],
+  },
+};
+
+// --- Client ---
+
+// One builder per operation; the result is sent by whatever transport the app uses
+export const requests = {
+  // Check health
+  health: (): ApiRequest => ({
+    operationId: 'health',
+    method: 'GET',
+    path: '/health',
+    response: { $ref: '#/components/schemas/HealthStatus' },
+    failure: 'Failed to check health',
+  }),
+  // Fetch auth status
+  getAuthStatus: (): ApiRequest => ({
+    operationId: 'getAuthStatus',
+    method: 'GET',
+    path: '/auth/status',
+    response: { $ref: '#/components/schemas/AuthStatus' },
+    failure: 'Failed to fetch auth status',
+  }),
+  // Fetch auth providers
+  listAuthProviders: (): ApiRequest => ({
+    operationId: 'listAuthProviders',
+    method: 'GET',
+    path: '/auth/providers',
+    response: { type: 'array', items: { $ref: '#/components/schemas/AuthProvider' } },
+    failure: 'Failed to fetch auth providers',
+  }),
+  // Get login URL
+  getLoginUrl: (params: GetLoginUrlParams): ApiRequest => ({
+    operationId: 'getLoginUrl',
+    method: 'GET',
+    path: '/auth/login/{provider}',
+    pathParams: { provider: params.provider },
+    query: {
+      code_challenge: params.code_challenge,
+      code_challenge_method: params.code_challenge_method,
+      state: params.state,
+    },
+    response: { $ref: '#/components/schemas/LoginUrl' },
+    failure: 'Failed to get login URL',
+  }),
+  // Finish login
+  finishLogin: (body: LoginCallbackRequest): ApiRequest => ({
+    operationId: 'finishLogin',
+    method: 'POST',
+    path: '/auth/callback',
+    body,
+    failure: 'Failed to finish login',
+  }),
+  // Refresh session
+  refreshSession: (): ApiRequest => ({
+    operationId: 'refreshSession',
+    method: 'POST',
+    path: '/auth/refresh',
+    failure: 'Failed to refresh session',
+  }),
+  // Log out
+  logout: (): ApiRequest => ({
+    operationId: 'logout',
+    method: 'POST',
+    path: '/auth/logout',
+    failure: 'Failed to log out',
+  }),
+  // Check OpenCode status
+  getOpenCodeStatus: (): ApiRequest => ({
+    operationId: 'getOpenCodeStatus',
+    method: 'GET',
+    path: '/opencode/status',
+    response: { $ref: '#/components/schemas/IntegrationStatus' },
+    failure: 'Failed to check OpenCode status',
+  }),
+  // Check OpenAI connection
+  getOpenAIStatus: (): ApiRequest => ({
+    operationId: 'getOpenAIStatus',
+    method: 'GET',
+    path: '/connect/opencode/openai/status',
+    response: { $ref: '#/components/schemas/OpenAIConnectionStatus' },
+    failure: 'Failed to check OpenAI connection',
+  }),
+  // Test OpenAI connection
+  testOpenAIConnection: (): ApiRequest => ({
+    operationId: 'testOpenAIConnection',
+    method: 'POST',
+    path: '/connect/opencode/openai/test',
+    response: { $ref: '#/components/schemas/OpenAIConnectionTestResult' },
+    failure: 'Failed to test OpenAI connection',
+  }),
+  // Fetch agents
+  listAgents: (): ApiRequest => ({
+    operationId: 'listAgents',
+    method: 'GET',
+    path: '/agents',
+    response: { type: 'array', items: { $ref: '#/components/schemas/Agent' } },
+    failure: 'Failed to fetch agents',
+  }),
+  // Start run
+  startRun: (body: RunRequest): ApiRequest => ({
+    operationId: 'startRun',
+    method: 'POST',
+    path: '/run',
+    body,
+    response: { $ref: '#/components/schemas/RunResponse' },
+    failure: 'Failed to start run',
+  }),
+  // Start loop
+  startLoop: (body: LoopRequest): ApiRequest => ({
+    operationId: 'startLoop',
+    method: 'POST',
+    path: '/loop',
+    body,
+    response: { $ref: '#/components/schemas/RunResponse' },
+    failure: 'Failed to start loop',
+  }),
+  // Fetch runs
+  listRuns: (params: ListRunsParams = {}): ApiRequest => ({
+    operationId: 'listRuns',
+    method: 'GET',
+    path: '/runs',
+    query: {
+      limit: params.limit,
+      offset: params.offset,
+      cursor: params.cursor,
+      q: params.q,
+      status: params.status,
+      executor: params.executor,
+      from: params.from,
+      to: params.to,
+      min_cost: params.min_cost,
+      max_cost: params.max_cost,
+    },
+    response: {
+      oneOf: [
+        { type: 'array', items: { $ref: '#/components/schemas/RunSummary' } },
+        { $ref: '#/components/schemas/RunListPage' },
+      ],
+    },
+    failure: 'Failed to fetch runs',
+  }),
+  // Fetch run details
+  getRun: (params: GetRunParams): ApiRequest => ({
+    operationId: 'getRun',
+    method: 'GET',
+    path: '/runs/{run_id}',
+    pathParams: { run_id: params.run_id },
+    response: { $ref: '#/components/schemas/RunDetails' },
+    failure: 'Failed to fetch run details',
+  }),
+  // Delete run
+  deleteRun: (params: DeleteRunParams): ApiRequest => ({
+    operationId: 'deleteRun',
+    method: 'DELETE',
+    path: '/runs/{run_id}',
+    pathParams: { run_id: params.run_id },
+    failure: 'Failed to delete run',
+  }),
+  // Cancel run
+  cancelRun: (params: CancelRunParams): ApiRequest => ({
+    operationId: 'cancelRun',
+    method: 'POST',
+    path: '/runs/{run_id}/cancel',
+    pathParams: { run_id: params.run_id },
+    failure: 'Failed to cancel run',
+  }),
+};
+
+// Sends a request and resolves with its validated response body
+export type ApiSender<O> = <T>(request: ApiRequest, options?: O) => Promise<T>;
+
+export const createClient = <O>(send: ApiSender<O>) => ({
+  health: (options?: O) =>
+    send<HealthStatus>(requests.health(), options),
+  getAuthStatus: (options?: O) =>
+    send<AuthStatus>(requests.getAuthStatus(), options),
+  listAuthProviders: (options?: O) =>
+    send<AuthProvider[]>(requests.listAuthProviders(), options),
+  getLoginUrl: (params: GetLoginUrlParams, options?: O) =>
+    send<LoginUrl>(requests.getLoginUrl(params), options),
+  finishLogin: (body: LoginCallbackRequest, options?: O) =>
+    send<void>(requests.finishLogin(body), options),
+  refreshSession: (options?: O) =>
+    send<void>(requests.refreshSession(), options),
+  logout: (options?: O) =>
+    send<void>(requests.logout(), options),
+  getOpenCodeStatus: (options?: O) =>
+    send<IntegrationStatus>(requests.getOpenCodeStatus(), options),
+  getOpenAIStatus: (options?: O) =>
+    send<OpenAIConnectionStatus>(requests.getOpenAIStatus(), options),
+  testOpenAIConnection: (options?: O) =>
+    send<OpenAIConnectionTestResult>(requests.testOpenAIConnection(), options),
+  listAgents: (options?: O) =>
+    send<Agent[]>(requests.listAgents(), options),
+  startRun: (body: RunRequest, options?: O) =>
+    send<RunResponse>(requests.startRun(body), options),
+  startLoop: (body: LoopRequest, options?: O) =>
+    send<RunResponse>(requests.startLoop(body), options),
+  listRuns: (params: ListRunsParams = {}, options?: O) =>
+    send<RunSummary[] | RunListPage>(requests.listRuns(params), options),
+  getRun: (params: GetRunParams, options?: O) =>
+    send<RunDetails>(requests.getRun(params), options),
+  deleteRun: (params: DeleteRunParams, options?: O) =>
+    send<void>(requests.deleteRun(params), options),
+  cancelRun: (params: CancelRunParams, options?: O) =>
+    send<void>(requests.cancelRun(params), options),
+});
@@ -0,0 +1,96 @@
+import { readFileSync } from 'node:fs';
+import { describe, it, expect } from 'vitest';
+import { ApiRequest, Schema, readResponse, requestPath, validate } from './openapi';
+import { ResponseSchemaError } from './errors';
+
+// Component schemas straight from the local OpenAPI document, so these cases
+// check the validator against the same shapes the generated client embeds
+const doc = JSON.parse(readFileSync(new URL('../../openapi/heidi.json', import.meta.url), 'utf8'));
+const schemas: Record<string, Schema> = doc.components.schemas;
+const ref = (name: string): Schema => ({ $ref: `#/components/schemas/${name}` });
+const runListResponse: Schema = doc.paths['/runs'].get.responses['200'].content['application/json'].schema;
+
+const run = { run_id: 'r1', status: 'completed', task: 'Fix the build', usage: null };
+
+describe('validate', () => {
+  it('accepts a response that matches the schema', () => {
+    expect(validate(ref('RunSummary'), run, schemas)).toEqual([]);
+    expect(validate(ref('HealthStatus'), { status: 'ok', extra: 1 }, schemas)).toEqual([]);
+  });
+
+  it('accepts either shape of a oneOf', () => {
+    expect(validate(runListResponse, [run], schemas)).toEqual([]);
+    expect(validate(runListResponse, { runs: [run], has_more: false }, schemas)).toEqual([]);
+  });
+
+  it('accepts null where the schema is nullable', () => {
+    expect(validate(ref('RunSummary'), { ...run, task: null, executor: null }, schemas)).toEqual([]);
+  });
+
+  it('reports missing required properties', () => {
+    expect(validate(ref('RunSummary'), { run_id: 'r1' }, schemas)).toEqual(['status: missing']);
+  });
+
+  it('reports wrong types with their path', () => {
+    expect(validate({ type: 'array', items: ref('RunSummary') }, [run, { ...run, status: 3 }], schemas))
+      .toEqual(['[1].status: expected string, got number 3']);
+    expect(validate(ref('HealthStatus'), 'ok', schemas)).toEqual(['response: expected object, got string "ok"']);
+  });
+
+  it('rejects null where the schema is not nullable', () => {
+    expect(validate(ref('RunSummary'), { ...run, run_id: null }, schemas)).toEqual(['run_id: expected string, got null']);
+  });
+
+  it('reports values outside an enum', () => {
+    expect(validate({ enum: ['a', 'b'] }, 'c', {})).toEqual(['response: expected one of "a", "b", got string "c"']);
+  });
+
+  it('reports the closest oneOf choice', () => {
+    expect(validate(runListResponse, { runs: [{ run_id: 'r1' }] }, schemas)).toEqual(['runs[0].status: missing']);
+    expect(validate(runListResponse, 5, schemas)).toEqual(['response: expected array or object, got number 5']);
+  });
+
+  it('reports unknown references', () => {
+    expect(validate(ref('Missing'), {}, schemas)).toEqual(['response: unknown schema #/components/schemas/Missing']);
+  });
+});
+
+describe('requestPath', () => {
+  it('fills path parameters and drops empty query values', () => {
+    const request: ApiRequest = {
+      operationId: 'listRuns',
+      method: 'GET',
+      path: '/runs/{run_id}',
+      pathParams: { run_id: 'a/b' },
+      query: { limit: 10, q: '', status: undefined, dry: false },
+      failure: 'Failed',
+    };
+    expect(requestPath(request)).toBe('/runs/a%2Fb?limit=10&dry=false');
+  });
+});
+
+describe('readResponse', () => {
+  const request: ApiRequest = { operationId: 'health', method: 'GET', path: '/health', response: ref('HealthStatus'), failure: 'Failed' };
+  const respond = (body: string) => new Response(body, { status: 200, headers: { 'X-Request-ID': 'req-1' } });
+
+  it('resolves with a valid body', async () => {
+    await expect(readResponse(request, respond('{"status":"ok"}'), schemas)).resolves.toEqual({ status: 'ok' });
+  });
+
+  it('rejects a body that does not match', async () => {
+    const error = await readResponse<never>(request, respond('{"status":1}'), schemas).catch((e: ResponseSchemaError) => e);
+    expect(error).toBeInstanceOf(ResponseSchemaError);
+    expect(error.issues).toEqual(['status: expected string, got number 1']);
+    expect(error.requestId).toBe('req-1');
+  });
+
+  it('rejects a body that is not JSON', async () => {
+    const error = await readResponse<never>(request, respond('<html>'), schemas).catch((e: ResponseSchemaError) => e);
+    expect(error).toBeInstanceOf(ResponseSchemaError);
+    expect(error.issues).toEqual(['body is not JSON']);
+  });
+
+  it('skips the body when the operation has none', async () => {
+    await expect(readResponse({ ...request, response: undefined }, respond(''), schemas)).resolves.toBeUndefined();
+  });
+});
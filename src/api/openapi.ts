@@ -0,0 +1,165 @@
+import { ResponseSchemaError, ApiErrorOptions } from './errors';
+
+// --- Runtime support for the generated client in heidiSchema.ts ---
+//
+// The generator turns each OpenAPI operation into an ApiRequest; the app's
+// transport sends it and hands the response to readResponse, which checks the
+// JSON against the schema from the OpenAPI document before anything renders it.
+
+// The part of JSON Schema / OpenAPI 3.0 that validation understands
+export interface Schema {
+  type?: string | string[];
+  nullable?: boolean;
+  enum?: unknown[];
+  properties?: Record<string, Schema>;
+  required?: string[];
+  additionalProperties?: boolean | Schema;
+  items?: Schema;
+  $ref?: string;
+  allOf?: Schema[];
+  oneOf?: Schema[];
+  anyOf?: Schema[];
+}
+
+export type QueryValue = string | number | boolean | null | undefined;
+
+export interface ApiRequest {
+  operationId: string;
+  method: 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+  path: string; // Template, e.g. /runs/{run_id}
+  pathParams?: Record<string, string | number>;
+  query?: Record<string, QueryValue>;
+  body?: unknown;
+  // Schema of a successful response; absent when it has no body
+  response?: Schema;
+  // Error message used when a failed response doesn't carry one
+  failure: string;
+}
+
+// Path and query string; unset and empty query values are left out
+export const requestPath = (request: ApiRequest): string => {
+  const path = request.path.replace(/\{([^}]+)\}/g, (_, name) => encodeURIComponent(String(request.pathParams?.[name] ?? '')));
+  const params = new URLSearchParams();
+  Object.entries(request.query || {}).forEach(([key, value]) => {
+    if (value !== undefined && value !== null && value !== '') params.set(key, String(value));
+  });
+  const search = params.toString();
+  return search ? `${path}?${search}` : path;
+};
+
+const typeOf = (value: unknown): string => {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+};
+
+const matchesType = (type: string, value: unknown): boolean => {
+  switch (type) {
+    case 'integer': return Number.isInteger(value);
+    case 'number': return typeof value === 'number' && Number.isFinite(value);
+    case 'object': return typeOf(value) === 'object';
+    default: return typeOf(value) === type;
+  }
+};
+
+const describeValue = (value: unknown) => {
+  const type = typeOf(value);
+  return type === 'string' || type === 'number' || type === 'boolean' ? `${type} ${JSON.stringify(value)}` : type;
+};
+
+const child = (at: string, key: string | number) =>
+  typeof key === 'number' ? `${at}[${key}]` : at ? `${at}.${key}` : key;
+
+const check = (schema: Schema, value: unknown, schemas: Record<string, Schema>, at: string, issues: string[]) => {
+  const where = at || 'response';
+
+  if (schema.$ref) {
+    const name = schema.$ref.split('/').pop() || '';
+    const target = schemas[name];
+    if (!target) issues.push(`${where}: unknown schema ${schema.$ref}`);
+    else check(target, value, schemas, at, issues);
+    return;
+  }
+
+  const types = schema.type === undefined ? [] : Array.isArray(schema.type) ? schema.type : [schema.type];
+  if (value === null && (schema.nullable || types.includes('null'))) return;
+
+  schema.allOf?.forEach(part => check(part, value, schemas, at, issues));
+
+  const choices = schema.oneOf || schema.anyOf;
+  if (choices) issues.push(...checkChoices(choices, value, schemas, at));
+
+  const expected = types.filter(t => t !== 'null');
+  if (expected.length > 0 && !expected.some(t => matchesType(t, value))) {
+    issues.push(`${where}: expected ${expected.join(' or ')}, got ${describeValue(value)}`);
+    return;
+  }
+  if (schema.enum && !schema.enum.includes(value)) {
+    issues.push(`${where}: expected one of ${schema.enum.map(v => JSON.stringify(v)).join(', ')}, got ${describeValue(value)}`);
+    return;
+  }
+
+  if (typeOf(value) === 'object') {
+    const record = value as Record<string, unknown>;
+    schema.required?.forEach(key => {
+      if (record[key] === undefined) issues.push(`${child(at, key)}: missing`);
+    });
+    Object.entries(record).forEach(([key, item]) => {
+      if (item === undefined) return;
+      const property = schema.properties?.[key];
+      if (property) check(property, item, schemas, child(at, key), issues);
+      else if (typeof schema.additionalProperties === 'object') check(schema.additionalProperties, item, schemas, child(at, key), issues);
+    });
+  }
+
+  if (Array.isArray(value) && schema.items) {
+    const items = schema.items;
+    value.forEach((item, index) => check(items, item, schemas, child(at, index), issues));
+  }
+};
+
+// Nothing when any choice matches. Otherwise a choice of the wrong type says
+// nothing useful, so the closest choice of the right type is reported: it is
+// usually the one that was intended.
+const checkChoices = (choices: Schema[], value: unknown, schemas: Record<string, Schema>, at: string): string[] => {
+  const where = at || 'response';
+  const mismatch = (issue: string) => issue.startsWith(`${where}: expected `);
+  const attempts: string[][] = [];
+  for (const choice of choices) {
+    const attempt: string[] = [];
+    check(choice, value, schemas, at, attempt);
+    if (attempt.length === 0) return [];
+    attempts.push(attempt);
+  }
+  const candidates = attempts.filter(attempt => !attempt.some(mismatch));
+  if (candidates.length > 0) return candidates.reduce((best, attempt) => attempt.length < best.length ? attempt : best);
+  const expected = attempts.map(attempt => (attempt.find(mismatch) || '').slice(`${where}: expected `.length).replace(/, got .*$/, ''));
+  return [`${where}: expected ${expected.join(' or ')}, got ${describeValue(value)}`];
+};
+
+// Every way `value` differs from `schema`, e.g. "events[2].ts: expected string, got number 3"
+export const validate = (schema: Schema, value: unknown, schemas: Record<string, Schema>): string[] => {
+  const issues: string[] = [];
+  check(schema, value, schemas, '', issues);
+  return issues;
+};
+
+// Parses and validates a successful response. Rejects with
+// ResponseSchemaError when the body is not what the schema promises.
+export const readResponse = async <T>(request: ApiRequest, res: Response, schemas: Record<string, Schema>): Promise<T> => {
+  if (!request.response) return undefined as T;
+
+  const operation = `${request.method} ${request.path}`;
+  const options: ApiErrorOptions = { status: res.status, requestId: res.headers.get('X-Request-ID') || undefined };
+  const text = await res.text();
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch (e) {
+    throw new ResponseSchemaError(operation, [text.trim() ? 'body is not JSON' : 'body is empty'], { ...options, cause: e });
+  }
+
+  const issues = validate(request.response, data, schemas);
+  if (issues.length > 0) throw new ResponseSchemaError(operation, issues, options);
+  return data as T;
+};
@@ -0,0 +1,78 @@
+// --- PKCE for the OAuth login redirect ---
+//
+// Before leaving for the provider we create a code verifier and a random
+// `state`, keep both in localStorage, and send the S256 challenge of the
+// verifier to the backend. The callback must come back with the same state
+// within PKCE_ATTEMPT_TTL_MS; the attempt is cleared as soon as the callback
+// reads it, so a login URL can't be replayed.
+
+const ATTEMPT_KEY = 'pkce_attempt';
+
+// Roughly how long providers keep an authorization request open
+export const PKCE_ATTEMPT_TTL_MS = 10 * 60_000;
+
+interface LoginAttempt {
+  verifier: string;
+  state: string;
+  provider: string;
+  createdAt: number;
+}
+
+export interface LoginChallenge {
+  codeChallenge: string;
+  codeChallengeMethod: 'S256';
+  state: string;
+}
+
+export type CallbackResult =
+  | { ok: true; code: string; verifier: string }
+  | { ok: false; error: string };
+
+const base64Url = (bytes: Uint8Array) =>
+  btoa(String.fromCharCode(...bytes)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+
+const randomString = (byteLength: number) => base64Url(crypto.getRandomValues(new Uint8Array(byteLength)));
+
+export const createCodeChallenge = async (verifier: string) => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(verifier));
+  return base64Url(new Uint8Array(digest));
+};
+
+// Starts a login attempt, replacing any earlier unfinished one
+export const beginLoginAttempt = async (provider: string): Promise<LoginChallenge> => {
+  const attempt: LoginAttempt = {
+    verifier: randomString(32), // 43 characters, the RFC 7636 minimum
+    state: randomString(16),
+    provider,
+    createdAt: Date.now(),
+  };
+  localStorage.setItem(ATTEMPT_KEY, JSON.stringify(attempt));
+  return { codeChallenge: await createCodeChallenge(attempt.verifier), codeChallengeMethod: 'S256', state: attempt.state };
+};
+
+export const clearLoginAttempt = () => localStorage.removeItem(ATTEMPT_KEY);
+
+const takeLoginAttempt = (): LoginAttempt | null => {
+  const raw = localStorage.getItem(ATTEMPT_KEY);
+  clearLoginAttempt();
+  try {
+    const attempt = JSON.parse(raw || 'null');
+    return attempt && typeof attempt.verifier === 'string' && typeof attempt.state === 'string' ? attempt : null;
+  } catch (e) {
+    return null;
+  }
+};
+
+// Checks the provider's redirect against the stored attempt, which is used up either way
+export const completeLoginAttempt = (params: URLSearchParams, now = Date.now()): CallbackResult => {
+  const attempt = takeLoginAttempt();
+  const error = params.get('error');
+  if (error) return { ok: false, error: params.get('error_description') || error };
+
+  const code = params.get('code');
+  if (!code) return { ok: false, error: 'The provider did not return an authorization code.' };
+  if (!attempt) return { ok: false, error: 'No login in progress in this browser. It may have already been used, or was started in another browser. Please sign in again.' };
+  if (params.get('state') !== attempt.state) return { ok: false, error: 'Login state did not match. The request may have been tampered with, or a newer login was started. Please sign in again.' };
+  if (now - attempt.createdAt > PKCE_ATTEMPT_TTL_MS) return { ok: false, error: 'This login attempt expired. Please sign in again.' };
+  return { ok: true, code, verifier: attempt.verifier };
+};
@@ -0,0 +1,49 @@
+// --- Session expiry ---
+//
+// When a request comes back 401 and the session can't be refreshed, the app
+// sends the user to /login. What they were doing survives the round trip in
+// sessionStorage: the route they were on, and any unsent prompt from a page
+// that registered it with useSessionDraft.
+
+// Fired on window when the session expired and could not be refreshed
+export const SESSION_EXPIRED_EVENT = 'heidi:session-expired';
+
+const RETURN_TO_KEY = 'HEIDI_RETURN_TO';
+const DRAFT_KEY_PREFIX = 'HEIDI_DRAFT:';
+
+const draftSources = new Map<string, () => string>();
+
+// Registers a live value to save on expiry; returns the unregister function
+export const registerDraft = (key: string, read: () => string) => {
+  draftSources.set(key, read);
+  return () => {
+    if (draftSources.get(key) === read) draftSources.delete(key);
+  };
+};
+
+// Saved draft for a page, removed once read
+export const takeDraft = (key: string): string | null => {
+  const storageKey = DRAFT_KEY_PREFIX + key;
+  const draft = sessionStorage.getItem(storageKey);
+  sessionStorage.removeItem(storageKey);
+  return draft;
+};
+
+export const expireSession = () => {
+  draftSources.forEach((read, key) => {
+    const draft = read();
+    if (draft.trim()) sessionStorage.setItem(DRAFT_KEY_PREFIX + key, draft);
+  });
+  const { pathname, search } = window.location;
+  if (pathname !== '/login') sessionStorage.setItem(RETURN_TO_KEY, pathname + search);
+  window.dispatchEvent(new CustomEvent(SESSION_EXPIRED_EVENT));
+};
+
+// Where to go after signing in again, removed once read
+export const takeReturnTo = (): { pathname: string; search: string } | null => {
+  const saved = sessionStorage.getItem(RETURN_TO_KEY);
+  sessionStorage.removeItem(RETURN_TO_KEY);
+  if (!saved || !saved.startsWith('/')) return null;
+  const url = new URL(saved, window.location.origin);
+  return { pathname: url.pathname, search: url.search };
+};
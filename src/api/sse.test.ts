@@ -0,0 +1,53 @@
+import { describe, it, expect, vi } from 'vitest';
+import { createSSEParser, toRunEvent } from './sse';
+
+describe('createSSEParser', () => {
+  it('dispatches named events with multi-line data', () => {
+    const parser = createSSEParser();
+    expect(parser.feed('event: status\ndata: a\ndata: b\nid: 7\n\n')).toEqual([{ event: 'status', data: 'a\nb', id: '7' }]);
+  });
+
+  it('handles lines split across chunks, including \\r\\n', () => {
+    const parser = createSSEParser();
+    expect(parser.feed('data: one\r')).toEqual([]);
+    expect(parser.feed('\n\r\ndata: tw')).toEqual([{ event: 'message', data: 'one', id: undefined }]);
+    expect(parser.feed('o\n\n')).toEqual([{ event: 'message', data: 'two', id: undefined }]);
+  });
+
+  it('ignores comments and blocks without data', () => {
+    const parser = createSSEParser();
+    expect(parser.feed(': keep-alive\n\nevent: ping\n\n')).toEqual([]);
+  });
+
+  it('applies retry as soon as it is read, even without data', () => {
+    const onRetry = vi.fn();
+    const parser = createSSEParser({ onRetry });
+    parser.feed('retry: 2500\n');
+    expect(onRetry).toHaveBeenCalledWith(2500);
+    parser.feed('retry: soon\n\n');
+    expect(onRetry).toHaveBeenCalledTimes(1);
+  });
+
+  it('reports the last event id from a block without data', () => {
+    const onLastEventId = vi.fn();
+    const parser = createSSEParser({ onLastEventId });
+    expect(parser.feed('id: 42\n\n')).toEqual([]);
+    expect(onLastEventId).toHaveBeenCalledWith('42');
+    parser.feed('id: a\0b\n\ndata: x\n\n');
+    expect(onLastEventId).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('toRunEvent', () => {
+  it('takes the event name as the type of a payload without one', () => {
+    expect(toRunEvent({ event: 'plan', data: '{"message":"Steps"}' })).toMatchObject({ type: 'plan', message: 'Steps' });
+  });
+
+  it('keeps plain text as the message', () => {
+    expect(toRunEvent({ event: 'message', data: 'hello' })).toMatchObject({ type: 'log', message: 'hello' });
+  });
+
+  it('drops empty payloads', () => {
+    expect(toRunEvent({ event: 'message', data: '  ' })).toBeNull();
+  });
+});
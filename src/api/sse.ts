@@ -0,0 +1,300 @@
+import { RunEvent } from '../types';
+import { ForbiddenError, UnauthorizedError } from './errors';
+
+// A single dispatched Server-Sent Event
+export interface SSEMessage {
+  event: string;
+  data: string;
+  id?: string; // Only set when this event carried its own id field
+}
+
+// Fields that apply to the connection rather than to one event. They take
+// effect even in a block without data, which is never dispatched.
+export interface SSEParserHooks {
+  onLastEventId?: (id: string) => void; // At the end of a block with an id field
+  onRetry?: (delayMs: number) => void; // As soon as a valid retry field is read
+}
+
+// Incremental parser following the WHATWG EventSource parsing rules:
+// named events, multi-line data joined with '\n', id and retry fields, comments ignored.
+export const createSSEParser = (hooks: SSEParserHooks = {}) => {
+  let buffer = '';
+  let eventName = '';
+  let dataLines: string[] = [];
+  let eventId: string | undefined;
+  let skipLeadingLF = false;
+
+  const dispatch = (out: SSEMessage[]) => {
+    if (eventId !== undefined) hooks.onLastEventId?.(eventId);
+    if (dataLines.length > 0) {
+      out.push({
+        event: eventName || 'message',
+        data: dataLines.join('\n'),
+        id: eventId,
+      });
+    }
+    eventName = '';
+    eventId = undefined;
+    dataLines = [];
+  };
+
+  const processLine = (line: string, out: SSEMessage[]) => {
+    if (line === '') {
+      dispatch(out);
+      return;
+    }
+    if (line.startsWith(':')) return; // Comment / keep-alive
+
+    const colon = line.indexOf(':');
+    const field = colon === -1 ? line : line.slice(0, colon);
+    let value = colon === -1 ? '' : line.slice(colon + 1);
+    if (value.startsWith(' ')) value = value.slice(1);
+
+    switch (field) {
+      case 'event':
+        eventName = value;
+        break;
+      case 'data':
+        dataLines.push(value);
+        break;
+      case 'id':
+        // Ids containing NULL are ignored per spec
+        if (!value.includes('\0')) eventId = value;
+        break;
+      case 'retry':
+        if (/^\d+$/.test(value)) hooks.onRetry?.(parseInt(value, 10));
+        break;
+    }
+  };
+
+  return {
+    feed: (chunk: string): SSEMessage[] => {
+      const out: SSEMessage[] = [];
+      // A chunk ending in \r may be the first half of a \r\n split across reads
+      if (skipLeadingLF && chunk.startsWith('\n')) chunk = chunk.slice(1);
+      skipLeadingLF = chunk.endsWith('\r');
+      buffer += chunk;
+      // Lines may end with \r\n, \n or \r
+      const lines = buffer.split(/\r\n|\n|\r/);
+      buffer = lines.pop() || '';
+      for (const line of lines) processLine(line, out);
+      return out;
+    },
+  };
+};
+
+export interface SSEClientOptions {
+  headers?: Record<string, string>;
+  credentials?: RequestCredentials;
+  // Consecutive failed attempts before giving up
+  maxRetries?: number;
+  initialDelayMs?: number;
+  maxDelayMs?: number;
+  // Called when the server ends the stream cleanly; return false to stop reconnecting
+  shouldReconnect?: () => boolean;
+  onOpen?: () => void;
+  onMessage: (msg: SSEMessage) => void;
+  onRetry?: (attempt: number, delayMs: number, error?: unknown) => void;
+  // Called on a 401; resolve true once the session is refreshed to reconnect
+  onUnauthorized?: () => Promise<boolean>;
+  onClose?: () => void;
+  onError?: (error: Error) => void;
+}
+
+export interface SSEConnection {
+  close: () => void;
+  readonly lastEventId: string | undefined;
+}
+
+// Ends the stream without reconnecting; `error` is what onError receives
+class FatalStreamError extends Error {
+  readonly error: Error;
+
+  constructor(error: Error) {
+    super(error.message);
+    this.error = error;
+  }
+}
+
+// fetch-based EventSource replacement (EventSource cannot send custom headers).
+// Reconnects with Last-Event-ID and exponential backoff, honouring server retry hints.
+export const openEventStream = (url: string, options: SSEClientOptions): SSEConnection => {
+  const {
+    maxRetries = 5,
+    initialDelayMs = 1000,
+    maxDelayMs = 30000,
+  } = options;
+
+  let controller: AbortController | null = null;
+  let closed = false;
+  let lastEventId: string | undefined;
+  let serverRetryMs: number | undefined;
+  let attempt = 0;
+  // One refresh per 401; reset once the stream delivers events again
+  let refreshedSession = false;
+  let retryTimer: ReturnType<typeof setTimeout> | null = null;
+
+  const connect = async () => {
+    controller = new AbortController();
+    const headers: Record<string, string> = {
+      'Accept': 'text/event-stream',
+      ...options.headers,
+    };
+    if (lastEventId !== undefined) {
+      headers['Last-Event-ID'] = lastEventId;
+    }
+
+    try {
+      const response = await fetch(url, {
+        headers,
+        signal: controller.signal,
+        credentials: options.credentials ?? 'include',
+      });
+
+      if (response.status === 401) {
+        if (!refreshedSession && options.onUnauthorized && await options.onUnauthorized()) {
+          refreshedSession = true;
+          if (!closed) connect();
+          return;
+        }
+        throw new FatalStreamError(new UnauthorizedError('Unauthorized', { status: 401 }));
+      }
+      if (response.status === 403) {
+        throw new FatalStreamError(new ForbiddenError(undefined, { status: 403 }));
+      }
+      if (response.status >= 400 && response.status < 500) {
+        throw new FatalStreamError(new Error(`Stream connection failed: ${response.status} ${response.statusText}`));
+      }
+      if (!response.ok) {
+        throw new Error(`Stream connection failed: ${response.statusText}`);
+      }
+      if (!response.body) throw new FatalStreamError(new Error('No response body'));
+
+      options.onOpen?.();
+
+      const parser = createSSEParser({
+        onLastEventId: id => { lastEventId = id; },
+        onRetry: delayMs => { serverRetryMs = delayMs; },
+      });
+      const reader = response.body.getReader();
+      const decoder = new TextDecoder();
+
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        for (const msg of parser.feed(decoder.decode(value, { stream: true }))) {
+          if (closed) return;
+          // Only a stream that delivers events counts as recovered; one that
+          // opens and drops straight away keeps backing off
+          attempt = 0;
+          refreshedSession = false;
+          options.onMessage(msg);
+        }
+      }
+
+      if (closed) return;
+      if (options.shouldReconnect && !options.shouldReconnect()) {
+        closed = true;
+        options.onClose?.();
+        return;
+      }
+      scheduleReconnect();
+    } catch (e: any) {
+      if (closed || e.name === 'AbortError') return;
+      if (e instanceof FatalStreamError) {
+        closed = true;
+        options.onError?.(e.error);
+        return;
+      }
+      scheduleReconnect(e);
+    }
+  };
+
+  const scheduleReconnect = (error?: unknown) => {
+    attempt += 1;
+    if (attempt > maxRetries) {
+      closed = true;
+      options.onError?.(error instanceof Error ? error : new Error('Stream disconnected'));
+      return;
+    }
+    const base = serverRetryMs ?? initialDelayMs;
+    const delay = Math.min(base * 2 ** (attempt - 1), maxDelayMs);
+    options.onRetry?.(attempt, delay, error);
+    retryTimer = setTimeout(() => {
+      retryTimer = null;
+      if (!closed) connect();
+    }, delay);
+  };
+
+  connect();
+
+  return {
+    close: () => {
+      closed = true;
+      if (retryTimer) clearTimeout(retryTimer);
+      retryTimer = null;
+      controller?.abort();
+      controller = null;
+    },
+    get lastEventId() {
+      return lastEventId;
+    },
+  };
+};
+
+// Converts a raw SSE message into a RunEvent. Named events without an explicit
+// `type` in their payload take the event name; non-JSON data becomes the message.
+export const toRunEvent = (msg: SSEMessage): RunEvent | null => {
+  if (!msg.data.trim()) return null;
+  const fallbackType = msg.event === 'message' ? 'log' : msg.event;
+  try {
+    const parsed = JSON.parse(msg.data);
+    if (parsed && typeof parsed === 'object' && !Array.isArray(parsed)) {
+      return {
+        ...parsed,
+        type: parsed.type || fallbackType,
+        message: parsed.message ?? '',
+        ts: parsed.ts || new Date().toISOString(),
+      };
+    }
+  } catch {
+    // Plain text payload
+  }
+  return { type: fallbackType, message: msg.data, ts: new Date().toISOString() };
+};
+
+export interface RunStreamHandlers {
+  onEvent: (event: RunEvent) => void;
+  onOpen?: () => void;
+  onReconnecting?: (attempt: number, delayMs: number) => void;
+  // Stream ended and should not be resumed
+  onClose?: () => void;
+  // Gave up reconnecting, or the server refused the stream (an
+  // UnauthorizedError once the session could not be refreshed)
+  onError?: (error: Error) => void;
+  onUnauthorized?: () => Promise<boolean>;
+  shouldReconnect?: () => boolean;
+}
+
+// Typed run event stream on top of openEventStream. Events replayed after a
+// resume are dropped by id so consumers never see duplicates.
+export const openRunStream = (url: string, headers: Record<string, string>, handlers: RunStreamHandlers): SSEConnection => {
+  const seenIds = new Set<string>();
+  return openEventStream(url, {
+    headers,
+    shouldReconnect: handlers.shouldReconnect,
+    onOpen: handlers.onOpen,
+    onRetry: (attempt, delay) => handlers.onReconnecting?.(attempt, delay),
+    onUnauthorized: handlers.onUnauthorized,
+    onClose: handlers.onClose,
+    onError: handlers.onError,
+    onMessage: (msg) => {
+      if (msg.id) {
+        if (seenIds.has(msg.id)) return;
+        seenIds.add(msg.id);
+      }
+      const event = toRunEvent(msg);
+      if (event) handlers.onEvent(event);
+    },
+  });
+};
@@ -0,0 +1,139 @@
+import React, { useState } from 'react';
+import { useGeminiChats } from '../hooks/useGeminiChats';
+import { toast, confirmToast } from '../hooks/useToasts';
+import { MessageSquare, Pencil, Trash2, Check, X, Plus } from 'lucide-react';
+
+interface GeminiChatListProps {
+  selectedChatId: string | null;
+  onSelectChat: (chatId: string | null) => void;
+}
+
+const formatUpdated = (ts: number) => {
+  const date = new Date(ts);
+  const today = new Date();
+  if (date.toDateString() === today.toDateString()) {
+    return date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+  }
+  return date.toLocaleDateString([], { month: 'short', day: 'numeric' });
+};
+
+const GeminiChatList: React.FC<GeminiChatListProps> = ({ selectedChatId, onSelectChat }) => {
+  const { chats, loading, renameChat, deleteChat } = useGeminiChats();
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftTitle, setDraftTitle] = useState('');
+
+  const startRename = (id: string, title: string) => {
+    setEditingId(id);
+    setDraftTitle(title);
+  };
+
+  const commitRename = async () => {
+    const id = editingId;
+    const title = draftTitle.trim();
+    setEditingId(null);
+    if (id && title) {
+      try {
+        await renameChat(id, title);
+      } catch (e) {
+        toast.error('Could not rename conversation', e);
+      }
+    }
+  };
+
+  const handleDelete = async (id: string, title: string) => {
+    if (!await confirmToast(`Delete "${title}"?`, { message: 'The conversation and its attachments will be removed.', confirmLabel: 'Delete', danger: true })) return;
+    try {
+      await deleteChat(id);
+      if (selectedChatId === id) onSelectChat(null);
+    } catch (e) {
+      toast.error('Could not delete conversation', e);
+    }
+  };
+
+  return (
+    <div className="flex-1 overflow-y-auto px-3 pb-4 space-y-1 custom-scrollbar">
+      <button
+        onClick={() => onSelectChat(null)}
+        className={`w-full flex items-center gap-2 px-3 py-2 mb-2 rounded-xl text-xs font-semibold border transition-colors ${
+          selectedChatId === null
+            ? 'bg-indigo-500/10 border-indigo-500/20 text-indigo-200'
+            : 'border-dashed border-white/10 text-slate-400 hover:text-white hover:bg-white/5'
+        }`}
+      >
+        <Plus size={14} />
+        New conversation
+      </button>
+
+      {chats.map(chat => (
+        <div
+          key={chat.id}
+          onClick={() => editingId !== chat.id && onSelectChat(chat.id)}
+          className={`w-full text-left px-3 py-2.5 rounded-xl transition-all duration-200 border group relative cursor-pointer ${
+            selectedChatId === chat.id
+              ? 'bg-white/[0.08] border-white/10 text-white shadow-md'
+              : 'border-transparent text-slate-400 hover:bg-white/5 hover:text-slate-200 hover:border-white/5'
+          }`}
+        >
+          {editingId === chat.id ? (
+            <form
+              onSubmit={(e) => { e.preventDefault(); commitRename(); }}
+              onClick={(e) => e.stopPropagation()}
+              className="flex items-center gap-1"
+            >
+              <input
+                autoFocus
+                value={draftTitle}
+                onChange={(e) => setDraftTitle(e.target.value)}
+                onKeyDown={(e) => { if (e.key === 'Escape') setEditingId(null); }}
+                className="flex-1 min-w-0 bg-black/40 border border-white/10 rounded-md px-2 py-1 text-xs text-white focus:outline-none focus:border-indigo-500/50"
+              />
+              <button type="submit" className="p-1 text-emerald-400 hover:bg-white/10 rounded" title="Save">
+                <Check size={12} />
+              </button>
+              <button type="button" onClick={() => setEditingId(null)} className="p-1 text-slate-400 hover:bg-white/10 rounded" title="Cancel">
+                <X size={12} />
+              </button>
+            </form>
+          ) : (
+            <>
+              <div className="flex items-center gap-2 pr-12">
+                <MessageSquare size={12} className="shrink-0 opacity-50" />
+                <span className="text-xs font-medium truncate">{chat.title}</span>
+              </div>
+              <div className="text-[10px] text-slate-500 mt-1 pl-5 font-mono">
+                {formatUpdated(chat.updatedAt)} · {chat.messages.length} msgs
+              </div>
+              <div className={`absolute right-2 top-1/2 -translate-y-1/2 flex items-center gap-0.5 transition-opacity ${selectedChatId === chat.id ? 'opacity-100' : 'opacity-0 group-hover:opacity-100'}`}>
+                <button
+                  onClick={(e) => { e.stopPropagation(); startRename(chat.id, chat.title); }}
+                  className="p-1.5 text-slate-500 hover:text-white hover:bg-white/10 rounded-full transition-colors"
+                  title="Rename"
+                >
+                  <Pencil size={12} />
+                </button>
+                <button
+                  onClick={(e) => { e.stopPropagation(); handleDelete(chat.id, chat.title); }}
+                  className="p-1.5 text-slate-500 hover:text-red-400 hover:bg-red-500/10 rounded-full transition-colors"
+                  title="Delete"
+                >
+                  <Trash2 size={12} />
+                </button>
+              </div>
+            </>
+          )}
+        </div>
+      ))}
+
+      {chats.length === 0 && !loading && (
+        <div className="flex flex-col items-center justify-center py-10 text-slate-600 gap-2">
+          <div className="w-12 h-12 rounded-full bg-white/5 flex items-center justify-center">
+            <MessageSquare size={20} className="opacity-20" />
+          </div>
+          <span className="text-xs">No saved conversations</span>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default GeminiChatList;
@@ -0,0 +1,60 @@
+import React from 'react';
+import { Terminal, ShieldAlert } from 'lucide-react';
+import { HeidiCall } from '../api/geminiTools';
+
+interface HeidiCallConfirmProps {
+  call: HeidiCall;
+  onAnswer: (approved: boolean) => void;
+}
+
+const CALL_TITLES: Record<string, string> = {
+  startRun: 'Start a Heidi run',
+  startLoop: 'Start a Heidi loop',
+  cancelRun: 'Cancel a Heidi run',
+};
+
+const formatValue = (value: unknown) => typeof value === 'string' ? value : JSON.stringify(value);
+
+// A Heidi call the model wants to make, held until the user runs or declines it
+const HeidiCallConfirm: React.FC<HeidiCallConfirmProps> = ({ call, onAnswer }) => {
+  const args = Object.entries(call.args || {}).filter(([, value]) => value !== undefined && value !== null && value !== '');
+
+  return (
+    <div className="rounded-lg border border-amber-500/30 bg-black/20 px-3 py-2 text-xs">
+      <div className="flex items-center gap-2">
+        <ShieldAlert size={14} className="text-amber-400 shrink-0" />
+        <Terminal size={12} className="text-slate-500 shrink-0" />
+        <span className="font-medium text-slate-200">{CALL_TITLES[call.name] || call.name}</span>
+        <span className="font-mono text-slate-500">{call.name}</span>
+      </div>
+      {args.length > 0 ? (
+        <dl className="mt-2 grid grid-cols-[auto_1fr] gap-x-3 gap-y-1">
+          {args.map(([key, value]) => (
+            <React.Fragment key={key}>
+              <dt className="font-mono text-slate-500">{key}</dt>
+              <dd className={`font-mono whitespace-pre-wrap break-all ${key === 'workdir' ? 'text-amber-300' : 'text-slate-300'}`}>{formatValue(value)}</dd>
+            </React.Fragment>
+          ))}
+        </dl>
+      ) : (
+        <div className="mt-1 text-slate-500">No arguments</div>
+      )}
+      <div className="mt-2 flex justify-end gap-2">
+        <button
+          onClick={() => onAnswer(false)}
+          className="px-3 py-1 rounded-md border border-white/10 text-slate-300 hover:bg-white/5"
+        >
+          Decline
+        </button>
+        <button
+          onClick={() => onAnswer(true)}
+          className="px-3 py-1 rounded-md bg-indigo-600 text-white hover:bg-indigo-500"
+        >
+          Run
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default HeidiCallConfirm;
@@ -0,0 +1,96 @@
+import React, { useEffect, useState } from 'react';
+import { api } from '../api/heidi';
+import { navigateTo, routeToPath } from '../hooks/useRoute';
+import { CheckCircle, XCircle, Loader2, ExternalLink, Terminal } from 'lucide-react';
+
+interface HeidiRunCardProps {
+  runId: string;
+}
+
+const TERMINAL_STATUSES = ['completed', 'failed', 'cancelled'];
+
+// Live status of a Heidi run started from Gemini chat, with a link to the full run
+const HeidiRunCard: React.FC<HeidiRunCardProps> = ({ runId }) => {
+  const [status, setStatus] = useState<string>('');
+  const [task, setTask] = useState<string>('');
+  const [lastEvent, setLastEvent] = useState<string>('');
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    let finished = false;
+    let stream: { close: () => void } | null = null;
+
+    const refresh = async () => {
+      try {
+        const run = await api.getRun(runId);
+        if (cancelled) return;
+        setStatus(run.meta.status);
+        setTask(run.meta.task || run.meta.prompt || '');
+        const last = run.events[run.events.length - 1];
+        if (last) setLastEvent(last.message);
+        finished = TERMINAL_STATUSES.includes((run.meta.status || '').toLowerCase());
+      } catch (e: any) {
+        if (!cancelled) setError(e.message);
+      }
+    };
+
+    refresh().then(() => {
+      if (cancelled || finished) return;
+      stream = api.streamRun(runId, {
+        onEvent: (event) => {
+          if (event.type === 'status') {
+            setStatus(event.message);
+            if (TERMINAL_STATUSES.includes((event.message || '').toLowerCase())) finished = true;
+          } else if (event.message) {
+            setLastEvent(event.message);
+          }
+        },
+        shouldReconnect: () => !finished,
+        // Pick up the final status and result once the stream ends
+        onClose: () => { stream = null; refresh(); },
+        onError: () => { stream = null; refresh(); },
+      });
+    });
+
+    return () => {
+      cancelled = true;
+      stream?.close();
+    };
+  }, [runId]);
+
+  const s = status.toLowerCase();
+  const isDone = TERMINAL_STATUSES.includes(s);
+  const openRun = (e: React.MouseEvent) => {
+    e.preventDefault();
+    navigateTo({ name: 'chat', runId });
+  };
+
+  return (
+    <div className="rounded-lg border border-white/10 bg-black/20 px-3 py-2 text-xs">
+      <div className="flex items-center gap-2">
+        {s === 'completed' ? <CheckCircle size={14} className="text-emerald-400 shrink-0" />
+          : s === 'failed' || s === 'cancelled' ? <XCircle size={14} className="text-red-400 shrink-0" />
+          : <Loader2 size={14} className="text-purple-400 animate-spin shrink-0" />}
+        <Terminal size={12} className="text-slate-500 shrink-0" />
+        <span className="font-mono text-slate-300 truncate">{runId.slice(0, 8)}</span>
+        <span className={`uppercase tracking-wider text-[10px] font-bold ${isDone ? 'text-slate-400' : 'text-purple-300'}`}>{status || 'starting'}</span>
+        <a
+          href={routeToPath({ name: 'chat', runId })}
+          onClick={openRun}
+          className="ml-auto flex items-center gap-1 text-indigo-300 hover:text-indigo-200"
+        >
+          Open run <ExternalLink size={11} />
+        </a>
+      </div>
+      {task && <div className="mt-1 text-slate-400 truncate">{task}</div>}
+      {error ? (
+        <div className="mt-1 text-red-400 truncate">{error}</div>
+      ) : lastEvent && !isDone && (
+        <div className="mt-1 text-slate-500 truncate font-mono">{lastEvent}</div>
+      )}
+    </div>
+  );
+};
+
+export default HeidiRunCard;
@@ -0,0 +1,240 @@
+import React, { useState, useEffect } from 'react';
+import { RunEvent, RunStatus } from '../types';
+import RunEventView, { isPositiveVerdict } from './RunEventView';
+import { ChevronRight, Map, Terminal, Eye, Shield, Clock, RotateCcw, CheckCircle, XCircle, Loader2, Circle } from 'lucide-react';
+
+export const PHASES: string[] = [RunStatus.PLANNING, RunStatus.EXECUTING, RunStatus.REVIEWING, RunStatus.AUDITING];
+
+export const PHASE_META: Record<string, { label: string; icon: React.ReactNode; color: string }> = {
+  [RunStatus.PLANNING]: { label: 'Planning', icon: <Map size={12} />, color: 'text-sky-300' },
+  [RunStatus.EXECUTING]: { label: 'Executing', icon: <Terminal size={12} />, color: 'text-amber-300' },
+  [RunStatus.REVIEWING]: { label: 'Reviewing', icon: <Eye size={12} />, color: 'text-pink-300' },
+  [RunStatus.AUDITING]: { label: 'Auditing', icon: <Shield size={12} />, color: 'text-orange-300' },
+};
+
+export interface PhaseGroup {
+  phase: string | null; // null for events before the first phase status
+  events: RunEvent[];
+}
+
+export interface LoopIteration {
+  index: number;
+  phases: PhaseGroup[];
+  startedAt?: number;
+  endedAt?: number;
+  // Failing review/audit verdict that sent the loop into another iteration
+  retryVerdict?: RunEvent;
+  outcome?: string; // Terminal status reached inside this iteration
+}
+
+const phaseOf = (event: RunEvent): string | null => {
+  if (event.type !== 'status') return null;
+  const s = (event.message || '').toLowerCase();
+  return PHASES.find(p => s.includes(p)) || null;
+};
+
+const tsOf = (event: RunEvent) => {
+  const t = Date.parse(event.ts);
+  return isNaN(t) ? undefined : t;
+};
+
+// Groups a loop transcript into iterations. A new iteration starts when the
+// backend says so (details.iteration) or when the phase moves backwards,
+// e.g. reviewing -> planning after a rejected review.
+export const buildLoopIterations = (events: RunEvent[]): LoopIteration[] => {
+  const iterations: LoopIteration[] = [];
+  let current: LoopIteration | null = null;
+  let phaseIndex = -1;
+  let explicitIteration: number | undefined;
+
+  const startIteration = (): LoopIteration => {
+    const iter: LoopIteration = { index: iterations.length, phases: [] };
+    iterations.push(iter);
+    phaseIndex = -1;
+    return iter;
+  };
+
+  for (const event of events) {
+    if (event.type === 'user_prompt') continue;
+
+    const declared = event.details?.iteration ?? event.details?.attempt;
+    const phase = phaseOf(event);
+    const nextIndex = phase ? PHASES.indexOf(phase) : -1;
+
+    if (
+      !current ||
+      (typeof declared === 'number' && explicitIteration !== undefined && declared !== explicitIteration) ||
+      (phase && nextIndex < phaseIndex)
+    ) {
+      current = startIteration();
+    }
+    if (typeof declared === 'number') explicitIteration = declared;
+
+    const iter: LoopIteration = current;
+    const t = tsOf(event);
+    if (t !== undefined) {
+      iter.startedAt = iter.startedAt === undefined ? t : Math.min(iter.startedAt, t);
+      iter.endedAt = iter.endedAt === undefined ? t : Math.max(iter.endedAt, t);
+    }
+
+    if (phase) {
+      phaseIndex = nextIndex;
+      iter.phases.push({ phase, events: [] });
+      continue;
+    }
+
+    if (event.type === 'status') {
+      const s = (event.message || '').toLowerCase();
+      if ([RunStatus.COMPLETED, RunStatus.FAILED, RunStatus.CANCELLED].includes(s as RunStatus)) {
+        iter.outcome = s;
+      }
+    }
+
+    if (iter.phases.length === 0) iter.phases.push({ phase: null, events: [] });
+    iter.phases[iter.phases.length - 1].events.push(event);
+
+    if ((event.type === 'review' || event.type === 'audit') && event.details) {
+      const verdict = event.details.verdict ?? event.details.decision ?? event.details.result ?? event.details.pass;
+      // The latest verdict in the iteration decides whether it was rejected
+      if (verdict !== undefined) iter.retryVerdict = isPositiveVerdict(verdict) ? undefined : event;
+    }
+  }
+
+  // Only a rejection that was followed by another iteration triggered a retry
+  if (iterations.length > 0) iterations[iterations.length - 1].retryVerdict = undefined;
+
+  return iterations;
+};
+
+export const formatDuration = (ms: number) => {
+  const seconds = Math.max(0, Math.round(ms / 1000));
+  if (seconds < 60) return `${seconds}s`;
+  const minutes = Math.floor(seconds / 60);
+  if (minutes < 60) return `${minutes}m ${seconds % 60}s`;
+  return `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+};
+
+interface LoopTimelineProps {
+  events: RunEvent[];
+  maxRetries: number;
+  isActive: boolean;
+}
+
+const LoopTimeline: React.FC<LoopTimelineProps> = ({ events, maxRetries, isActive }) => {
+  const iterations = buildLoopIterations(events);
+  const [expanded, setExpanded] = useState<Record<number, boolean>>({});
+  const [now, setNow] = useState(Date.now());
+
+  // Tick the running iteration's duration
+  useEffect(() => {
+    if (!isActive) return;
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [isActive]);
+
+  if (iterations.length === 0) return null;
+
+  const lastIndex = iterations.length - 1;
+  // Finished iterations start collapsed; the latest one stays open
+  const isExpanded = (i: number) => expanded[i] ?? i === lastIndex;
+
+  return (
+    <div className="space-y-4">
+      {iterations.map((iter, i) => {
+        const running = isActive && i === lastIndex;
+        const open = isExpanded(i);
+        const retryNumber = iter.index;
+        const end = running ? now : iter.endedAt;
+        const duration = iter.startedAt !== undefined && end !== undefined ? end - iter.startedAt : undefined;
+        const eventCount = iter.phases.reduce((n, p) => n + p.events.length, 0);
+        const failed = iter.outcome === RunStatus.FAILED || iter.outcome === RunStatus.CANCELLED;
+
+        return (
+          <div key={i} className={`rounded-2xl border transition-colors animate-in fade-in slide-in-from-bottom-2 duration-300 ${
+            running ? 'border-purple-500/30 bg-purple-500/[0.03]' : 'border-white/5 bg-white/[0.02]'
+          }`}>
+            {/* Iteration Header */}
+            <button
+              onClick={() => setExpanded(prev => ({ ...prev, [i]: !open }))}
+              className="w-full flex flex-wrap items-center gap-x-3 gap-y-2 px-4 py-3 text-left hover:bg-white/[0.03] rounded-2xl transition-colors"
+            >
+              <ChevronRight size={14} className={`text-slate-500 transition-transform shrink-0 ${open ? 'rotate-90' : ''}`} />
+              <div className="shrink-0">
+                {running ? <Loader2 size={14} className="text-purple-400 animate-spin" />
+                  : iter.outcome === RunStatus.COMPLETED ? <CheckCircle size={14} className="text-emerald-400" />
+                  : failed || iter.retryVerdict ? <XCircle size={14} className="text-red-400" />
+                  : <Circle size={14} className="text-slate-500" />}
+              </div>
+              <span className="text-xs font-bold text-white uppercase tracking-wider">Iteration {i + 1}</span>
+              {retryNumber > 0 && (
+                <span className={`flex items-center gap-1 text-[10px] font-mono px-1.5 py-0.5 rounded border ${
+                  retryNumber >= maxRetries ? 'bg-red-500/10 border-red-500/20 text-red-300' : 'bg-white/5 border-white/10 text-slate-400'
+                }`}>
+                  <RotateCcw size={10} />
+                  retry {retryNumber}/{maxRetries}
+                </span>
+              )}
+
+              {/* Phase chips */}
+              <div className="flex items-center gap-1">
+                {iter.phases.filter(p => p.phase).map((p, j) => {
+                  const meta = PHASE_META[p.phase!];
+                  return (
+                    <span key={j} className={`flex items-center ${meta.color} opacity-70`} title={meta.label}>
+                      {j > 0 && <span className="w-2 h-px bg-white/10 mx-0.5"></span>}
+                      {meta.icon}
+                    </span>
+                  );
+                })}
+              </div>
+
+              <span className="ml-auto flex items-center gap-3 text-[10px] font-mono text-slate-500">
+                <span>{eventCount} events</span>
+                {duration !== undefined && (
+                  <span className="flex items-center gap-1"><Clock size={10} />{formatDuration(duration)}</span>
+                )}
+              </span>
+            </button>
+
+            {/* Retry trigger */}
+            {iter.retryVerdict && (
+              <div className="mx-4 mb-3 flex items-start gap-2 text-xs text-red-200 bg-red-500/5 border border-red-500/10 rounded-lg px-3 py-2">
+                <RotateCcw size={12} className="text-red-400 mt-0.5 shrink-0" />
+                <span>
+                  <span className="font-bold uppercase text-[10px] tracking-wider text-red-300 mr-1.5">
+                    {iter.retryVerdict.type === 'audit' ? 'Auditor' : 'Reviewer'} requested retry
+                  </span>
+                  {iter.retryVerdict.message}
+                </span>
+              </div>
+            )}
+
+            {open && (
+              <div className="px-4 pb-4 space-y-5">
+                {iter.phases.map((group, j) => {
+                  const meta = group.phase ? PHASE_META[group.phase] : null;
+                  return (
+                    <div key={j} className="space-y-4">
+                      {meta && (
+                        <div className={`flex items-center gap-2 text-[10px] font-bold uppercase tracking-wider ${meta.color}`}>
+                          {meta.icon}
+                          {meta.label}
+                          <div className="h-px flex-1 bg-white/5"></div>
+                        </div>
+                      )}
+                      {group.events.map((event, k) =>
+                        (event.message || event.details !== undefined) ? <RunEventView key={k} event={event} /> : null
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default LoopTimeline;
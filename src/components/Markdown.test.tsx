@@ -0,0 +1,40 @@
+import React from 'react';
+import { renderToStaticMarkup } from 'react-dom/server';
+import { describe, it, expect } from 'vitest';
+import Markdown from './Markdown';
+
+const render = (content: string) => renderToStaticMarkup(<Markdown content={content} />);
+
+describe('Markdown', () => {
+  it('renders code spans delimited by equal backtick runs', () => {
+    expect(render('a `x` and ``y ` z`` b')).toContain('<code class="px-1.5 py-0.5 rounded bg-white/10 text-pink-200 font-mono text-[0.85em]">x</code>');
+    expect(render('``y ` z``')).toContain('>y ` z</code>');
+    expect(render('``a```')).not.toContain('<code');
+  });
+
+  it('keeps an unclosed backtick run as text', () => {
+    expect(render('a ``b` c')).toBe('<div class="break-words [&amp;&gt;*:first-child]:mt-0 [&amp;&gt;*:last-child]:mb-0 "><p class="my-2 leading-relaxed">a ``b` c</p></div>');
+  });
+
+  it('renders long backtick runs quickly', () => {
+    const started = Date.now();
+    render('`'.repeat(3000));
+    render('`a'.repeat(3000));
+    render(Array.from({ length: 80 }, (_, i) => '`'.repeat(i + 1) + 'x').join(''));
+    expect(Date.now() - started).toBeLessThan(2000);
+  });
+
+  it('caps how deep lists nest', () => {
+    const started = Date.now();
+    const html = render(Array.from({ length: 3000 }, (_, i) => `${'  '.repeat(i)}- item ${i}`).join('\n'));
+    expect(Date.now() - started).toBeLessThan(2000);
+    expect(html).toContain('item 2999');
+    expect(html.split('<ul').length - 1).toBeLessThanOrEqual(10);
+  });
+
+  it('caps how deep quotes nest', () => {
+    const html = render(`${'>'.repeat(3000)} deep`);
+    expect(html).toContain('deep');
+    expect(html.split('<blockquote').length - 1).toBeLessThanOrEqual(10);
+  });
+});
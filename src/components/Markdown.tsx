@@ -0,0 +1,434 @@
+import React, { useState } from 'react';
+import { Copy, CheckCircle } from 'lucide-react';
+import { DiffView } from './RunEventView';
+
+// Safe Markdown renderer. Output is built purely from React elements (never
+// dangerouslySetInnerHTML), so raw HTML in the source is shown as text and
+// links are restricted to http(s), mailto and relative URLs.
+
+type Align = 'left' | 'center' | 'right' | null;
+
+type Block =
+  | { type: 'heading'; level: number; text: string }
+  | { type: 'code'; lang: string; code: string }
+  | { type: 'quote'; blocks: Block[] }
+  | { type: 'list'; ordered: boolean; start: number; items: Block[][] }
+  | { type: 'table'; header: string[]; align: Align[]; rows: string[][] }
+  | { type: 'hr' }
+  | { type: 'paragraph'; text: string };
+
+const FENCE = /^\s{0,3}(`{3,}|~{3,})\s*([\w+#.-]*)/;
+const HEADING = /^\s{0,3}(#{1,6})\s+(.*?)\s*#*\s*$/;
+const HR = /^\s{0,3}([-*_])(\s*\1){2,}\s*$/;
+const QUOTE = /^\s{0,3}>\s?/;
+const LIST_ITEM = /^(\s*)([-*+]|\d{1,9}[.)])\s+(.*)$/;
+const TABLE_SEPARATOR = /^\s*\|?\s*:?-+:?\s*(\|\s*:?-+:?\s*)*\|?\s*$/;
+// Lists and quotes nested deeper than this render their content as plain
+// paragraphs; every level re-parses the lines below it
+const MAX_NESTING = 8;
+
+const indentOf = (line: string) => line.match(/^\s*/)![0].replace(/\t/g, '    ').length;
+
+const splitRow = (line: string): string[] => {
+  let row = line.trim();
+  if (row.startsWith('|')) row = row.slice(1);
+  if (row.endsWith('|') && !row.endsWith('\\|')) row = row.slice(0, -1);
+  return row.split(/(?<!\\)\|/).map(cell => cell.trim().replace(/\\\|/g, '|'));
+};
+
+const isBlockStart = (line: string, next?: string) =>
+  FENCE.test(line) || HEADING.test(line) || HR.test(line) || QUOTE.test(line) || LIST_ITEM.test(line) ||
+  (line.includes('|') && next !== undefined && TABLE_SEPARATOR.test(next) && next.includes('-'));
+
+// Content of a list item or quote at the nesting cap: leading indentation
+// and quote markers are dropped so the text reads as one paragraph
+const flatten = (lines: string[]): Block[] => {
+  const text = lines.map(line => line.replace(/^[\s>]+/, '')).filter(Boolean).join('\n');
+  return text ? [{ type: 'paragraph', text }] : [];
+};
+
+export const parseBlocks = (lines: string[], depth = 0): Block[] => {
+  const blocks: Block[] = [];
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i];
+
+    if (!line.trim()) {
+      i++;
+      continue;
+    }
+
+    const fence = line.match(FENCE);
+    if (fence) {
+      const marker = fence[1];
+      const code: string[] = [];
+      i++;
+      while (i < lines.length && !lines[i].trim().startsWith(marker)) {
+        code.push(lines[i]);
+        i++;
+      }
+      i++; // Closing fence (or end of input for unterminated blocks)
+      blocks.push({ type: 'code', lang: fence[2].toLowerCase(), code: code.join('\n') });
+      continue;
+    }
+
+    const heading = line.match(HEADING);
+    if (heading) {
+      blocks.push({ type: 'heading', level: heading[1].length, text: heading[2] });
+      i++;
+      continue;
+    }
+
+    if (HR.test(line)) {
+      blocks.push({ type: 'hr' });
+      i++;
+      continue;
+    }
+
+    if (QUOTE.test(line)) {
+      const quoted: string[] = [];
+      while (i < lines.length && lines[i].trim() && QUOTE.test(lines[i])) {
+        quoted.push(lines[i].replace(QUOTE, ''));
+        i++;
+      }
+      blocks.push({ type: 'quote', blocks: depth < MAX_NESTING ? parseBlocks(quoted, depth + 1) : flatten(quoted) });
+      continue;
+    }
+
+    if (line.includes('|') && i + 1 < lines.length && TABLE_SEPARATOR.test(lines[i + 1]) && lines[i + 1].includes('-')) {
+      const header = splitRow(line);
+      const align: Align[] = splitRow(lines[i + 1]).map(cell => {
+        const left = cell.startsWith(':');
+        const right = cell.endsWith(':');
+        return left && right ? 'center' : right ? 'right' : left ? 'left' : null;
+      });
+      i += 2;
+      const rows: string[][] = [];
+      while (i < lines.length && lines[i].trim() && lines[i].includes('|')) {
+        rows.push(splitRow(lines[i]));
+        i++;
+      }
+      blocks.push({ type: 'table', header, align, rows });
+      continue;
+    }
+
+    const listMatch = line.match(LIST_ITEM);
+    if (listMatch) {
+      const baseIndent = indentOf(listMatch[1]);
+      const ordered = /\d/.test(listMatch[2]);
+      const start = ordered ? parseInt(listMatch[2], 10) : 1;
+      const items: Block[][] = [];
+
+      while (i < lines.length) {
+        const m = lines[i].match(LIST_ITEM);
+        if (!m || indentOf(m[1]) !== baseIndent || /\d/.test(m[2]) !== ordered) break;
+        const contentIndent = m[1].length + m[2].length + 1;
+        const itemLines = [m[3]];
+        i++;
+        // Continuation lines: indented deeper than the marker, or blank lines inside the item
+        while (i < lines.length) {
+          const next = lines[i];
+          if (!next.trim()) {
+            const following = lines[i + 1];
+            if (following !== undefined && following.trim() && indentOf(following) > baseIndent) {
+              itemLines.push('');
+              i++;
+              continue;
+            }
+            break;
+          }
+          if (indentOf(next) > baseIndent) {
+            itemLines.push(next.slice(Math.min(contentIndent, indentOf(next))));
+            i++;
+            continue;
+          }
+          break;
+        }
+        items.push(depth < MAX_NESTING ? parseBlocks(itemLines, depth + 1) : flatten(itemLines));
+        // A blank line between items keeps the list going
+        if (i < lines.length && !lines[i].trim() && lines[i + 1]?.match(LIST_ITEM) && indentOf(lines[i + 1]) === baseIndent) i++;
+      }
+      blocks.push({ type: 'list', ordered, start, items });
+      continue;
+    }
+
+    const para: string[] = [];
+    while (i < lines.length && lines[i].trim() && (para.length === 0 || !isBlockStart(lines[i], lines[i + 1]))) {
+      para.push(lines[i]);
+      i++;
+    }
+    blocks.push({ type: 'paragraph', text: para.join('\n') });
+  }
+
+  return blocks;
+};
+
+// --- Inline ---
+
+export const sanitizeUrl = (url: string): string | null => {
+  const trimmed = url.trim();
+  // Strip characters browsers ignore when parsing schemes (e.g. "java\tscript:")
+  const normalized = trimmed.replace(/[\u0000-\u001F\u007F\s]/g, '').toLowerCase();
+  if (/^(https?:|mailto:)/.test(normalized)) return trimmed;
+  // Relative URLs carry no scheme
+  if (!/^[a-z][a-z0-9+.-]*:/.test(normalized)) return trimmed;
+  return null;
+};
+
+const INLINE_PATTERNS: { re: RegExp; render: (m: RegExpMatchArray, key: string) => React.ReactNode }[] = [
+  { re: /^\\([\\`*_{}[\]()#+\-.!~|>])/, render: (m) => m[1] },
+  { re: /^!?\[([^\]]*)\]\(\s*<?([^)\s>]+)>?(?:\s+"[^"]*")?\s*\)/, render: (m, key) => {
+    const href = sanitizeUrl(m[2]);
+    const label = m[1] || m[2];
+    if (!href) return <span key={key}>{label}</span>;
+    return (
+      <a key={key} href={href} target="_blank" rel="noopener noreferrer" className="text-indigo-300 underline underline-offset-2 hover:text-indigo-200">
+        {renderInline(label, key)}
+      </a>
+    );
+  } },
+  { re: /^<?(https?:\/\/[^\s<>]*[^\s<>.,;:!?)'"\]])>?/, render: (m, key) => (
+    <a key={key} href={m[1]} target="_blank" rel="noopener noreferrer" className="text-indigo-300 underline underline-offset-2 hover:text-indigo-200 break-all">{m[1]}</a>
+  ) },
+  { re: /^(\*\*|__)(?=\S)([\s\S]*?\S)\1/, render: (m, key) => <strong key={key} className="font-bold text-white">{renderInline(m[2], key)}</strong> },
+  { re: /^~~(?=\S)([\s\S]*?\S)~~/, render: (m, key) => <del key={key} className="opacity-70">{renderInline(m[1], key)}</del> },
+  { re: /^(\*|_)(?=\S)([\s\S]*?\S)\1(?!\w)/, render: (m, key) => <em key={key} className="italic">{renderInline(m[2], key)}</em> },
+  { re: /^( {2,}|\\)\n/, render: (_m, key) => <br key={key} /> },
+  { re: /^\n/, render: (_m, key) => <br key={key} /> },
+];
+
+const SPECIAL = /[\\`![<h*_~ \n]/;
+
+const backtickRunEnd = (text: string, pos: number) => {
+  while (text[pos] === '`') pos++;
+  return pos;
+};
+
+// A code span closes at the next backtick run of exactly the opening length.
+// Found by scanning runs, not with a lazy regex, which backtracks for seconds
+// on long runs of backticks. `unclosed` holds run lengths already known to
+// have no closing run further on.
+const findCodeSpan = (text: string, pos: number, unclosed: Set<number>): { code: string; end: number } | null => {
+  const open = backtickRunEnd(text, pos);
+  const length = open - pos;
+  if (unclosed.has(length)) return null;
+  let from = open;
+  while (true) {
+    const start = text.indexOf('`', from);
+    if (start === -1) break;
+    const end = backtickRunEnd(text, start);
+    if (end - start === length) return { code: text.slice(open, start), end };
+    from = end;
+  }
+  unclosed.add(length);
+  return null;
+};
+
+export const renderInline = (text: string, keyPrefix = 'i'): React.ReactNode[] => {
+  const out: React.ReactNode[] = [];
+  let plain = '';
+  let pos = 0;
+  const unclosedCodeRuns = new Set<number>();
+
+  const flush = () => {
+    if (plain) out.push(plain);
+    plain = '';
+  };
+
+  while (pos < text.length) {
+    const rest = text.slice(pos);
+    const prev = pos > 0 ? text[pos - 1] : '';
+    let matched = false;
+
+    if (rest[0] === '`') {
+      const span = findCodeSpan(text, pos, unclosedCodeRuns);
+      if (span) {
+        flush();
+        out.push(<code key={`${keyPrefix}-${pos}`} className="px-1.5 py-0.5 rounded bg-white/10 text-pink-200 font-mono text-[0.85em]">{span.code.trim()}</code>);
+        pos = span.end;
+      } else {
+        // An unmatched run is literal text as a whole
+        const end = backtickRunEnd(text, pos);
+        plain += text.slice(pos, end);
+        pos = end;
+      }
+      continue;
+    }
+
+    if (SPECIAL.test(rest[0])) {
+      for (const { re, render } of INLINE_PATTERNS) {
+        // Intraword underscores (snake_case) are not emphasis
+        if (rest[0] === '_' && /\w/.test(prev)) break;
+        const m = rest.match(re);
+        if (m) {
+          flush();
+          out.push(render(m, `${keyPrefix}-${pos}`));
+          pos += m[0].length;
+          matched = true;
+          break;
+        }
+      }
+    }
+
+    if (!matched) {
+      plain += rest[0];
+      pos++;
+    }
+  }
+  flush();
+  return out;
+};
+
+// --- Code blocks ---
+
+export const detectLanguage = (code: string): string => {
+  const src = code.trim();
+  if (!src) return 'text';
+  if (/^[{[]/.test(src)) {
+    try {
+      JSON.parse(src);
+      return 'json';
+    } catch {
+      // Not JSON, keep looking
+    }
+  }
+  if (/^(diff --git|--- |\+\+\+ |@@ )/m.test(src) && /^[+-]/m.test(src)) return 'diff';
+  if (/^\s*<(!doctype|html|div|span|\w+[^>]*>)/i.test(src)) return 'html';
+  if (/^(\$ |#!\/bin\/(ba)?sh|(sudo |npm |npx |pip |git |cd |export |curl )\S)/m.test(src)) return 'bash';
+  if (/^\s*(def |class \w+(\(.*\))?:|import \w+$|from \w+(\.\w+)* import )/m.test(src)) return 'python';
+  if (/\b(interface|type)\s+\w+\s*[={<]|:\s*(string|number|boolean)\b/.test(src)) return 'typescript';
+  if (/\b(const|let|function|=>|require\(|import .* from)\b/.test(src)) return 'javascript';
+  if (/^\s*(SELECT|INSERT|UPDATE|DELETE|CREATE TABLE)\b/im.test(src)) return 'sql';
+  if (/^[\w-]+:\s*\S*$/m.test(src) && !/[;{}]/.test(src)) return 'yaml';
+  return 'text';
+};
+
+export const CodeBlock: React.FC<{ code: string; lang?: string }> = ({ code, lang }) => {
+  const [copied, setCopied] = useState(false);
+  const language = lang || detectLanguage(code);
+
+  const handleCopy = () => {
+    navigator.clipboard.writeText(code);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  return (
+    <div className="my-3 rounded-xl border border-white/10 bg-[#050505] overflow-hidden group/code">
+      <div className="flex items-center justify-between px-3 py-1.5 border-b border-white/5 bg-white/[0.03]">
+        <span className="text-[10px] font-bold uppercase tracking-wider text-slate-500 font-mono">{language}</span>
+        <button
+          onClick={handleCopy}
+          className="flex items-center gap-1 text-[10px] text-slate-500 hover:text-white transition-colors"
+          title="Copy code"
+        >
+          {copied ? <CheckCircle size={12} className="text-emerald-400" /> : <Copy size={12} />}
+          {copied ? 'Copied' : 'Copy'}
+        </button>
+      </div>
+      {language === 'diff' ? (
+        <div className="p-1"><DiffView diff={code} /></div>
+      ) : (
+        <pre className="p-3 overflow-x-auto custom-scrollbar text-[12px] leading-relaxed font-mono text-slate-200">
+          <code>{code}</code>
+        </pre>
+      )}
+    </div>
+  );
+};
+
+// --- Render ---
+
+const HEADING_CLASSES = [
+  'text-xl font-bold text-white mt-5 mb-3',
+  'text-lg font-bold text-white mt-5 mb-2',
+  'text-base font-bold text-white mt-4 mb-2',
+  'text-sm font-bold text-slate-100 mt-4 mb-2',
+  'text-sm font-semibold text-slate-200 mt-3 mb-1',
+  'text-xs font-semibold uppercase tracking-wider text-slate-300 mt-3 mb-1',
+];
+
+const renderBlocks = (blocks: Block[], keyPrefix: string): React.ReactNode[] =>
+  blocks.map((block, idx) => {
+    const key = `${keyPrefix}-${idx}`;
+    switch (block.type) {
+      case 'heading': {
+        const Tag = `h${block.level}` as keyof JSX.IntrinsicElements;
+        return <Tag key={key} className={HEADING_CLASSES[block.level - 1]}>{renderInline(block.text, key)}</Tag>;
+      }
+      case 'code':
+        return <CodeBlock key={key} code={block.code} lang={block.lang} />;
+      case 'quote':
+        return (
+          <blockquote key={key} className="my-3 pl-4 border-l-2 border-indigo-500/40 text-slate-400 italic">
+            {renderBlocks(block.blocks, key)}
+          </blockquote>
+        );
+      case 'list': {
+        const ListTag = block.ordered ? 'ol' : 'ul';
+        return (
+          <ListTag
+            key={key}
+            start={block.ordered && block.start !== 1 ? block.start : undefined}
+            className={`my-2 pl-6 space-y-1 ${block.ordered ? 'list-decimal' : 'list-disc'} marker:text-slate-500`}
+          >
+            {block.items.map((item, j) => (
+              // A leading paragraph renders inline so bullets line up with their text
+              <li key={`${key}-${j}`}>
+                {item[0]?.type === 'paragraph' ? (
+                  <>
+                    {renderInline(item[0].text, `${key}-${j}`)}
+                    {renderBlocks(item.slice(1), `${key}-${j}`)}
+                  </>
+                ) : renderBlocks(item, `${key}-${j}`)}
+              </li>
+            ))}
+          </ListTag>
+        );
+      }
+      case 'table':
+        return (
+          <div key={key} className="my-3 overflow-x-auto custom-scrollbar rounded-xl border border-white/10">
+            <table className="w-full text-left text-xs">
+              <thead className="bg-white/5">
+                <tr>
+                  {block.header.map((cell, c) => (
+                    <th key={c} className="px-3 py-2 font-bold text-slate-200 border-b border-white/10" style={{ textAlign: block.align[c] || undefined }}>
+                      {renderInline(cell, `${key}-h${c}`)}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {block.rows.map((row, r) => (
+                  <tr key={r} className="border-b border-white/5 last:border-0">
+                    {block.header.map((_h, c) => (
+                      <td key={c} className="px-3 py-2 text-slate-300 align-top" style={{ textAlign: block.align[c] || undefined }}>
+                        {renderInline(row[c] || '', `${key}-${r}-${c}`)}
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        );
+      case 'hr':
+        return <hr key={key} className="my-4 border-white/10" />;
+      case 'paragraph':
+        return <p key={key} className="my-2 leading-relaxed">{renderInline(block.text, key)}</p>;
+    }
+  });
+
+interface MarkdownProps {
+  content: string;
+  className?: string;
+}
+
+const Markdown: React.FC<MarkdownProps> = ({ content, className = '' }) => {
+  const blocks = parseBlocks(content.replace(/\r\n?/g, '\n').split('\n'));
+  return <div className={`break-words [&>*:first-child]:mt-0 [&>*:last-child]:mb-0 ${className}`}>{renderBlocks(blocks, 'md')}</div>;
+};
+
+export default Markdown;
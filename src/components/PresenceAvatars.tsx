@@ -0,0 +1,67 @@
+import React from 'react';
+import { Peer } from '../hooks/useCollaboration';
+import { PresenceView } from '../api/collabProtocol';
+
+interface PresenceAvatarsProps {
+  peers: Peer[];
+  max?: number;
+  size?: 'sm' | 'md';
+}
+
+const STATUS_COLORS = {
+  online: 'bg-green-400',
+  idle: 'bg-amber-400',
+  away: 'bg-slate-500',
+};
+
+const VIEW_LABELS: Record<string, string> = {
+  chat: 'Chat',
+  compare: 'Compare',
+  gemini: 'Gemini Studio',
+  settings: 'Settings',
+  analytics: 'Analytics',
+};
+
+export const peerLabel = (peer: Peer) => peer.profile?.name || `Peer ${(peer.profile?.clientId || peer.id).slice(0, 4)}`;
+
+export const describeView = (viewing?: PresenceView | null) => {
+  if (!viewing) return null;
+  if (viewing.runId) return `Run ${viewing.runId.slice(0, 8)}`;
+  return VIEW_LABELS[viewing.view] || viewing.view;
+};
+
+// Overlapping avatars with a status dot; hover for name, status and page
+const PresenceAvatars: React.FC<PresenceAvatarsProps> = ({ peers, max = 4, size = 'md' }) => {
+  if (peers.length === 0) return null;
+  const shown = peers.slice(0, max);
+  const dimensions = size === 'sm' ? 'w-4 h-4 text-[8px]' : 'w-6 h-6 text-[10px]';
+  const dot = size === 'sm' ? 'w-1.5 h-1.5' : 'w-2 h-2';
+
+  return (
+    <div className="flex items-center -space-x-1.5">
+      {shown.map(p => {
+        const label = peerLabel(p);
+        const view = describeView(p.viewing);
+        return (
+          <div key={p.id} className="relative" title={[label, p.status, view && `viewing ${view}`].filter(Boolean).join(' · ')}>
+            {p.profile?.avatarUrl ? (
+              <img src={p.profile.avatarUrl} alt={label} className={`${dimensions} rounded-full border border-black/60 object-cover ${p.status === 'away' ? 'opacity-50' : ''}`} />
+            ) : (
+              <div className={`${dimensions} rounded-full border border-black/60 bg-green-500/30 text-green-200 font-bold flex items-center justify-center ${p.status === 'away' ? 'opacity-50' : ''}`}>
+                {label.charAt(0).toUpperCase()}
+              </div>
+            )}
+            {p.status && <span className={`absolute -bottom-0.5 -right-0.5 ${dot} rounded-full border border-black ${STATUS_COLORS[p.status]}`}></span>}
+          </div>
+        );
+      })}
+      {peers.length > max && (
+        <div className={`${dimensions} rounded-full border border-black/60 bg-white/10 text-slate-300 flex items-center justify-center`}>
+          +{peers.length - max}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PresenceAvatars;
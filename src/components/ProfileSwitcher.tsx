@@ -0,0 +1,95 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { useConnectionProfiles, useProfileHealth } from '../hooks/useConnectionProfiles';
+import { ProfileHealth } from '../types';
+import { ChevronDown, Check, Settings, RefreshCw } from 'lucide-react';
+
+export const HEALTH_STYLES: Record<ProfileHealth, { dot: string; label: string }> = {
+  checking: { dot: 'bg-slate-500 animate-pulse', label: 'Checking' },
+  online: { dot: 'bg-emerald-400', label: 'Online' },
+  offline: { dot: 'bg-red-400', label: 'Offline' },
+  unauthorized: { dot: 'bg-orange-400', label: 'Auth required' },
+};
+
+interface ProfileSwitcherProps {
+  onManage: () => void;
+}
+
+const ProfileSwitcher: React.FC<ProfileSwitcherProps> = ({ onManage }) => {
+  const { profiles, activeProfile, switchProfile } = useConnectionProfiles();
+  const { health, refresh } = useProfileHealth(profiles);
+  const [open, setOpen] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  // Close when clicking outside
+  useEffect(() => {
+    if (!open) return;
+    const handleClick = (e: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(e.target as Node)) setOpen(false);
+    };
+    document.addEventListener('mousedown', handleClick);
+    return () => document.removeEventListener('mousedown', handleClick);
+  }, [open]);
+
+  const activeHealth = HEALTH_STYLES[health[activeProfile.id] || 'checking'];
+
+  return (
+    <div ref={containerRef} className="relative px-3 pb-3 shrink-0">
+      <button
+        onClick={() => setOpen(!open)}
+        className="w-full flex items-center gap-2.5 px-3 py-2 rounded-xl bg-white/5 border border-white/5 hover:bg-white/10 hover:border-white/10 transition-colors"
+        title={`Connected to ${activeProfile.baseUrl}`}
+      >
+        <span className="w-2.5 h-2.5 rounded-full shrink-0" style={{ backgroundColor: activeProfile.color }}></span>
+        <div className="flex-1 min-w-0 text-left">
+          <div className="text-xs font-bold text-slate-200 truncate">{activeProfile.label}</div>
+          <div className="text-[10px] font-mono text-slate-500 truncate">{activeProfile.baseUrl}</div>
+        </div>
+        <span className={`w-1.5 h-1.5 rounded-full shrink-0 ${activeHealth.dot}`} title={activeHealth.label}></span>
+        <ChevronDown size={14} className={`text-slate-500 transition-transform ${open ? 'rotate-180' : ''}`} />
+      </button>
+
+      {open && (
+        <div className="absolute left-3 right-3 top-full mt-1 z-50 bg-[#15151a] border border-white/10 rounded-xl shadow-2xl overflow-hidden animate-in fade-in slide-in-from-top-1 duration-150">
+          <div className="max-h-64 overflow-y-auto custom-scrollbar py-1">
+            {profiles.map(p => {
+              const h = HEALTH_STYLES[health[p.id] || 'checking'];
+              return (
+                <button
+                  key={p.id}
+                  onClick={() => { switchProfile(p.id); setOpen(false); }}
+                  className="w-full flex items-center gap-2.5 px-3 py-2 hover:bg-white/5 transition-colors text-left"
+                >
+                  <span className="w-2 h-2 rounded-full shrink-0" style={{ backgroundColor: p.color }}></span>
+                  <div className="flex-1 min-w-0">
+                    <div className="text-xs font-medium text-slate-200 truncate">{p.label}</div>
+                    <div className="flex items-center gap-1.5 text-[10px] text-slate-500">
+                      <span className={`w-1.5 h-1.5 rounded-full ${h.dot}`}></span>
+                      {h.label}
+                    </div>
+                  </div>
+                  {p.id === activeProfile.id && <Check size={14} className="text-indigo-400 shrink-0" />}
+                </button>
+              );
+            })}
+          </div>
+          <div className="flex border-t border-white/5">
+            <button
+              onClick={refresh}
+              className="flex-1 flex items-center justify-center gap-1.5 py-2 text-[10px] font-bold uppercase tracking-wider text-slate-500 hover:text-white hover:bg-white/5 transition-colors"
+            >
+              <RefreshCw size={10} /> Recheck
+            </button>
+            <button
+              onClick={() => { setOpen(false); onManage(); }}
+              className="flex-1 flex items-center justify-center gap-1.5 py-2 text-[10px] font-bold uppercase tracking-wider text-slate-500 hover:text-white hover:bg-white/5 transition-colors border-l border-white/5"
+            >
+              <Settings size={10} /> Manage
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ProfileSwitcher;
@@ -0,0 +1,199 @@
+import React, { useState } from 'react';
+import { FolderOpen, UserCircle, FileText, Plus, X, History } from 'lucide-react';
+
+export interface RunContext {
+  workdir: string;
+  persona: string;
+  contextPaths: string[];
+}
+
+export interface RunContextErrors {
+  workdir?: string;
+  persona?: string;
+  contextPaths?: string;
+}
+
+const ABSOLUTE_PATH = /^(\/|~(\/|$)|[a-zA-Z]:[\\/])/;
+const PERSONA_NAME = /^[\w.-]{1,64}$/;
+
+const checkPath = (path: string): string | undefined => {
+  if (/[\0\r\n]/.test(path)) return 'Path contains invalid characters';
+  if (path.split(/[\\/]/).includes('..')) return "Path may not contain '..' segments";
+  return undefined;
+};
+
+export const validateWorkdir = (workdir: string): string | undefined => {
+  const value = workdir.trim();
+  if (!value) return undefined;
+  if (!ABSOLUTE_PATH.test(value)) return 'Working directory must be an absolute path';
+  return checkPath(value);
+};
+
+export const validatePersona = (persona: string): string | undefined => {
+  const value = persona.trim();
+  if (!value) return undefined;
+  if (!PERSONA_NAME.test(value)) return "Persona may only contain letters, numbers, '-', '_' and '.'";
+  return undefined;
+};
+
+export const validateContextPath = (path: string, existing: string[]): string | undefined => {
+  const value = path.trim();
+  if (!value) return 'Path is empty';
+  if (existing.includes(value)) return 'Path already added';
+  return checkPath(value);
+};
+
+export const validateRunContext = (ctx: RunContext): RunContextErrors => {
+  const errors: RunContextErrors = {};
+  const workdir = validateWorkdir(ctx.workdir);
+  if (workdir) errors.workdir = workdir;
+  const persona = validatePersona(ctx.persona);
+  if (persona) errors.persona = persona;
+  const badPath = ctx.contextPaths.map(p => checkPath(p)).find(Boolean);
+  if (badPath) errors.contextPaths = badPath;
+  return errors;
+};
+
+interface RunContextPanelProps {
+  value: RunContext;
+  onChange: (value: RunContext) => void;
+  errors: RunContextErrors;
+  recentWorkdirs: string[];
+  recentPersonas: string[];
+  recentContextPaths: string[];
+}
+
+const RunContextPanel: React.FC<RunContextPanelProps> = ({ value, onChange, errors, recentWorkdirs, recentPersonas, recentContextPaths }) => {
+  const [pathDraft, setPathDraft] = useState('');
+  const [pathError, setPathError] = useState<string | null>(null);
+
+  const addPath = (path: string) => {
+    const err = validateContextPath(path, value.contextPaths);
+    if (err) {
+      setPathError(err);
+      return;
+    }
+    onChange({ ...value, contextPaths: [...value.contextPaths, path.trim()] });
+    setPathDraft('');
+    setPathError(null);
+  };
+
+  const removePath = (path: string) => {
+    onChange({ ...value, contextPaths: value.contextPaths.filter(p => p !== path) });
+  };
+
+  const suggestedPaths = recentContextPaths.filter(p => !value.contextPaths.includes(p)).slice(0, 4);
+
+  const inputClass = (hasError: boolean) =>
+    `w-full bg-black/40 border rounded-lg pl-8 pr-3 py-2 text-xs text-white font-mono placeholder-slate-600 outline-none transition-colors ${
+      hasError ? 'border-red-500/50 focus:border-red-400' : 'border-white/10 focus:border-purple-500'
+    }`;
+
+  return (
+    <div className="mx-1 mb-3 p-3 bg-white/[0.03] border border-white/5 rounded-2xl space-y-3 animate-in fade-in slide-in-from-bottom-2 duration-200">
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+        {/* Workdir */}
+        <div>
+          <label className="text-[10px] font-bold uppercase tracking-wider text-slate-500 mb-1.5 block">Working Directory</label>
+          <div className="relative">
+            <FolderOpen size={12} className="absolute left-2.5 top-1/2 -translate-y-1/2 text-slate-500 pointer-events-none" />
+            <input
+              type="text"
+              list="heidi-recent-workdirs"
+              value={value.workdir}
+              onChange={(e) => onChange({ ...value, workdir: e.target.value })}
+              placeholder="Backend default"
+              className={inputClass(!!errors.workdir)}
+            />
+            <datalist id="heidi-recent-workdirs">
+              {recentWorkdirs.map(w => <option key={w} value={w} />)}
+            </datalist>
+          </div>
+          {errors.workdir && <p className="text-[10px] text-red-400 mt-1">{errors.workdir}</p>}
+        </div>
+
+        {/* Persona */}
+        <div>
+          <label className="text-[10px] font-bold uppercase tracking-wider text-slate-500 mb-1.5 block">Persona</label>
+          <div className="relative">
+            <UserCircle size={12} className="absolute left-2.5 top-1/2 -translate-y-1/2 text-slate-500 pointer-events-none" />
+            <input
+              type="text"
+              list="heidi-recent-personas"
+              value={value.persona}
+              onChange={(e) => onChange({ ...value, persona: e.target.value })}
+              placeholder="Default"
+              className={inputClass(!!errors.persona)}
+            />
+            <datalist id="heidi-recent-personas">
+              {recentPersonas.map(p => <option key={p} value={p} />)}
+            </datalist>
+          </div>
+          {errors.persona && <p className="text-[10px] text-red-400 mt-1">{errors.persona}</p>}
+        </div>
+      </div>
+
+      {/* Context Paths */}
+      <div>
+        <label className="text-[10px] font-bold uppercase tracking-wider text-slate-500 mb-1.5 block">Context Paths</label>
+        {value.contextPaths.length > 0 && (
+          <div className="flex flex-wrap gap-1.5 mb-2">
+            {value.contextPaths.map(p => (
+              <span key={p} className="flex items-center gap-1 bg-purple-500/10 border border-purple-500/20 text-purple-200 rounded-md pl-2 pr-1 py-0.5 text-[11px] font-mono">
+                <FileText size={10} className="opacity-60" />
+                {p}
+                <button onClick={() => removePath(p)} className="p-0.5 rounded hover:bg-white/10 text-purple-300 hover:text-white" title="Remove path">
+                  <X size={10} />
+                </button>
+              </span>
+            ))}
+          </div>
+        )}
+        <div className="flex gap-2">
+          <div className="relative flex-1">
+            <FileText size={12} className="absolute left-2.5 top-1/2 -translate-y-1/2 text-slate-500 pointer-events-none" />
+            <input
+              type="text"
+              value={pathDraft}
+              onChange={(e) => { setPathDraft(e.target.value); setPathError(null); }}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') {
+                  e.preventDefault();
+                  addPath(pathDraft);
+                }
+              }}
+              placeholder="src/, docs/design.md ..."
+              className={inputClass(!!(pathError || errors.contextPaths))}
+            />
+          </div>
+          <button
+            onClick={() => addPath(pathDraft)}
+            disabled={!pathDraft.trim()}
+            className="px-2.5 rounded-lg bg-white/5 border border-white/10 text-slate-300 hover:bg-white/10 hover:text-white disabled:opacity-40 transition-colors"
+            title="Add path"
+          >
+            <Plus size={14} />
+          </button>
+        </div>
+        {(pathError || errors.contextPaths) && <p className="text-[10px] text-red-400 mt-1">{pathError || errors.contextPaths}</p>}
+
+        {suggestedPaths.length > 0 && (
+          <div className="flex flex-wrap items-center gap-1.5 mt-2">
+            <History size={10} className="text-slate-600" />
+            {suggestedPaths.map(p => (
+              <button
+                key={p}
+                onClick={() => addPath(p)}
+                className="text-[10px] font-mono text-slate-500 hover:text-purple-300 bg-white/5 hover:bg-white/10 rounded px-1.5 py-0.5 transition-colors"
+              >
+                {p}
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default RunContextPanel;
@@ -0,0 +1,45 @@
+import React from 'react';
+import { renderToStaticMarkup } from 'react-dom/server';
+import { describe, it, expect } from 'vitest';
+import RunEventView from './RunEventView';
+import { RunEvent } from '../types';
+
+const render = (event: Omit<RunEvent, 'ts'>) => renderToStaticMarkup(<RunEventView event={{ ts: '2024-01-01T00:00:00Z', ...event }} />);
+
+// `details` comes straight from the backend, so every field may have any shape
+const hostile = {
+  name: { nested: true },
+  tool: ['x'],
+  arguments: { a: 1 },
+  exit_code: { code: 1 },
+  diff: { hunks: [] },
+  patch: 42,
+  path: { p: 1 },
+  score: { value: 0.9 },
+  verdict: { ok: true },
+  steps: [{ title: { t: 1 }, description: ['d'] }, 7],
+  issues: [{ severity: { s: 1 }, file: ['f'], line: {}, message: { m: 1 } }, 3, 'plain'],
+  files: [{ path: { p: 1 } }, 'src/a.ts'],
+};
+
+describe('RunEventView', () => {
+  it.each(['plan', 'tool_call', 'tool_result', 'diff', 'file_write', 'review', 'audit', 'status', 'unknown'])(
+    'renders %s events whose details have unexpected shapes',
+    type => {
+      expect(() => render({ type, message: 'msg', details: hostile })).not.toThrow();
+    },
+  );
+
+  it('shows a non-string diff as formatted data', () => {
+    const html = render({ type: 'diff', message: '', details: { diff: { hunks: ['@@ -1 +1 @@'] } } });
+    expect(html).toContain('&quot;hunks&quot;');
+  });
+
+  it('renders string and number fields as text', () => {
+    const html = render({ type: 'review', message: '', details: { verdict: 'approved', score: 0.9, issues: [{ severity: 'high', file: 'a.ts', line: 3, message: 'Bad' }] } });
+    expect(html).toContain('approved');
+    expect(html).toContain('· 0.9');
+    expect(html).toContain('a.ts:3');
+    expect(html).toContain('Bad');
+  });
+});
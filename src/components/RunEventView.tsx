@@ -0,0 +1,399 @@
+import React, { useState } from 'react';
+import { RunEvent } from '../types';
+import {
+  Terminal, AlertCircle, Clock, Map, Wrench, FileCode, FilePlus, Activity, Eye, Shield,
+  ChevronRight, Folder, File, CheckCircle, XCircle, ArrowRight
+} from 'lucide-react';
+
+export interface EventRenderer {
+  icon: React.ReactNode;
+  // Tailwind classes for the icon tile and type label
+  accent: string;
+  label?: string;
+  // Compact renderers skip the card chrome (used for status lines)
+  compact?: boolean;
+  render: React.FC<{ event: RunEvent }>;
+}
+
+// --- Shared building blocks ---
+
+const Collapsible: React.FC<{ title: React.ReactNode; defaultOpen?: boolean; children: React.ReactNode }> = ({ title, defaultOpen = false, children }) => {
+  const [open, setOpen] = useState(defaultOpen);
+  return (
+    <div className="rounded-lg border border-white/5 bg-black/20 overflow-hidden">
+      <button
+        onClick={() => setOpen(!open)}
+        className="w-full flex items-center gap-2 px-3 py-2 text-left text-xs text-slate-300 hover:bg-white/5 transition-colors"
+      >
+        <ChevronRight size={12} className={`text-slate-500 transition-transform ${open ? 'rotate-90' : ''}`} />
+        {title}
+      </button>
+      {open && <div className="border-t border-white/5">{children}</div>}
+    </div>
+  );
+};
+
+// `details` is free-form, so lists from it may be anything; holes are dropped
+const asList = (value: unknown): any[] => Array.isArray(value) ? value.filter(item => item != null) : [];
+
+// The same goes for single fields: only strings and numbers are shown as text
+const asText = (value: unknown): string | undefined =>
+  typeof value === 'string' || (typeof value === 'number' && Number.isFinite(value)) ? String(value) : undefined;
+
+const formatValue = (value: any): string => {
+  if (value === undefined || value === null) return '';
+  if (typeof value === 'string') return value;
+  try {
+    return JSON.stringify(value, null, 2);
+  } catch {
+    return String(value);
+  }
+};
+
+const CodeBlock: React.FC<{ text: string; className?: string }> = ({ text, className = 'text-slate-300' }) => (
+  <pre className={`whitespace-pre-wrap break-words p-3 text-[11px] leading-relaxed font-mono max-h-96 overflow-auto custom-scrollbar ${className}`}>{text}</pre>
+);
+
+const Message: React.FC<{ event: RunEvent }> = ({ event }) =>
+  event.message ? <div className="whitespace-pre-wrap break-words text-slate-300 font-mono">{event.message}</div> : null;
+
+// --- Diff ---
+
+const diffLineClass = (line: string) => {
+  if (line.startsWith('+++') || line.startsWith('---')) return 'text-slate-400 font-bold';
+  if (line.startsWith('@@')) return 'text-cyan-400 bg-cyan-500/5';
+  if (line.startsWith('+')) return 'text-emerald-300 bg-emerald-500/10';
+  if (line.startsWith('-')) return 'text-red-300 bg-red-500/10';
+  if (line.startsWith('diff ') || line.startsWith('index ')) return 'text-purple-300';
+  return 'text-slate-400';
+};
+
+export const DiffView: React.FC<{ diff: string }> = ({ diff }) => {
+  const lines = diff.replace(/\n$/, '').split('\n');
+  const added = lines.filter(l => l.startsWith('+') && !l.startsWith('+++')).length;
+  const removed = lines.filter(l => l.startsWith('-') && !l.startsWith('---')).length;
+  return (
+    <div className="rounded-lg border border-white/5 bg-black/40 overflow-hidden">
+      <div className="flex items-center gap-3 px-3 py-1.5 border-b border-white/5 text-[10px] font-mono">
+        <span className="text-emerald-400">+{added}</span>
+        <span className="text-red-400">-{removed}</span>
+      </div>
+      <div className="overflow-x-auto custom-scrollbar max-h-[28rem]">
+        <pre className="text-[11px] leading-relaxed font-mono min-w-max">
+          {lines.map((line, i) => (
+            <div key={i} className={`px-3 ${diffLineClass(line)}`}>{line || ' '}</div>
+          ))}
+        </pre>
+      </div>
+    </div>
+  );
+};
+
+// --- File tree ---
+
+interface TreeNode {
+  name: string;
+  children: Record<string, TreeNode>;
+  isFile: boolean;
+}
+
+const buildTree = (paths: string[]): TreeNode => {
+  const root: TreeNode = { name: '', children: {}, isFile: false };
+  for (const path of paths) {
+    const parts = path.split(/[\\/]/).filter(Boolean);
+    let node = root;
+    parts.forEach((part, i) => {
+      if (!node.children[part]) {
+        node.children[part] = { name: part, children: {}, isFile: i === parts.length - 1 };
+      }
+      node = node.children[part];
+    });
+  }
+  return root;
+};
+
+const TreeBranch: React.FC<{ node: TreeNode; depth: number }> = ({ node, depth }) => {
+  const entries = Object.values(node.children).sort((a, b) =>
+    a.isFile === b.isFile ? a.name.localeCompare(b.name) : a.isFile ? 1 : -1
+  );
+  return (
+    <>
+      {entries.map(child => (
+        <React.Fragment key={child.name}>
+          <div className="flex items-center gap-1.5 py-0.5" style={{ paddingLeft: depth * 14 }}>
+            {child.isFile
+              ? <File size={11} className="text-slate-500 shrink-0" />
+              : <Folder size={11} className="text-indigo-400 shrink-0" />}
+            <span className={child.isFile ? 'text-slate-300' : 'text-indigo-200'}>{child.name}</span>
+          </div>
+          {!child.isFile && <TreeBranch node={child} depth={depth + 1} />}
+        </React.Fragment>
+      ))}
+    </>
+  );
+};
+
+export const FileTree: React.FC<{ paths: string[] }> = ({ paths }) => (
+  <div className="rounded-lg border border-white/5 bg-black/20 p-3 text-[11px] font-mono">
+    <TreeBranch node={buildTree(paths)} depth={0} />
+  </div>
+);
+
+// --- Verdicts ---
+
+const POSITIVE_VERDICTS = ['pass', 'passed', 'approve', 'approved', 'ok', 'accept', 'accepted', 'success'];
+
+export const isPositiveVerdict = (verdict: any): boolean =>
+  verdict === true || POSITIVE_VERDICTS.includes(String(verdict).toLowerCase());
+
+const VerdictIssue: React.FC<{ issue: Record<string, unknown> }> = ({ issue }) => {
+  const severity = asText(issue.severity);
+  const file = asText(issue.file);
+  const line = asText(issue.line);
+  return (
+    <>
+      {severity && <span className="text-[10px] uppercase font-bold text-orange-300 mr-1.5">{severity}</span>}
+      {file && <span className="font-mono text-indigo-300 mr-1.5">{file}{line ? `:${line}` : ''}</span>}
+      {asText(issue.message) || asText(issue.text) || formatValue(issue)}
+    </>
+  );
+};
+
+const VerdictView: React.FC<{ event: RunEvent }> = ({ event }) => {
+  const d = event.details || {};
+  const verdict = d.verdict ?? d.decision ?? d.result ?? d.pass;
+  const items = asList(d.issues || d.comments || d.findings);
+  const positive = isPositiveVerdict(verdict);
+  const score = asText(d.score);
+  return (
+    <div className="space-y-3">
+      {verdict !== undefined && (
+        <div className={`inline-flex items-center gap-2 px-3 py-1 rounded-full text-[11px] font-bold uppercase tracking-wider border ${
+          positive ? 'bg-emerald-500/10 text-emerald-300 border-emerald-500/20' : 'bg-red-500/10 text-red-300 border-red-500/20'
+        }`}>
+          {positive ? <CheckCircle size={12} /> : <XCircle size={12} />}
+          {typeof verdict === 'boolean' ? (verdict ? 'Pass' : 'Fail') : asText(verdict) ?? formatValue(verdict)}
+          {score !== undefined && <span className="font-mono opacity-70 normal-case">· {score}</span>}
+        </div>
+      )}
+      <Message event={event} />
+      {items.length > 0 && (
+        <ul className="space-y-1.5">
+          {items.map((item, i) => (
+            <li key={i} className="flex gap-2 text-slate-300">
+              <ArrowRight size={12} className="text-slate-600 mt-0.5 shrink-0" />
+              <span className="whitespace-pre-wrap break-words">
+                {typeof item === 'object' ? <VerdictIssue issue={item} /> : formatValue(item)}
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+// --- Registry ---
+
+export const eventRenderers: Record<string, EventRenderer> = {
+  plan: {
+    icon: <Map size={16} />,
+    accent: 'text-sky-300',
+    render: ({ event }) => {
+      const steps = asList(event.details?.steps);
+      if (steps.length === 0) return <Message event={event} />;
+      return (
+        <div className="space-y-3">
+          {event.message && <div className="text-slate-300">{event.message}</div>}
+          <ol className="space-y-1.5">
+            {steps.map((step, i) => {
+              const title = typeof step === 'object' ? asText(step.title) || asText(step.description) || formatValue(step) : formatValue(step);
+              const done = typeof step === 'object' && ['done', 'completed'].includes(step.status);
+              return (
+                <li key={i} className="flex gap-2.5">
+                  <span className={`w-5 h-5 rounded-full flex items-center justify-center text-[10px] font-bold shrink-0 border ${
+                    done ? 'bg-emerald-500/10 border-emerald-500/30 text-emerald-300' : 'bg-sky-500/10 border-sky-500/20 text-sky-300'
+                  }`}>{i + 1}</span>
+                  <span className={`text-slate-300 ${done ? 'line-through opacity-60' : ''}`}>{title}</span>
+                </li>
+              );
+            })}
+          </ol>
+        </div>
+      );
+    },
+  },
+
+  tool_call: {
+    icon: <Wrench size={16} />,
+    accent: 'text-amber-300',
+    label: 'Tool Call',
+    render: ({ event }) => {
+      const d = event.details || {};
+      const name = asText(d.name) || asText(d.tool) || event.message;
+      const args = d.arguments ?? d.args ?? d.input;
+      return (
+        <Collapsible title={<><span className="font-mono font-bold text-amber-200">{name}</span>{args !== undefined && <span className="text-slate-500">arguments</span>}</>}>
+          {args !== undefined ? <CodeBlock text={formatValue(args)} /> : <CodeBlock text={event.message} />}
+        </Collapsible>
+      );
+    },
+  },
+
+  tool_result: {
+    icon: <Terminal size={16} />,
+    accent: 'text-amber-300',
+    label: 'Tool Result',
+    render: ({ event }) => {
+      const d = event.details || {};
+      const failed = d.is_error || d.error || (d.exit_code !== undefined && d.exit_code !== 0);
+      const output = formatValue(d.output ?? d.result ?? d.content ?? event.message);
+      const lineCount = output.split('\n').length;
+      const exitCode = asText(d.exit_code);
+      return (
+        <Collapsible
+          defaultOpen={lineCount <= 8}
+          title={
+            <>
+              <span className="font-mono font-bold text-amber-200">{asText(d.name) || asText(d.tool) || 'result'}</span>
+              {failed ? <XCircle size={12} className="text-red-400" /> : <CheckCircle size={12} className="text-emerald-400" />}
+              {exitCode !== undefined && <span className="font-mono text-slate-500">exit {exitCode}</span>}
+              <span className="text-slate-600 ml-auto">{lineCount} lines</span>
+            </>
+          }
+        >
+          <CodeBlock text={output} className={failed ? 'text-red-200' : 'text-slate-300'} />
+        </Collapsible>
+      );
+    },
+  },
+
+  diff: {
+    icon: <FileCode size={16} />,
+    accent: 'text-emerald-300',
+    render: ({ event }) => {
+      const d = event.details || {};
+      const raw = d.diff || d.patch;
+      const diff = raw ? (typeof raw === 'string' ? raw : undefined) : event.message;
+      const path = asText(d.path);
+      return (
+        <div className="space-y-2">
+          {path && <div className="font-mono text-xs text-indigo-300">{path}</div>}
+          {event.message && event.message !== diff && <div className="text-slate-300">{event.message}</div>}
+          {diff ? <DiffView diff={diff} /> : raw ? <CodeBlock text={formatValue(raw)} /> : null}
+        </div>
+      );
+    },
+  },
+
+  file_write: {
+    icon: <FilePlus size={16} />,
+    accent: 'text-indigo-300',
+    label: 'Files Written',
+    render: ({ event }) => {
+      const d = event.details || {};
+      const paths: string[] = d.files
+        ? asList(d.files).map(f => typeof f === 'string' ? f : f.path).filter(p => typeof p === 'string' && p)
+        : typeof d.path === 'string' && d.path ? [d.path] : [];
+      if (paths.length === 0) return <Message event={event} />;
+      return (
+        <div className="space-y-2">
+          {event.message && <div className="text-slate-300">{event.message}</div>}
+          <FileTree paths={paths} />
+          {typeof d.content === 'string' && (
+            <Collapsible title={<span className="text-slate-400">Content preview</span>}>
+              <CodeBlock text={d.content} />
+            </Collapsible>
+          )}
+        </div>
+      );
+    },
+  },
+
+  status: {
+    icon: <Activity size={12} />,
+    accent: 'text-slate-400',
+    compact: true,
+    render: ({ event }) => <span className="uppercase tracking-wider font-bold">{event.message}</span>,
+  },
+
+  review: {
+    icon: <Eye size={16} />,
+    accent: 'text-pink-300',
+    render: VerdictView,
+  },
+
+  audit: {
+    icon: <Shield size={16} />,
+    accent: 'text-orange-300',
+    render: VerdictView,
+  },
+};
+
+// Today's raw view, used for unknown types and errors
+const fallbackRenderer: EventRenderer = {
+  icon: <Terminal size={16} />,
+  accent: 'text-purple-300/80',
+  render: ({ event }) => (
+    <>
+      <pre className="whitespace-pre-wrap break-words">{event.message}</pre>
+      {event.details !== undefined && !event.message && <CodeBlock text={formatValue(event.details)} />}
+    </>
+  ),
+};
+
+const formatTime = (ts?: string) =>
+  ts ? new Date(ts).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', second: '2-digit' }) : '';
+
+const RunEventView: React.FC<{ event: RunEvent }> = ({ event }) => {
+  const isError = event.type === 'error';
+  // Own keys only, so types like "constructor" don't resolve to Object.prototype
+  const renderer = (!isError && Object.hasOwn(eventRenderers, event.type) && eventRenderers[event.type]) || fallbackRenderer;
+  const Body = renderer.render;
+
+  if (renderer.compact) {
+    return (
+      <div className="flex items-center gap-3 text-[10px] text-slate-500 font-mono animate-in fade-in duration-300">
+        <div className="h-px flex-1 bg-white/5"></div>
+        <span className={`flex items-center gap-1.5 ${renderer.accent}`}>
+          {renderer.icon}
+          <Body event={event} />
+        </span>
+        <span className="text-slate-600">{formatTime(event.ts)}</span>
+        <div className="h-px flex-1 bg-white/5"></div>
+      </div>
+    );
+  }
+
+  const isRaw = renderer === fallbackRenderer;
+  return (
+    <div className="flex gap-4 max-w-full sm:max-w-[90%] animate-in fade-in slide-in-from-bottom-2 duration-300 group">
+      <div className="flex-shrink-0 mt-1 hidden sm:block">
+        <div className={`w-8 h-8 rounded-lg flex items-center justify-center border transition-colors ${isError ? 'bg-red-500/10 border-red-500/20 text-red-400' : `bg-white/5 border-white/5 ${renderer.accent} group-hover:border-purple-500/30 group-hover:bg-purple-500/10`}`}>
+          {isError ? <AlertCircle size={16} /> : renderer.icon}
+        </div>
+      </div>
+      <div className="flex-1 min-w-0">
+        <div className="flex items-center gap-2 mb-2">
+          <span className={`text-[10px] font-bold uppercase tracking-wider ${isError ? 'text-red-400' : renderer.accent}`}>
+            {renderer.label || event.type || 'System'}
+          </span>
+          <span className="text-[10px] text-slate-600 font-mono flex items-center gap-1">
+            <Clock size={10} />
+            {formatTime(event.ts)}
+          </span>
+        </div>
+
+        <div className={`text-xs sm:text-sm leading-relaxed rounded-xl border shadow-sm overflow-x-auto custom-scrollbar ${
+          isError ? 'p-4 font-mono bg-red-950/30 border-red-500/20 text-red-200' :
+          isRaw ? 'p-4 font-mono bg-[#0a0a0a]/60 border-white/5 text-slate-300' :
+          'p-3 bg-[#0a0a0a]/60 border-white/5 text-slate-300'
+        }`}>
+          <Body event={event} />
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default RunEventView;
@@ -1,63 +1,211 @@
-import React, { useEffect, useState } from 'react';
+import React, { useEffect, useState, useRef } from 'react';
 import { RunSummary, User } from '../types';
 import { api } from '../api/heidi';
-import { RefreshCw, Settings, Circle, CheckCircle, XCircle, AlertTriangle, PanelLeft, User as UserIcon, Plus, History, Sparkles, X, Layers, Coins, LogOut, Bot, Trash2 } from 'lucide-react';
+import { useConnectionProfiles } from '../hooks/useConnectionProfiles';
+import { useRunFilters, filtersToQuery, countActiveFilters } from '../hooks/useRunFilters';
+import { toast, confirmToast } from '../hooks/useToasts';
+import { describeError } from '../api/errors';
+import ProfileSwitcher from './ProfileSwitcher';
+import GeminiChatList from './GeminiChatList';
+import PresenceAvatars from './PresenceAvatars';
+import { Peer } from '../hooks/useCollaboration';
+import { RefreshCw, Settings, Circle, CheckCircle, XCircle, AlertTriangle, PanelLeft, User as UserIcon, Plus, History, Sparkles, X, Layers, Coins, LogOut, Bot, Trash2, Search, SlidersHorizontal, Link2, Check, Loader2, GitCompare, Square, CheckSquare, BarChart3, MessageSquare } from 'lucide-react';
+
+const PAGE_SIZE = 20;
+const SEARCH_DEBOUNCE_MS = 300;
+
+const STATUS_OPTIONS = ['completed', 'failed', 'cancelled', 'running', 'planning', 'executing', 'reviewing', 'auditing'];
+
+const filterInputClass = "w-full bg-black/30 border border-white/10 rounded-lg px-2 py-1.5 text-[11px] text-slate-200 focus:outline-none focus:border-purple-500/40 [color-scheme:dark]";
 
 interface SidebarProps {
-  currentView: 'chat' | 'settings' | 'gemini';
-  onNavigate: (view: 'chat' | 'settings' | 'gemini') => void;
+  currentView: 'chat' | 'settings' | 'gemini' | 'compare' | 'analytics';
+  onNavigate: (view: 'chat' | 'settings' | 'gemini' | 'analytics') => void;
   onNewChat: () => void;
   onSelectRun: (runId: string) => void;
+  onCompareRuns: (runIds: string[]) => void;
+  selectedChatId: string | null;
+  onSelectChat: (chatId: string | null) => void;
   selectedRunId: string | null;
   refreshTrigger: number;
   isOpen: boolean;
   onToggle: () => void;
   user: User | null;
+  peers?: Peer[]; // Collaboration room members, to show who is viewing which run
 }
 
-const Sidebar: React.FC<SidebarProps> = ({ currentView, onNavigate, onNewChat, onSelectRun, selectedRunId, refreshTrigger, isOpen, onToggle, user }) => {
+const Sidebar: React.FC<SidebarProps> = ({ currentView, onNavigate, onNewChat, onSelectRun, onCompareRuns, selectedChatId, onSelectChat, selectedRunId, refreshTrigger, isOpen, onToggle, user, peers = [] }) => {
   const [runs, setRuns] = useState<RunSummary[]>([]);
   const [loading, setLoading] = useState(false);
-  const [error, setError] = useState(false);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [hasMore, setHasMore] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const { activeProfile } = useConnectionProfiles();
+  const { filters, updateFilter, clearFilters } = useRunFilters();
+  const [searchText, setSearchText] = useState(filters.q);
+  const [showFilters, setShowFilters] = useState(() => countActiveFilters(filters) > 0);
+  const [agents, setAgents] = useState<string[]>([]);
+  const [linkCopied, setLinkCopied] = useState(false);
+  const [compareMode, setCompareMode] = useState(false);
+  const [compareSelection, setCompareSelection] = useState<string[]>([]);
+  // History belongs to the active profile; ignore responses for a profile we switched away from
+  const profileIdRef = useRef(activeProfile.id);
+  // Bumped on every reset so late pages from an older query are dropped
+  const queryGenRef = useRef(0);
+  const pageRef = useRef<{ cursor?: string; offset: number }>({ offset: 0 });
+  const fetchedIdsRef = useRef<Set<string>>(new Set()); // Runs the backend sent for this query
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const sentinelRef = useRef<HTMLDivElement>(null);
+  const fetchAbortRef = useRef<AbortController | null>(null);
+
+  const activeFilterCount = countActiveFilters(filters);
+  const isFiltered = activeFilterCount > 0 || !!filters.q.trim();
+  const filterKey = JSON.stringify(filters);
 
   const fetchRuns = async () => {
+    const gen = ++queryGenRef.current;
+    // A newer query makes any page still loading for the old one irrelevant
+    fetchAbortRef.current?.abort();
+    const controller = new AbortController();
+    fetchAbortRef.current = controller;
     setLoading(true);
-    setError(false);
+    setError(null);
     try {
-      const data = await api.getRuns(15);
-      setRuns(data);
+      const page = await api.getRunsPage({ ...filtersToQuery(filters), limit: PAGE_SIZE }, { signal: controller.signal });
+      if (gen !== queryGenRef.current) return;
+      setRuns(page.runs);
+      setHasMore(page.has_more);
+      pageRef.current = { cursor: page.next_cursor, offset: PAGE_SIZE };
+      fetchedIdsRef.current = new Set(page.fetched_ids);
     } catch (error) {
-      console.warn("Failed to load history:", error);
-      setError(true);
+      if (gen !== queryGenRef.current) return;
+      setError(describeError(error, 'Failed to load history'));
     } finally {
-      setLoading(false);
+      if (gen === queryGenRef.current) setLoading(false);
+    }
+  };
+
+  const loadMore = async () => {
+    if (loading || loadingMore || !hasMore) return;
+    const gen = queryGenRef.current;
+    const { cursor, offset } = pageRef.current;
+    setLoadingMore(true);
+    try {
+      const page = await api.getRunsPage({
+        ...filtersToQuery(filters),
+        limit: PAGE_SIZE,
+        ...(cursor ? { cursor } : { offset }),
+      }, { signal: fetchAbortRef.current?.signal });
+      if (gen !== queryGenRef.current) return;
+      setRuns(prev => {
+        const seen = new Set(prev.map(r => r.run_id));
+        return [...prev, ...page.runs.filter(r => !seen.has(r.run_id))];
+      });
+      // Stop when the backend only sends runs it already sent (it ignores
+      // paging), or the observer would keep asking for the same page
+      const fetched = fetchedIdsRef.current;
+      const fetchedBefore = fetched.size;
+      page.fetched_ids.forEach(id => fetched.add(id));
+      setHasMore(page.has_more && fetched.size > fetchedBefore);
+      pageRef.current = { cursor: page.next_cursor, offset: offset + PAGE_SIZE };
+    } catch (error) {
+      if (gen !== queryGenRef.current) return;
+      toast.error('Could not load more runs', error);
+      setHasMore(false);
+    } finally {
+      if (gen === queryGenRef.current) setLoadingMore(false);
     }
   };
 
   useEffect(() => {
+    if (profileIdRef.current !== activeProfile.id) {
+      profileIdRef.current = activeProfile.id;
+      setRuns([]);
+    }
     fetchRuns();
-  }, [refreshTrigger]);
+  }, [refreshTrigger, activeProfile.id, filterKey]);
+
+  useEffect(() => () => fetchAbortRef.current?.abort(), []);
+
+  useEffect(() => {
+    api.getAgents().then(list => setAgents(list.map(a => a.name))).catch(() => setAgents([]));
+  }, [activeProfile.id]);
+
+  // Debounce typing into the search filter
+  useEffect(() => {
+    if (searchText === filters.q) return;
+    const timer = setTimeout(() => updateFilter('q', searchText), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [searchText]);
+
+  // Keep the input in sync when filters change from outside (back/forward, clear)
+  useEffect(() => {
+    setSearchText(filters.q);
+  }, [filters.q]);
+
+  // Infinite scroll: load the next page when the sentinel comes into view
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (!sentinel || !hasMore || loading || loadingMore) return;
+    const observer = new IntersectionObserver(entries => {
+      if (entries.some(e => e.isIntersecting)) loadMore();
+    }, { root: scrollRef.current, rootMargin: '120px' });
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [hasMore, loading, loadingMore, runs.length, filterKey]);
+
+  const toggleCompareSelection = (runId: string) => {
+    setCompareSelection(prev => prev.includes(runId) ? prev.filter(id => id !== runId) : [...prev, runId]);
+  };
+
+  const exitCompareMode = () => {
+    setCompareMode(false);
+    setCompareSelection([]);
+  };
+
+  const handleCompare = () => {
+    if (compareSelection.length < 2) return;
+    onCompareRuns(compareSelection);
+    exitCompareMode();
+  };
+
+  const handleCopyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(window.location.href);
+      setLinkCopied(true);
+      setTimeout(() => setLinkCopied(false), 2000);
+    } catch (e) {
+      toast.error('Could not copy link', e);
+    }
+  };
+
+  // Executors offered in the filter: agents from the backend plus any seen in history
+  const executorOptions = Array.from(new Set([
+    ...agents,
+    ...runs.map(r => r.executor).filter((e): e is string => !!e),
+    ...(filters.executor ? [filters.executor] : []),
+  ])).sort();
 
   const handleLogout = async () => {
       try {
           await api.logout();
           window.location.reload();
       } catch (e) {
-          console.error("Logout failed", e);
+          toast.error('Could not log out', e);
       }
   };
 
   const handleDelete = async (runId: string) => {
-      if (confirm('Are you sure you want to delete this run?')) {
-          try {
-              await api.deleteRun(runId);
-              setRuns(prev => prev.filter(r => r.run_id !== runId));
-              if (selectedRunId === runId) {
-                  onNewChat();
-              }
-          } catch (e) {
-              console.error("Failed to delete run", e);
+      if (!await confirmToast('Delete this run?', { message: `#${runId.substring(0, 8)} and its history will be removed.`, confirmLabel: 'Delete', danger: true })) return;
+      try {
+          await api.deleteRun(runId);
+          setRuns(prev => prev.filter(r => r.run_id !== runId));
+          if (selectedRunId === runId) {
+              onNewChat();
           }
+          toast.success('Run deleted');
+      } catch (e) {
+          toast.error('Could not delete run', e);
       }
   };
 
@@ -100,6 +248,9 @@ const Sidebar: React.FC<SidebarProps> = ({ currentView, onNavigate, onNewChat, o
         </button>
       </div>
 
+      {/* Connection Profile */}
+      <ProfileSwitcher onManage={() => onNavigate('settings')} />
+
       {/* Main Actions */}
       <div className="px-3 pb-6 space-y-1 shrink-0 border-b border-white/5 mb-2">
         <button
@@ -132,26 +283,135 @@ const Sidebar: React.FC<SidebarProps> = ({ currentView, onNavigate, onNewChat, o
       </div>
 
       {/* History Section */}
+      {currentView === 'gemini' ? (
+      <div className="flex-1 flex flex-col min-h-0 pt-2">
+        <div className="px-6 pb-3 flex items-center gap-2 text-xs font-bold uppercase tracking-wider text-slate-500 shrink-0">
+            <MessageSquare size={12} />
+            <span>Conversations</span>
+        </div>
+        <GeminiChatList selectedChatId={selectedChatId} onSelectChat={onSelectChat} />
+      </div>
+      ) : (
       <div className="flex-1 flex flex-col min-h-0 pt-2">
         <div className="px-6 pb-3 flex items-center justify-between text-slate-400 shrink-0">
             <div className="flex items-center gap-2 text-xs font-bold uppercase tracking-wider text-slate-500">
                 <History size={12} />
                 <span>Recent Activity</span>
             </div>
-            <button 
-                onClick={fetchRuns} 
-                className={`hover:text-purple-300 transition-colors p-1.5 rounded-md hover:bg-white/5 ${loading ? 'animate-spin' : ''}`}
-                title="Refresh history"
-            >
-                <RefreshCw size={12} />
-            </button>
+            <div className="flex items-center gap-0.5">
+                <button
+                    onClick={() => compareMode ? exitCompareMode() : setCompareMode(true)}
+                    className={`transition-colors p-1.5 rounded-md hover:bg-white/5 ${compareMode ? 'text-purple-300 bg-white/5' : 'hover:text-purple-300'}`}
+                    title="Compare runs"
+                >
+                    <GitCompare size={12} />
+                </button>
+                <button
+                    onClick={handleCopyLink}
+                    className="hover:text-purple-300 transition-colors p-1.5 rounded-md hover:bg-white/5"
+                    title="Copy link to this view"
+                >
+                    {linkCopied ? <Check size={12} className="text-emerald-400" /> : <Link2 size={12} />}
+                </button>
+                <button
+                    onClick={() => setShowFilters(v => !v)}
+                    className={`relative transition-colors p-1.5 rounded-md hover:bg-white/5 ${showFilters || activeFilterCount > 0 ? 'text-purple-300' : 'hover:text-purple-300'}`}
+                    title="Filters"
+                >
+                    <SlidersHorizontal size={12} />
+                    {activeFilterCount > 0 && (
+                        <span className="absolute -top-0.5 -right-0.5 min-w-[14px] h-[14px] px-0.5 rounded-full bg-purple-500 text-white text-[9px] font-bold flex items-center justify-center">
+                            {activeFilterCount}
+                        </span>
+                    )}
+                </button>
+                <button 
+                    onClick={fetchRuns} 
+                    className={`hover:text-purple-300 transition-colors p-1.5 rounded-md hover:bg-white/5 ${loading ? 'animate-spin' : ''}`}
+                    title="Refresh history"
+                >
+                    <RefreshCw size={12} />
+                </button>
+            </div>
         </div>
 
-        <div className="flex-1 overflow-y-auto px-3 pb-4 space-y-1 custom-scrollbar">
+        {/* Compare selection */}
+        {compareMode && (
+            <div className="mx-3 mb-2 px-3 py-2 rounded-xl bg-purple-500/5 border border-purple-500/20 flex items-center justify-between gap-2 shrink-0">
+                <span className="text-[11px] text-purple-200">
+                    {compareSelection.length < 2 ? 'Select 2 or more runs' : `${compareSelection.length} runs selected`}
+                </span>
+                <div className="flex items-center gap-1">
+                    <button onClick={exitCompareMode} className="text-[10px] text-slate-400 hover:text-white px-2 py-1 rounded-md hover:bg-white/5 font-bold">
+                        Cancel
+                    </button>
+                    <button
+                        onClick={handleCompare}
+                        disabled={compareSelection.length < 2}
+                        className="text-[10px] bg-purple-600 hover:bg-purple-500 disabled:opacity-40 disabled:hover:bg-purple-600 text-white px-2.5 py-1 rounded-md font-bold transition-colors"
+                    >
+                        Compare
+                    </button>
+                </div>
+            </div>
+        )}
+
+        {/* Search */}
+        <div className="px-3 pb-2 shrink-0">
+            <div className="relative">
+                <Search size={12} className="absolute left-3 top-1/2 -translate-y-1/2 text-slate-500 pointer-events-none" />
+                <input
+                    type="text"
+                    value={searchText}
+                    onChange={(e) => setSearchText(e.target.value)}
+                    placeholder="Search runs..."
+                    className="w-full bg-white/5 border border-white/5 rounded-lg pl-8 pr-7 py-2 text-xs text-slate-200 placeholder-slate-600 focus:outline-none focus:border-purple-500/30 focus:bg-white/[0.07] transition-colors"
+                />
+                {searchText && (
+                    <button
+                        onClick={() => { setSearchText(''); updateFilter('q', ''); }}
+                        className="absolute right-2 top-1/2 -translate-y-1/2 text-slate-500 hover:text-white p-0.5"
+                        title="Clear search"
+                    >
+                        <X size={12} />
+                    </button>
+                )}
+            </div>
+        </div>
+
+        {/* Filters */}
+        {showFilters && (
+            <div className="mx-3 mb-2 p-3 rounded-xl bg-white/[0.03] border border-white/5 space-y-2 shrink-0 animate-in fade-in slide-in-from-top-1 duration-200">
+                <div className="grid grid-cols-2 gap-2">
+                    <select value={filters.status} onChange={(e) => updateFilter('status', e.target.value)} className={filterInputClass}>
+                        <option value="">Any status</option>
+                        {STATUS_OPTIONS.map(s => <option key={s} value={s} className="capitalize">{s}</option>)}
+                    </select>
+                    <select value={filters.executor} onChange={(e) => updateFilter('executor', e.target.value)} className={filterInputClass}>
+                        <option value="">Any executor</option>
+                        {executorOptions.map(e => <option key={e} value={e}>{e}</option>)}
+                    </select>
+                    <input type="date" value={filters.from} max={filters.to || undefined} onChange={(e) => updateFilter('from', e.target.value)} className={filterInputClass} title="From date" />
+                    <input type="date" value={filters.to} min={filters.from || undefined} onChange={(e) => updateFilter('to', e.target.value)} className={filterInputClass} title="To date" />
+                    <input type="number" min="0" step="0.01" value={filters.minCost} onChange={(e) => updateFilter('minCost', e.target.value)} placeholder="Min $" className={filterInputClass} />
+                    <input type="number" min="0" step="0.01" value={filters.maxCost} onChange={(e) => updateFilter('maxCost', e.target.value)} placeholder="Max $" className={filterInputClass} />
+                </div>
+                {isFiltered && (
+                    <button
+                        onClick={() => { clearFilters(); setSearchText(''); }}
+                        className="w-full text-[10px] font-bold uppercase tracking-wider text-slate-400 hover:text-white py-1 rounded-md hover:bg-white/5 transition-colors"
+                    >
+                        Clear filters
+                    </button>
+                )}
+            </div>
+        )}
+
+        <div ref={scrollRef} className="flex-1 overflow-y-auto px-3 pb-4 space-y-1 custom-scrollbar">
             {error ? (
                 <div className="m-2 p-4 text-center bg-red-500/5 rounded-xl border border-red-500/10">
                     <AlertTriangle size={20} className="mx-auto text-red-400 mb-2" /> 
-                    <p className="text-xs text-red-200 font-medium mb-2">Failed to load history</p>
+                    <p className="text-xs text-red-200 font-medium mb-2">{error}</p>
                     <button 
                         onClick={fetchRuns}
                         className="text-[10px] bg-red-500/10 hover:bg-red-500/20 text-red-200 px-3 py-1.5 rounded border border-red-500/20 transition-colors font-bold"
@@ -164,18 +424,30 @@ const Sidebar: React.FC<SidebarProps> = ({ currentView, onNavigate, onNewChat, o
                 {runs.map((run) => (
                 <button
                     key={run.run_id}
-                    onClick={() => onSelectRun(run.run_id)}
+                    onClick={() => compareMode ? toggleCompareSelection(run.run_id) : onSelectRun(run.run_id)}
                     className={`w-full text-left p-3 rounded-xl transition-all duration-200 border group relative overflow-hidden mb-1 ${
-                    selectedRunId === run.run_id
+                    compareMode && compareSelection.includes(run.run_id)
+                        ? 'bg-purple-500/10 border-purple-500/30 text-white'
+                        : selectedRunId === run.run_id
                         ? 'bg-white/[0.08] border-white/10 text-white shadow-md'
                         : 'border-transparent text-slate-400 hover:bg-white/5 hover:text-slate-200 hover:border-white/5'
                     }`}
                 >
                     <div className="flex items-center justify-between mb-1.5">
-                        <span className="text-[10px] font-mono opacity-50 bg-black/20 px-1.5 py-0.5 rounded border border-white/5">
-                            #{run.run_id.substring(0, 5)}
+                        <span className="flex items-center gap-2">
+                            {compareMode && (
+                                compareSelection.includes(run.run_id)
+                                    ? <CheckSquare size={12} className="text-purple-300" />
+                                    : <Square size={12} className="text-slate-600" />
+                            )}
+                            <span className="text-[10px] font-mono opacity-50 bg-black/20 px-1.5 py-0.5 rounded border border-white/5">
+                                #{run.run_id.substring(0, 5)}
+                            </span>
+                        </span>
+                        <span className="flex items-center gap-2">
+                            <PresenceAvatars peers={peers.filter(p => p.viewing?.runId === run.run_id)} max={3} size="sm" />
+                            {getStatusIcon(run.status)}
                         </span>
-                        {getStatusIcon(run.status)}
                     </div>
                     <div className="text-xs font-medium line-clamp-2 leading-relaxed opacity-90 pr-2 mb-1.5">
                         {run.task || run.executor || 'Untitled Run'}
@@ -198,36 +470,72 @@ const Sidebar: React.FC<SidebarProps> = ({ currentView, onNavigate, onNewChat, o
                     )}
                     
                     {/* Delete Action */}
-                    <div className={`absolute right-2 top-1/2 -translate-y-1/2 opacity-0 transition-all duration-300 ${selectedRunId === run.run_id ? 'opacity-100 translate-x-0' : 'group-hover:opacity-100 group-hover:translate-x-0'}`}>
-                        <div
-                            onClick={(e) => {
-                                e.stopPropagation();
-                                handleDelete(run.run_id);
-                            }}
-                            className="p-1.5 text-slate-500 hover:text-red-400 hover:bg-red-500/10 rounded-full transition-colors cursor-pointer"
-                            title="Delete Run"
-                        >
-                            <Trash2 size={14} />
+                    {!compareMode && (
+                        <div className={`absolute right-2 top-1/2 -translate-y-1/2 opacity-0 transition-all duration-300 ${selectedRunId === run.run_id ? 'opacity-100 translate-x-0' : 'group-hover:opacity-100 group-hover:translate-x-0'}`}>
+                            <div
+                                onClick={(e) => {
+                                    e.stopPropagation();
+                                    handleDelete(run.run_id);
+                                }}
+                                className="p-1.5 text-slate-500 hover:text-red-400 hover:bg-red-500/10 rounded-full transition-colors cursor-pointer"
+                                title="Delete Run"
+                            >
+                                <Trash2 size={14} />
+                            </div>
                         </div>
-                    </div>
+                    )}
                 </button>
                 ))}
                 
+                {/* Infinite scroll sentinel */}
+                {hasMore && (
+                    <div ref={sentinelRef} className="flex justify-center py-3">
+                        {loadingMore ? (
+                            <Loader2 size={14} className="text-slate-500 animate-spin" />
+                        ) : (
+                            <button onClick={loadMore} className="text-[10px] text-slate-500 hover:text-slate-300 font-bold uppercase tracking-wider">
+                                Load more
+                            </button>
+                        )}
+                    </div>
+                )}
+
                 {runs.length === 0 && !loading && (
                     <div className="flex flex-col items-center justify-center py-10 text-slate-600 gap-2">
                         <div className="w-12 h-12 rounded-full bg-white/5 flex items-center justify-center">
-                            <History size={20} className="opacity-20" />
+                            {isFiltered ? <Search size={20} className="opacity-20" /> : <History size={20} className="opacity-20" />}
                         </div>
-                        <span className="text-xs">No run history yet</span>
+                        <span className="text-xs">{isFiltered ? 'No runs match these filters' : 'No run history yet'}</span>
+                        {isFiltered && (
+                            <button
+                                onClick={() => { clearFilters(); setSearchText(''); }}
+                                className="text-[10px] text-purple-300 hover:text-purple-200 font-bold"
+                            >
+                                Clear filters
+                            </button>
+                        )}
                     </div>
                 )}
             </>
             )}
         </div>
       </div>
+      )}
       
       {/* Footer / Settings */}
       <div className="p-4 border-t border-white/5 mt-auto bg-black/20 shrink-0 space-y-2">
+          <button
+            onClick={() => onNavigate('analytics')}
+            className={`w-full flex items-center gap-3 px-3 py-2.5 rounded-xl transition-all duration-200 group ${
+                currentView === 'analytics' 
+                ? 'bg-white/10 text-white' 
+                : 'text-slate-400 hover:bg-white/5 hover:text-slate-200'
+            }`}
+            >
+            <BarChart3 size={18} />
+            <span className="text-sm font-medium">Usage & Cost</span>
+          </button>
+
           <button
             onClick={() => onNavigate('settings')}
             className={`w-full flex items-center gap-3 px-3 py-2.5 rounded-xl transition-all duration-200 group ${
@@ -0,0 +1,70 @@
+import React, { useState } from 'react';
+import { useToasts, Toast } from '../hooks/useToasts';
+import { CheckCircle, Info, AlertCircle, X, Copy, Check } from 'lucide-react';
+
+const KIND_STYLES = {
+  success: { icon: CheckCircle, className: 'border-emerald-500/30 text-emerald-300' },
+  info: { icon: Info, className: 'border-indigo-500/30 text-indigo-300' },
+  error: { icon: AlertCircle, className: 'border-red-500/30 text-red-300' },
+};
+
+const RequestId: React.FC<{ id: string }> = ({ id }) => {
+  const [copied, setCopied] = useState(false);
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(id);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (e) {
+      // Clipboard unavailable; the id is still selectable
+    }
+  };
+  return (
+    <button onClick={handleCopy} className="mt-1 flex items-center gap-1 text-[10px] font-mono text-slate-500 hover:text-slate-300 transition-colors" title="Copy request ID">
+      {copied ? <Check size={10} /> : <Copy size={10} />} Request {id}
+    </button>
+  );
+};
+
+const ToastItem: React.FC<{ toast: Toast; onDismiss: (id: string, confirmed?: boolean) => void }> = ({ toast, onDismiss }) => {
+  const { icon: Icon, className } = KIND_STYLES[toast.kind];
+  return (
+    <div className={`pointer-events-auto w-80 bg-black/80 backdrop-blur-xl border rounded-xl shadow-2xl p-3 flex gap-3 animate-in slide-in-from-bottom-2 fade-in duration-200 ${className}`} role={toast.kind === 'error' ? 'alert' : 'status'}>
+      <Icon size={16} className="flex-shrink-0 mt-0.5" />
+      <div className="flex-1 min-w-0">
+        <div className="text-sm font-medium text-white">{toast.title}</div>
+        {toast.message && <div className="text-xs text-slate-400 mt-0.5 break-words">{toast.message}</div>}
+        {toast.requestId && <RequestId id={toast.requestId} />}
+        {toast.confirm && (
+          <div className="flex justify-end gap-2 mt-3">
+            <button onClick={() => onDismiss(toast.id, false)} className="px-3 py-1 rounded-lg text-xs text-slate-300 hover:bg-white/10 transition-colors">
+              Cancel
+            </button>
+            <button
+              onClick={() => onDismiss(toast.id, true)}
+              className={`px-3 py-1 rounded-lg text-xs font-medium text-white transition-colors ${toast.confirm.danger ? 'bg-red-600 hover:bg-red-500' : 'bg-indigo-600 hover:bg-indigo-500'}`}
+            >
+              {toast.confirm.label}
+            </button>
+          </div>
+        )}
+      </div>
+      <button onClick={() => onDismiss(toast.id, false)} className="self-start text-slate-500 hover:text-white transition-colors" aria-label="Dismiss">
+        <X size={14} />
+      </button>
+    </div>
+  );
+};
+
+// Stack of notifications in the bottom right corner; rendered once by App
+const Toaster: React.FC = () => {
+  const { toasts, dismiss } = useToasts();
+  if (toasts.length === 0) return null;
+  return (
+    <div className="fixed bottom-4 right-4 z-[200] flex flex-col gap-2 pointer-events-none">
+      {toasts.map(t => <ToastItem key={t.id} toast={t} onDismiss={dismiss} />)}
+    </div>
+  );
+};
+
+export default Toaster;
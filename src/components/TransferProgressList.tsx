@@ -0,0 +1,77 @@
+import React from 'react';
+import { TransferProgress, MAX_TRANSFER_BYTES, formatBytes } from '../api/collabTransfer';
+import { AttachmentKind } from '../api/gemini';
+import { Image as ImageIcon, Video, AlertTriangle, CheckCircle, PauseCircle } from 'lucide-react';
+
+interface TransferProgressListProps {
+  kind: AttachmentKind;
+  size: number;
+  progress: TransferProgress[];
+  direction: 'send' | 'receive';
+  peerName: (peerId: string) => string;
+}
+
+const ProgressBar: React.FC<{ value: number; paused?: boolean }> = ({ value, paused }) => (
+  <div className="flex-1 h-1 rounded-full bg-white/10 overflow-hidden">
+    <div className={`h-full rounded-full ${paused ? 'bg-amber-400' : 'bg-green-400'}`} style={{ width: `${Math.round(value * 100)}%` }}></div>
+  </div>
+);
+
+// Attachment transfer state on a collaboration message: the download for
+// received messages, one row per peer for messages we sent
+const TransferProgressList: React.FC<TransferProgressListProps> = ({ kind, size, progress, direction, peerName }) => {
+  const entries = progress.filter(p => p.direction === direction);
+  const label = kind === 'video' ? 'Video' : 'Image';
+  const Icon = kind === 'video' ? Video : ImageIcon;
+
+  if (size > MAX_TRANSFER_BYTES) {
+    return (
+      <div className="mb-2 flex items-center gap-2 px-3 py-2 rounded-lg bg-black/20 border border-white/10 text-xs text-slate-400">
+        <AlertTriangle size={14} className="text-amber-400" />
+        {label} ({formatBytes(size)}) is over the {formatBytes(MAX_TRANSFER_BYTES)} sharing limit
+      </div>
+    );
+  }
+
+  if (direction === 'send') {
+    if (entries.length === 0 || entries.every(p => p.status === 'done')) {
+      return entries.length > 0 ? (
+        <div className="mt-1 flex items-center gap-1 text-[10px] text-indigo-200/70">
+          <CheckCircle size={10} /> {label} sent to {entries.length} {entries.length === 1 ? 'peer' : 'peers'}
+        </div>
+      ) : null;
+    }
+    return (
+      <div className="mt-2 space-y-1 text-[10px]">
+        {entries.map(p => (
+          <div key={p.peerId} className="flex items-center gap-2">
+            <span className="w-20 truncate opacity-80">{peerName(p.peerId)}</span>
+            <ProgressBar value={p.size ? p.bytes / p.size : 0} paused={p.status === 'paused'} />
+            <span className="w-16 text-right font-mono opacity-80">
+              {p.status === 'failed' ? 'failed' : p.status === 'paused' ? 'paused' : p.status === 'done' ? 'done' : `${Math.round((p.bytes / p.size) * 100)}%`}
+            </span>
+          </div>
+        ))}
+      </div>
+    );
+  }
+
+  const current = entries[0];
+  return (
+    <div className="mb-2 px-3 py-2 rounded-lg bg-black/20 border border-white/10 text-xs text-slate-400 space-y-1.5">
+      <div className="flex items-center gap-2">
+        <Icon size={14} />
+        {current?.status === 'failed' ? (
+          <span className="text-red-400">{label} transfer failed{current.error ? `: ${current.error}` : ''}</span>
+        ) : current?.status === 'paused' ? (
+          <span className="flex items-center gap-1 text-amber-300"><PauseCircle size={12} /> Waiting for {peerName(current.peerId)} to reconnect</span>
+        ) : (
+          <span>Receiving {label.toLowerCase()} · {formatBytes(current?.bytes || 0)} / {formatBytes(size)}</span>
+        )}
+      </div>
+      {current?.status !== 'failed' && <ProgressBar value={current ? current.bytes / size : 0} paused={current?.status === 'paused'} />}
+    </div>
+  );
+};
+
+export default TransferProgressList;
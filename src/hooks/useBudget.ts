@@ -0,0 +1,98 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { api } from '../api/heidi';
+import { useConnectionProfiles } from './useConnectionProfiles';
+
+const BUDGET_KEY = 'HEIDI_MONTHLY_BUDGET';
+const BUDGET_CHANGE_EVENT = 'heidi:budget-change';
+// Newly created runs show up here; older ones come from the last full walk
+const RECENT_RUNS = 50;
+
+const readBudget = (): number | null => {
+  const value = parseFloat(localStorage.getItem(BUDGET_KEY) || '');
+  return isNaN(value) || value <= 0 ? null : value;
+};
+
+export const saveBudget = (budget: number | null) => {
+  if (budget && budget > 0) localStorage.setItem(BUDGET_KEY, String(budget));
+  else localStorage.removeItem(BUDGET_KEY);
+  window.dispatchEvent(new CustomEvent(BUDGET_CHANGE_EVENT));
+};
+
+// First day of the current month as YYYY-MM-DD (local time)
+export const monthStart = (date = new Date()) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-01`;
+
+// Monthly spending limit plus this month's spend on the active backend
+export const useMonthlyBudget = (refreshTrigger = 0) => {
+  const [budget, setBudget] = useState<number | null>(readBudget);
+  const [spent, setSpent] = useState<number | null>(null);
+  const [loading, setLoading] = useState(false);
+  const { activeProfile } = useConnectionProfiles();
+
+  useEffect(() => {
+    const sync = () => setBudget(readBudget());
+    const onStorage = (e: StorageEvent) => { if (e.key === BUDGET_KEY) sync(); };
+    window.addEventListener(BUDGET_CHANGE_EVENT, sync);
+    window.addEventListener('storage', onStorage);
+    return () => {
+      window.removeEventListener(BUDGET_CHANGE_EVENT, sync);
+      window.removeEventListener('storage', onStorage);
+    };
+  }, []);
+
+  // Cost per run for this month on one profile, from the last full walk
+  // plus any recent pages fetched since
+  const costsRef = useRef<{ key: string; costs: Map<string, number> } | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  // `full` walks the whole month; otherwise only the newest runs are fetched
+  // when this profile's month is already known. A newer load cancels the
+  // one in flight so a slow walk can't overwrite a newer result.
+  const load = useCallback(async (full: boolean) => {
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
+    const from = monthStart();
+    const key = `${activeProfile.id}|${from}`;
+    const known = !full && costsRef.current?.key === key ? costsRef.current.costs : null;
+    setLoading(true);
+    try {
+      const runs = known
+        ? (await api.getRunsPage({ from, limit: RECENT_RUNS }, { signal: controller.signal })).runs
+        : await api.collectRuns({ from }, undefined, { signal: controller.signal });
+      if (controller.signal.aborted) return;
+      const costs = new Map(known || []);
+      runs.forEach(run => costs.set(run.run_id, run.usage?.cost_usd || 0));
+      costsRef.current = { key, costs };
+      setSpent([...costs.values()].reduce((sum, cost) => sum + cost, 0));
+    } catch (e) {
+      if (controller.signal.aborted) return;
+      console.warn("Failed to load monthly spend:", e);
+      setSpent(null);
+    } finally {
+      if (abortRef.current === controller) {
+        abortRef.current = null;
+        setLoading(false);
+      }
+    }
+  }, [activeProfile.id]);
+
+  const refresh = useCallback(() => load(true), [load]);
+
+  // Spend only matters once a budget is set
+  useEffect(() => {
+    if (budget === null) return;
+    load(false);
+  }, [budget !== null, refreshTrigger, load]);
+
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  return {
+    budget,
+    spent,
+    loading,
+    exceeded: budget !== null && spent !== null && spent > budget,
+    setBudget: saveBudget,
+    refresh,
+  };
+};
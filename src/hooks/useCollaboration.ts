@@ -1,44 +1,342 @@
 import { useState, useEffect, useRef, useCallback } from 'react';
+import {
+  PROTOCOL_VERSION, ACK_TIMEOUT_MS, MAX_RESENDS, RoomMessage, RoomMessageKind, RoomAttachment, WireMessage,
+  PeerProfile, PresenceStatus, PresenceView, createMessageId, mergeMessages, parseWireMessage, missingMessages,
+} from '../api/collabProtocol';
+import {
+  CHUNK_SIZE, MAX_TRANSFER_BYTES, TransferProgress, chunkCount, chunkLength, chunkAt, firstMissingChunk, assembleChunks,
+  sha256Hex, base64ToBytes, bytesToBase64,
+} from '../api/collabTransfer';
+import { RoomJoin, getClientId, getActiveRoom, saveActiveRoom, readInvite, clearInvite } from '../api/collabRooms';
+import { TransportRoom, TransportKind, getTransportSettings, joinTransportRoom } from '../api/collabTransport';
+import { usePresenceStatus } from './usePresenceStatus';
 
 export interface Peer {
-  id: string;
+  id: string; // Transport peer id; changes when the peer reloads
+  profile?: PeerProfile;
+  status?: PresenceStatus;
+  viewing?: PresenceView | null;
   isTyping?: boolean;
   stream?: MediaStream;
 }
 
-export const useCollaboration = (roomId: string | null) => {
+// What we announce about ourselves; the client id is added by the hook
+export type LocalProfile = Omit<PeerProfile, 'clientId'>;
+
+// Attachment as the UI holds it, before it is announced and chunked
+export interface OutgoingAttachment {
+  type: 'image' | 'video';
+  data: string; // base64
+  mimeType: string;
+}
+
+interface IncomingTransfer {
+  meta: RoomAttachment;
+  chunks: (Uint8Array | undefined)[];
+  received: number;
+  bytes: number;
+  source: string; // Peer we are pulling chunks from
+  retried: boolean;
+}
+
+interface PendingAck {
+  message: RoomMessage;
+  waitingFor: Set<string>;
+  resends: number;
+}
+
+export type Collaboration = ReturnType<typeof useCollaboration>;
+
+// One room at a time for the whole app, so presence can follow the user
+// from page to page. An invite link in the address, or the room this tab was
+// in before a reload, is joined on start.
+export const useCollaboration = (profile: LocalProfile, viewing: PresenceView | null) => {
+  const [room, setRoom] = useState<RoomJoin | null>(() => readInvite() || getActiveRoom());
+  const [clientId] = useState(getClientId);
+  const status = usePresenceStatus();
+  const roomId = room?.id || null;
+  const passphrase = room?.passphrase || null;
   const [peers, setPeers] = useState<Peer[]>([]);
-  const [messages, setMessages] = useState<any[]>([]);
+  // Shared room transcript in agreed order, including our own messages
+  const [messages, setMessages] = useState<RoomMessage[]>([]);
+  // Peers that acknowledged each of our messages
+  const [acks, setAcks] = useState<Record<string, string[]>>({});
+  const [transportKind, setTransportKind] = useState<TransportKind | null>(null);
+  const [supportsMedia, setSupportsMedia] = useState(false);
+  const [connectionError, setConnectionError] = useState<string | null>(null);
+  // Progress per attachment, one entry per peer and direction
+  const [transfers, setTransfers] = useState<Record<string, TransferProgress[]>>({});
+  // Completed incoming attachments as base64, by transferId
+  const [files, setFiles] = useState<Record<string, string>>({});
   const [typingUsers, setTypingUsers] = useState<string[]>([]);
   const [localStream, setLocalStream] = useState<MediaStream | null>(null);
   
-  const roomRef = useRef<any>(null);
+  const roomRef = useRef<TransportRoom | null>(null);
   const actionsRef = useRef<any>(null);
+  const transcriptRef = useRef<RoomMessage[]>([]);
+  const clockRef = useRef(0);
+  const pendingRef = useRef<Map<string, PendingAck>>(new Map());
+  const presenceRef = useRef({ profile, status, viewing });
+  presenceRef.current = { profile, status, viewing };
+  const connectedRef = useRef<Set<string>>(new Set());
+  // Attachments we can serve: our own plus any we finished receiving
+  const servableRef = useRef<Map<string, Uint8Array>>(new Map());
+  const incomingRef = useRef<Map<string, IncomingTransfer>>(new Map());
+  // Next chunk to send per transferId:peerId while a send loop is running
+  const sendCursorsRef = useRef<Map<string, { next: number }>>(new Map());
+
+  const sendPresence = (target?: string) => {
+    const { profile, status, viewing } = presenceRef.current;
+    actionsRef.current?.send({ v: PROTOCOL_VERSION, type: 'presence', profile: { ...profile, clientId }, status, viewing }, target);
+  };
+
+  // A reloaded peer comes back under a new transport id; its announcement
+  // replaces the entry left behind by the old connection
+  const updatePresence = (peerId: string, wire: Extract<WireMessage, { type: 'presence' }>) => {
+    setPeers(prev => {
+      const others = prev.filter(p => p.id !== peerId && p.profile?.clientId !== wire.profile.clientId);
+      const current = prev.find(p => p.id === peerId) || { id: peerId };
+      return [...others, { ...current, profile: wire.profile, status: wire.status, viewing: wire.viewing }];
+    });
+  };
+
+  const addToTranscript = (incoming: RoomMessage[]) => {
+    incoming.forEach(m => { clockRef.current = Math.max(clockRef.current, m.lamport); });
+    const merged = mergeMessages(transcriptRef.current, incoming);
+    if (merged === transcriptRef.current) return;
+    transcriptRef.current = merged;
+    setMessages(merged);
+  };
+
+  const setProgress = (progress: TransferProgress) => {
+    setTransfers(prev => ({
+      ...prev,
+      [progress.transferId]: [
+        ...(prev[progress.transferId] || []).filter(p => !(p.peerId === progress.peerId && p.direction === progress.direction)),
+        progress,
+      ],
+    }));
+  };
+
+  // Asks a peer for everything from the first missing chunk onwards
+  const requestChunks = (transferId: string, peerId: string) => {
+    const incoming = incomingRef.current.get(transferId);
+    if (!incoming || !actionsRef.current) return;
+    const from = firstMissingChunk(incoming.chunks);
+    if (from === -1) return;
+    incoming.source = peerId;
+    actionsRef.current.send({ v: PROTOCOL_VERSION, type: 'chunk-request', transferId, from }, peerId);
+  };
+
+  // Starts pulling the attachment of a newly seen message
+  const trackAttachments = (incoming: RoomMessage[], fromPeer: string) => {
+    incoming.forEach(m => {
+      const meta = m.attachment;
+      if (!meta || m.senderId === clientId || !Number.isSafeInteger(meta.size) || meta.size < 0) return;
+      if (servableRef.current.has(meta.transferId) || incomingRef.current.has(meta.transferId)) return;
+      const progress: TransferProgress = { transferId: meta.transferId, peerId: fromPeer, direction: 'receive', bytes: 0, size: meta.size, status: 'active' };
+      if (meta.size > MAX_TRANSFER_BYTES) {
+        setProgress({ ...progress, status: 'rejected', error: 'Too large to share' });
+        return;
+      }
+      incomingRef.current.set(meta.transferId, {
+        meta,
+        chunks: new Array(chunkCount(meta.size)).fill(undefined),
+        received: 0,
+        bytes: 0,
+        source: fromPeer,
+        retried: false,
+      });
+      setProgress(progress);
+      requestChunks(meta.transferId, fromPeer);
+    });
+  };
+
+  // Sends chunks in order; a new request while running just moves the cursor
+  const serveChunks = async (transferId: string, peerId: string, from: number) => {
+    const bytes = servableRef.current.get(transferId);
+    if (!bytes) return;
+    const key = `${transferId}:${peerId}`;
+    const running = sendCursorsRef.current.get(key);
+    if (running) {
+      running.next = from;
+      return;
+    }
+    const cursor = { next: from };
+    sendCursorsRef.current.set(key, cursor);
+    const total = chunkCount(bytes.length);
+    const progress: TransferProgress = { transferId, peerId, direction: 'send', bytes: 0, size: bytes.length, status: 'active' };
+    try {
+      while (cursor.next < total) {
+        if (!actionsRef.current || !connectedRef.current.has(peerId)) {
+          setProgress({ ...progress, bytes: Math.min(cursor.next * CHUNK_SIZE, bytes.length), status: 'paused' });
+          return;
+        }
+        const index = cursor.next++;
+        await actionsRef.current.sendChunk(chunkAt(bytes, index), peerId, { transferId, index });
+        const sent = Math.min((index + 1) * CHUNK_SIZE, bytes.length);
+        setProgress({ ...progress, bytes: sent, status: cursor.next >= total ? 'done' : 'active' });
+      }
+    } catch (e: any) {
+      setProgress({ ...progress, status: 'failed', error: e.message });
+    } finally {
+      sendCursorsRef.current.delete(key);
+    }
+  };
+
+  const finishIncoming = async (transferId: string) => {
+    const incoming = incomingRef.current.get(transferId);
+    if (!incoming) return;
+    const progress: TransferProgress = { transferId, peerId: incoming.source, direction: 'receive', bytes: incoming.bytes, size: incoming.meta.size, status: 'done' };
+    let bytes: Uint8Array;
+    let matches: boolean;
+    try {
+      bytes = assembleChunks(incoming.chunks as Uint8Array[], incoming.meta.size);
+      matches = await sha256Hex(bytes) === incoming.meta.sha256;
+    } catch (e: any) {
+      incomingRef.current.delete(transferId);
+      setProgress({ ...progress, status: 'failed', error: e.message });
+      return;
+    }
+    if (!matches) {
+      if (incoming.retried) {
+        incomingRef.current.delete(transferId);
+        setProgress({ ...progress, status: 'failed', error: 'Checksum mismatch' });
+        return;
+      }
+      // One more try from scratch before giving up
+      incoming.retried = true;
+      incoming.chunks = new Array(incoming.chunks.length).fill(undefined);
+      incoming.received = 0;
+      incoming.bytes = 0;
+      setProgress({ ...progress, bytes: 0, status: 'active' });
+      requestChunks(transferId, incoming.source);
+      return;
+    }
+    incomingRef.current.delete(transferId);
+    servableRef.current.set(transferId, bytes);
+    setFiles(prev => ({ ...prev, [transferId]: bytesToBase64(bytes) }));
+    setProgress(progress);
+  };
+
+  const receiveChunk = (data: unknown, peerId: string, meta: { transferId: string; index: number }) => {
+    const incoming = incomingRef.current.get(meta?.transferId);
+    const index = meta?.index;
+    if (!incoming || !Number.isInteger(index) || index < 0 || index >= incoming.chunks.length || incoming.chunks[index]) return;
+    const chunk = data instanceof ArrayBuffer ? new Uint8Array(data)
+      : ArrayBuffer.isView(data) ? new Uint8Array(data.buffer, data.byteOffset, data.byteLength)
+      : null;
+    // Chunks of the wrong length would let the count complete with bytes missing
+    if (!chunk || chunk.length !== chunkLength(incoming.meta.size, index)) return;
+    incoming.chunks[index] = chunk;
+    incoming.received++;
+    incoming.bytes += chunk.length;
+    if (incoming.received === incoming.chunks.length) {
+      finishIncoming(meta.transferId);
+    } else {
+      setProgress({ transferId: meta.transferId, peerId, direction: 'receive', bytes: incoming.bytes, size: incoming.meta.size, status: 'active' });
+    }
+  };
+
+  useEffect(() => {
+    if (readInvite()) clearInvite();
+  }, []);
+
+  useEffect(() => {
+    saveActiveRoom(room);
+  }, [room]);
 
   // Initialize Room
   useEffect(() => {
+    transcriptRef.current = [];
+    clockRef.current = 0;
+    pendingRef.current.clear();
+    connectedRef.current.clear();
+    servableRef.current.clear();
+    incomingRef.current.clear();
+    sendCursorsRef.current.clear();
+    setMessages([]);
+    setAcks({});
+    setTransfers({});
+    setFiles({});
+    setPeers([]);
+    setTypingUsers([]);
+    setConnectionError(null);
     if (!roomId) return;
 
+    let cancelled = false;
     let cleanup = () => {};
+    let resendTimer: ReturnType<typeof setInterval> | undefined;
 
     const init = async () => {
       try {
-        // Dynamic import from esm.sh to avoid npm install steps for the user
-        // Trystero uses BitTorrent trackers for signaling (serverless)
-        const { joinRoom, selfId } = await import('https://esm.sh/trystero@0.19.0/torrent');
-        
-        const config = { appId: 'heidi-gemini-studio-v1' };
-        const room = joinRoom(config, roomId);
+        // Trystero or the self-hosted relay, as picked in Settings
+        const transport = getTransportSettings();
+        const room = await joinTransportRoom(transport, roomId, { appId: 'heidi-gemini-studio-v1', passphrase: passphrase || undefined });
+        if (cancelled) {
+          room.leave();
+          return;
+        }
         roomRef.current = room;
+        setTransportKind(transport.kind);
+        setSupportsMedia(room.supportsMedia);
 
         // Actions
-        const [sendMsg, getMsg] = room.makeAction('message');
-        const [sendTyping, getTyping] = room.makeAction('typing');
-        actionsRef.current = { sendMsg, sendTyping };
+        const [sendWire, getWire] = room.makeAction('collab');
+        const [sendTypingWire, getTyping] = room.makeAction('typing');
+        const [sendChunk, getChunk] = room.makeAction('chunk');
+        // Sends fail while the relay reconnects. Unacked messages are resent,
+        // and presence and history are exchanged again once peers rejoin, so
+        // nothing is lost by dropping them; chunk sends report their own failures.
+        const send = (wire: WireMessage, target?: string | string[]) =>
+          Promise.resolve(sendWire(wire, target)).catch(() => {});
+        const sendTyping = (isTyping: boolean) => Promise.resolve(sendTypingWire(isTyping)).catch(() => {});
+        actionsRef.current = { send, sendTyping, sendChunk };
+
+        getChunk(receiveChunk);
 
         // Handlers
-        getMsg((data: any, peerId: string) => {
-          setMessages(prev => [...prev, { ...data, senderId: peerId, isRemote: true }]);
+        getWire((data: any, peerId: string) => {
+          const wire = parseWireMessage(data);
+          if (!wire) {
+            console.warn(`Ignoring collaboration message from ${peerId} (unsupported protocol)`);
+            return;
+          }
+          switch (wire.type) {
+            case 'msg':
+              addToTranscript([wire.message]);
+              trackAttachments([wire.message], peerId);
+              send({ v: PROTOCOL_VERSION, type: 'ack', ids: [wire.message.id] }, peerId);
+              break;
+            case 'ack':
+              wire.ids.forEach(id => {
+                pendingRef.current.get(id)?.waitingFor.delete(peerId);
+                if (pendingRef.current.get(id)?.waitingFor.size === 0) pendingRef.current.delete(id);
+              });
+              setAcks(prev => {
+                const next = { ...prev };
+                wire.ids.forEach(id => {
+                  if (!(next[id] || []).includes(peerId)) next[id] = [...(next[id] || []), peerId];
+                });
+                return next;
+              });
+              break;
+            case 'sync-request': {
+              const missing = missingMessages(transcriptRef.current, wire.known);
+              if (missing.length > 0) send({ v: PROTOCOL_VERSION, type: 'sync', messages: missing }, peerId);
+              break;
+            }
+            case 'sync':
+              addToTranscript(wire.messages);
+              trackAttachments(wire.messages, peerId);
+              break;
+            case 'chunk-request':
+              serveChunks(wire.transferId, peerId, wire.from);
+              break;
+            case 'presence':
+              updatePresence(peerId, wire);
+              break;
+          }
         });
 
         getTyping((isTyping: boolean, peerId: string) => {
@@ -50,12 +348,30 @@ export const useCollaboration = (roomId: string | null) => {
         });
 
         room.onPeerJoin((peerId: string) => {
-          setPeers(prev => [...prev, { id: peerId }]);
+          setPeers(prev => prev.some(p => p.id === peerId) ? prev : [...prev, { id: peerId }]);
+          connectedRef.current.add(peerId);
+          sendPresence(peerId);
+          // Resume attachments whose source dropped; peers without the file ignore the request
+          incomingRef.current.forEach((incoming, transferId) => {
+            if (incoming.source === peerId || !connectedRef.current.has(incoming.source)) requestChunks(transferId, peerId);
+          });
+          // Both sides ask for what they're missing, so late joiners catch up
+          // and anything sent while we were apart is filled in
+          send({ v: PROTOCOL_VERSION, type: 'sync-request', known: transcriptRef.current.map(m => m.id) }, peerId);
           console.log(`${peerId} joined`);
         });
 
         room.onPeerLeave((peerId: string) => {
           setPeers(prev => prev.filter(p => p.id !== peerId));
+          pendingRef.current.forEach(pending => pending.waitingFor.delete(peerId));
+          connectedRef.current.delete(peerId);
+          setTransfers(prev => {
+            const next: Record<string, TransferProgress[]> = {};
+            Object.entries(prev).forEach(([id, list]) => {
+              next[id] = list.map(p => p.peerId === peerId && p.status === 'active' ? { ...p, status: 'paused' } : p);
+            });
+            return next;
+          });
           setTypingUsers(prev => prev.filter(id => id !== peerId));
           console.log(`${peerId} left`);
         });
@@ -64,33 +380,81 @@ export const useCollaboration = (roomId: string | null) => {
           setPeers(prev => prev.map(p => p.id === peerId ? { ...p, stream } : p));
         });
 
+        // Resend to peers that haven't acknowledged in time
+        resendTimer = setInterval(() => {
+          pendingRef.current.forEach((pending, id) => {
+            if (pending.waitingFor.size === 0 || pending.resends >= MAX_RESENDS) {
+              pendingRef.current.delete(id);
+              return;
+            }
+            pending.resends++;
+            send({ v: PROTOCOL_VERSION, type: 'msg', message: pending.message }, Array.from(pending.waitingFor));
+          });
+        }, ACK_TIMEOUT_MS);
+
         cleanup = () => {
+          clearInterval(resendTimer);
           room.leave();
           roomRef.current = null;
+          actionsRef.current = null;
         };
 
-      } catch (e) {
+      } catch (e: any) {
         console.error("Failed to init collaboration", e);
+        if (!cancelled) setConnectionError(e.message || 'Could not join the room');
       }
     };
 
     init();
 
     return () => {
+      cancelled = true;
       cleanup();
       if (localStream) {
         localStream.getTracks().forEach(t => t.stop());
       }
     };
-  }, [roomId]);
-
-  // Messaging
-  const broadcastMessage = useCallback((text: string, attachment?: any) => {
-    if (actionsRef.current) {
-        const msg = { text, attachment, timestamp: Date.now() };
-        actionsRef.current.sendMsg(msg);
-        // Add to own local list is handled by the UI usually, but we ensure action exists
+  }, [roomId, passphrase]);
+
+  // Announce changes to everyone already here
+  useEffect(() => {
+    sendPresence();
+  }, [status, viewing?.view, viewing?.runId, profile.userId, profile.name, profile.avatarUrl]);
+
+  // Messaging. Resolves to the sent envelope, or null when not connected.
+  // Attachments are only announced here; peers pull the bytes in chunks.
+  const broadcastMessage = useCallback(async (text: string, attachment?: OutgoingAttachment | null, kind: RoomMessageKind = 'chat'): Promise<RoomMessage | null> => {
+    if (!actionsRef.current) return null;
+    let meta: RoomAttachment | undefined;
+    if (attachment) {
+      const bytes = base64ToBytes(attachment.data);
+      meta = {
+        transferId: createMessageId(),
+        type: attachment.type,
+        mimeType: attachment.mimeType,
+        size: bytes.length,
+        sha256: await sha256Hex(bytes),
+      };
+      if (bytes.length <= MAX_TRANSFER_BYTES) servableRef.current.set(meta.transferId, bytes);
     }
+    if (!actionsRef.current) return null;
+    clockRef.current += 1;
+    const message: RoomMessage = {
+      v: PROTOCOL_VERSION,
+      id: createMessageId(),
+      senderId: clientId,
+      senderName: presenceRef.current.profile.name,
+      lamport: clockRef.current,
+      sentAt: Date.now(),
+      kind,
+      text,
+      ...(meta ? { attachment: meta } : {}),
+    };
+    addToTranscript([message]);
+    const waitingFor = new Set(roomRef.current?.getPeers() || []);
+    if (waitingFor.size > 0) pendingRef.current.set(message.id, { message, waitingFor, resends: 0 });
+    actionsRef.current.send({ v: PROTOCOL_VERSION, type: 'msg', message });
+    return message;
   }, []);
 
   const broadcastTyping = useCallback((isTyping: boolean) => {
@@ -102,6 +466,10 @@ export const useCollaboration = (roomId: string | null) => {
   // Media
   const startCall = useCallback(async (video = true, audio = true) => {
     if (!roomRef.current) return;
+    if (!roomRef.current.supportsMedia) {
+        console.warn("Calls are not available on this collaboration transport");
+        return;
+    }
     try {
         const stream = await navigator.mediaDevices.getUserMedia({ video, audio });
         setLocalStream(stream);
@@ -122,8 +490,19 @@ export const useCollaboration = (roomId: string | null) => {
   }, [localStream]);
 
   return {
+    room,
+    setRoom,
     peers,
+    selfId: clientId,
+    status,
+    encrypted: !!passphrase,
+    transportKind,
+    supportsMedia,
+    connectionError,
     messages,
+    acks,
+    transfers,
+    files,
     typingUsers,
     localStream,
     broadcastMessage,
@@ -0,0 +1,77 @@
+import { useState, useEffect, useCallback } from 'react';
+import { api, getProfiles, saveProfiles, getActiveProfile, setActiveProfile, PROFILE_CHANGE_EVENT } from '../api/heidi';
+import { UnauthorizedError } from '../api/errors';
+import { ConnectionProfile, ProfileHealth } from '../types';
+
+// Shared view of the connection profiles; every instance re-reads localStorage
+// when any component (or another tab) changes them.
+export const useConnectionProfiles = () => {
+  const [profiles, setProfiles] = useState<ConnectionProfile[]>(getProfiles);
+  const [activeProfile, setActive] = useState<ConnectionProfile>(getActiveProfile);
+
+  useEffect(() => {
+    const sync = () => {
+      setProfiles(getProfiles());
+      setActive(getActiveProfile());
+    };
+    const onStorage = (e: StorageEvent) => {
+      if (e.key === null || e.key.startsWith('HEIDI_')) sync();
+    };
+    window.addEventListener(PROFILE_CHANGE_EVENT, sync);
+    window.addEventListener('storage', onStorage);
+    return () => {
+      window.removeEventListener(PROFILE_CHANGE_EVENT, sync);
+      window.removeEventListener('storage', onStorage);
+    };
+  }, []);
+
+  const saveProfile = useCallback((profile: ConnectionProfile) => {
+    const current = getProfiles();
+    const exists = current.some(p => p.id === profile.id);
+    saveProfiles(exists ? current.map(p => p.id === profile.id ? profile : p) : [...current, profile]);
+  }, []);
+
+  const removeProfile = useCallback((profileId: string) => {
+    const remaining = getProfiles().filter(p => p.id !== profileId);
+    if (remaining.length === 0) return; // Always keep at least one profile
+    const wasActive = getActiveProfile().id === profileId;
+    saveProfiles(remaining);
+    if (wasActive) setActiveProfile(remaining[0].id);
+  }, []);
+
+  const switchProfile = useCallback((profileId: string) => {
+    if (profileId !== getActiveProfile().id) setActiveProfile(profileId);
+  }, []);
+
+  return { profiles, activeProfile, saveProfile, removeProfile, switchProfile };
+};
+
+// Pings api.health for each profile; re-run with refresh()
+export const useProfileHealth = (profiles: ConnectionProfile[]) => {
+  const [health, setHealth] = useState<Record<string, ProfileHealth>>({});
+  const [nonce, setNonce] = useState(0);
+
+  // Only re-check when connection details change, not labels or colors
+  const connectionKey = profiles.map(p => `${p.id}|${p.baseUrl}|${p.apiKey}`).join(',');
+
+  useEffect(() => {
+    const controller = new AbortController();
+    setHealth(Object.fromEntries(profiles.map(p => [p.id, 'checking' as ProfileHealth])));
+    profiles.forEach(async (p) => {
+      let result: ProfileHealth;
+      try {
+        await api.health(p.baseUrl, p.apiKey, { signal: controller.signal });
+        result = 'online';
+      } catch (e) {
+        result = e instanceof UnauthorizedError ? 'unauthorized' : 'offline';
+      }
+      if (!controller.signal.aborted) setHealth(prev => ({ ...prev, [p.id]: result }));
+    });
+    return () => controller.abort();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [connectionKey, nonce]);
+
+  const refresh = useCallback(() => setNonce(n => n + 1), []);
+
+  return { health, refresh };
+};
@@ -0,0 +1,31 @@
+import { useState, useEffect, useCallback } from 'react';
+import { db, StoredChat, CHATS_CHANGE_EVENT } from '../api/gemini';
+
+// Saved Gemini Studio conversations, newest first
+export const useGeminiChats = () => {
+  const [chats, setChats] = useState<StoredChat[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const refresh = useCallback(async () => {
+    try {
+      setChats(await db.listChats());
+    } catch (e) {
+      console.warn("Failed to load Gemini chats:", e);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+    window.addEventListener(CHATS_CHANGE_EVENT, refresh);
+    return () => window.removeEventListener(CHATS_CHANGE_EVENT, refresh);
+  }, [refresh]);
+
+  return {
+    chats,
+    loading,
+    renameChat: (id: string, title: string) => db.renameChat(id, title),
+    deleteChat: (id: string) => db.deleteChat(id),
+  };
+};
@@ -0,0 +1,45 @@
+import { useState, useEffect } from 'react';
+import { PresenceStatus } from '../api/collabProtocol';
+
+// No input for this long makes us idle, and for AWAY_AFTER_MS away
+const IDLE_AFTER_MS = 60_000;
+const AWAY_AFTER_MS = 10 * 60_000;
+const CHECK_INTERVAL_MS = 15_000;
+
+const ACTIVITY_EVENTS = ['pointermove', 'pointerdown', 'keydown', 'wheel', 'touchstart'];
+
+// Online/idle/away from input activity; a hidden tab counts as away
+export const usePresenceStatus = (): PresenceStatus => {
+  const [status, setStatus] = useState<PresenceStatus>(() => document.hidden ? 'away' : 'online');
+
+  useEffect(() => {
+    let lastActivity = Date.now();
+
+    const update = () => {
+      const quiet = Date.now() - lastActivity;
+      setStatus(document.hidden || quiet >= AWAY_AFTER_MS ? 'away' : quiet >= IDLE_AFTER_MS ? 'idle' : 'online');
+    };
+
+    const onActivity = () => {
+      lastActivity = Date.now();
+      setStatus(prev => prev === 'online' ? prev : document.hidden ? 'away' : 'online');
+    };
+
+    // Coming back to the tab counts as activity
+    const onVisibility = () => {
+      if (!document.hidden) lastActivity = Date.now();
+      update();
+    };
+
+    ACTIVITY_EVENTS.forEach(e => window.addEventListener(e, onActivity, { passive: true }));
+    document.addEventListener('visibilitychange', onVisibility);
+    const timer = setInterval(update, CHECK_INTERVAL_MS);
+    return () => {
+      ACTIVITY_EVENTS.forEach(e => window.removeEventListener(e, onActivity));
+      document.removeEventListener('visibilitychange', onVisibility);
+      clearInterval(timer);
+    };
+  }, []);
+
+  return status;
+};
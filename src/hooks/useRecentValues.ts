@@ -0,0 +1,36 @@
+import { useState, useCallback } from 'react';
+
+const load = (storageKey: string): string[] => {
+  try {
+    const raw = localStorage.getItem(storageKey);
+    const parsed = raw ? JSON.parse(raw) : [];
+    return Array.isArray(parsed) ? parsed.filter(v => typeof v === 'string') : [];
+  } catch {
+    return [];
+  }
+};
+
+// Most-recently-used list persisted in localStorage, newest first
+export const useRecentValues = (storageKey: string, limit = 8) => {
+  const [values, setValues] = useState<string[]>(() => load(storageKey));
+
+  const remember = useCallback((...entries: string[]) => {
+    const cleaned = entries.map(e => e.trim()).filter(Boolean);
+    if (cleaned.length === 0) return;
+    setValues(prev => {
+      const next = [...cleaned, ...prev.filter(v => !cleaned.includes(v))].slice(0, limit);
+      localStorage.setItem(storageKey, JSON.stringify(next));
+      return next;
+    });
+  }, [storageKey, limit]);
+
+  const forget = useCallback((value: string) => {
+    setValues(prev => {
+      const next = prev.filter(v => v !== value);
+      localStorage.setItem(storageKey, JSON.stringify(next));
+      return next;
+    });
+  }, [storageKey]);
+
+  return { values, remember, forget };
+};
@@ -0,0 +1,89 @@
+import { useState, useEffect, useCallback } from 'react';
+
+export type Route =
+  | { name: 'chat'; runId: string | null }
+  | { name: 'compare'; runIds: string[] }
+  | { name: 'settings' }
+  | { name: 'analytics' }
+  | { name: 'gemini'; chatId?: string | null }
+  | { name: 'login' }
+  | { name: 'authCallback' };
+
+export type View = Route['name'];
+
+const ROUTE_CHANGE_EVENT = 'heidi:route-change';
+
+// Query parameters that belong to a route and must not leak into the next one.
+// Everything else (e.g. run history filters) is carried across navigation.
+const ROUTE_PARAMS = ['runs', 'code', 'state', 'error', 'error_description', 'room'];
+
+export const parseRoute = (pathname: string, search: string): Route => {
+  const path = pathname.replace(/\/+$/, '') || '/';
+  const runMatch = path.match(/^\/runs\/([^/]+)$/);
+  if (runMatch) return { name: 'chat', runId: decodeURIComponent(runMatch[1]) };
+  const geminiMatch = path.match(/^\/gemini\/([^/]+)$/);
+  if (geminiMatch) return { name: 'gemini', chatId: decodeURIComponent(geminiMatch[1]) };
+
+  switch (path) {
+    case '/settings': return { name: 'settings' };
+    case '/analytics': return { name: 'analytics' };
+    case '/gemini': return { name: 'gemini' };
+    case '/login': return { name: 'login' };
+    case '/auth/callback': return { name: 'authCallback' };
+    case '/compare': {
+      const runs = new URLSearchParams(search).get('runs');
+      return { name: 'compare', runIds: runs ? runs.split(',').filter(Boolean) : [] };
+    }
+    default: return { name: 'chat', runId: null };
+  }
+};
+
+export const routeToPath = (route: Route): string => {
+  switch (route.name) {
+    case 'chat': return route.runId ? `/runs/${encodeURIComponent(route.runId)}` : '/';
+    case 'compare': return '/compare';
+    case 'gemini': return route.chatId ? `/gemini/${encodeURIComponent(route.chatId)}` : '/gemini';
+    case 'authCallback': return '/auth/callback';
+    default: return `/${route.name}`;
+  }
+};
+
+const buildUrl = (route: Route): string => {
+  const params = new URLSearchParams(window.location.search);
+  ROUTE_PARAMS.forEach(p => params.delete(p));
+  if (route.name === 'compare' && route.runIds.length > 0) {
+    params.set('runs', route.runIds.join(','));
+  }
+  const query = params.toString().replace(/%2C/g, ',');
+  return `${routeToPath(route)}${query ? `?${query}` : ''}`;
+};
+
+export const getCurrentRoute = (): Route => parseRoute(window.location.pathname, window.location.search);
+
+// Pushes (or replaces) a history entry and notifies every useRoute instance
+export const navigateTo = (route: Route, options: { replace?: boolean } = {}) => {
+  const url = buildUrl(route);
+  if (url === `${window.location.pathname}${window.location.search}`) return;
+  if (options.replace) window.history.replaceState(null, '', url);
+  else window.history.pushState(null, '', url);
+  window.dispatchEvent(new CustomEvent(ROUTE_CHANGE_EVENT));
+};
+
+// Current route from the address bar, kept in sync with back/forward
+export const useRoute = () => {
+  const [route, setRoute] = useState<Route>(getCurrentRoute);
+
+  useEffect(() => {
+    const sync = () => setRoute(getCurrentRoute());
+    window.addEventListener('popstate', sync);
+    window.addEventListener(ROUTE_CHANGE_EVENT, sync);
+    return () => {
+      window.removeEventListener('popstate', sync);
+      window.removeEventListener(ROUTE_CHANGE_EVENT, sync);
+    };
+  }, []);
+
+  const navigate = useCallback((next: Route, options?: { replace?: boolean }) => navigateTo(next, options), []);
+
+  return { route, navigate };
+};
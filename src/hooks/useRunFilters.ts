@@ -0,0 +1,86 @@
+import { useState, useEffect, useCallback } from 'react';
+import { RunQuery } from '../types';
+
+export interface RunFilters {
+  q: string;
+  status: string;
+  executor: string;
+  from: string;
+  to: string;
+  minCost: string;
+  maxCost: string;
+}
+
+export const EMPTY_FILTERS: RunFilters = { q: '', status: '', executor: '', from: '', to: '', minCost: '', maxCost: '' };
+
+// URL query parameter for each filter field
+const PARAMS: Record<keyof RunFilters, string> = {
+  q: 'q',
+  status: 'status',
+  executor: 'executor',
+  from: 'from',
+  to: 'to',
+  minCost: 'min_cost',
+  maxCost: 'max_cost',
+};
+
+const readFromUrl = (): RunFilters => {
+  const params = new URLSearchParams(window.location.search);
+  const filters = { ...EMPTY_FILTERS };
+  (Object.keys(PARAMS) as (keyof RunFilters)[]).forEach(field => {
+    filters[field] = params.get(PARAMS[field]) || '';
+  });
+  return filters;
+};
+
+const writeToUrl = (filters: RunFilters) => {
+  const url = new URL(window.location.href);
+  (Object.keys(PARAMS) as (keyof RunFilters)[]).forEach(field => {
+    if (filters[field]) url.searchParams.set(PARAMS[field], filters[field]);
+    else url.searchParams.delete(PARAMS[field]);
+  });
+  if (url.href !== window.location.href) {
+    window.history.replaceState(window.history.state, '', url);
+  }
+};
+
+const parseCost = (value: string) => {
+  const n = parseFloat(value);
+  return isNaN(n) ? undefined : n;
+};
+
+export const filtersToQuery = (filters: RunFilters): RunQuery => ({
+  q: filters.q.trim() || undefined,
+  status: filters.status || undefined,
+  executor: filters.executor || undefined,
+  from: filters.from || undefined,
+  to: filters.to || undefined,
+  min_cost: parseCost(filters.minCost),
+  max_cost: parseCost(filters.maxCost),
+});
+
+export const countActiveFilters = (filters: RunFilters) =>
+  (Object.keys(filters) as (keyof RunFilters)[]).filter(k => k !== 'q' && filters[k]).length;
+
+// Run history filters mirrored into the page URL so a filtered view can be shared
+export const useRunFilters = () => {
+  const [filters, setFilters] = useState<RunFilters>(readFromUrl);
+
+  useEffect(() => {
+    writeToUrl(filters);
+  }, [filters]);
+
+  useEffect(() => {
+    const onPopState = () => setFilters(readFromUrl());
+    window.addEventListener('popstate', onPopState);
+    return () => window.removeEventListener('popstate', onPopState);
+  }, []);
+
+  const updateFilter = useCallback(<K extends keyof RunFilters>(field: K, value: RunFilters[K]) => {
+    setFilters(prev => ({ ...prev, [field]: value }));
+  }, []);
+
+  const clearFilters = useCallback(() => setFilters(EMPTY_FILTERS), []);
+
+  return { filters, updateFilter, clearFilters };
+};
@@ -0,0 +1,15 @@
+import { useEffect, useRef } from 'react';
+import { registerDraft, takeDraft } from '../api/session';
+
+// Keeps an unsent value across a forced re-login: it is saved if the session
+// expires, and handed back through `restore` when the page mounts again
+export const useSessionDraft = (key: string, value: string, restore: (draft: string) => void) => {
+  const valueRef = useRef(value);
+  valueRef.current = value;
+
+  useEffect(() => {
+    const draft = takeDraft(key);
+    if (draft) restore(draft);
+    return registerDraft(key, () => valueRef.current);
+  }, [key]);
+};
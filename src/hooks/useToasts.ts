@@ -0,0 +1,70 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { describeError, isApiError } from '../api/errors';
+
+// Toasts are raised from anywhere through `toast` / `confirmToast` and shown
+// by the single <Toaster /> in App, which listens for this event
+const TOAST_EVENT = 'heidi:toast';
+
+const DISMISS_AFTER_MS = { success: 3_000, info: 5_000, error: 8_000 };
+
+export type ToastKind = 'success' | 'info' | 'error';
+
+export interface Toast {
+  id: string;
+  kind: ToastKind;
+  title: string;
+  message?: string;
+  requestId?: string;
+  // Confirmation prompts stay until answered
+  confirm?: { label: string; danger?: boolean; resolve: (confirmed: boolean) => void };
+}
+
+const show = (toast: Omit<Toast, 'id'>) => {
+  const id = Math.random().toString(36).slice(2) + Date.now().toString(36);
+  window.dispatchEvent(new CustomEvent<Toast>(TOAST_EVENT, { detail: { ...toast, id } }));
+};
+
+export const toast = {
+  success: (title: string, message?: string) => show({ kind: 'success', title, message }),
+  info: (title: string, message?: string) => show({ kind: 'info', title, message }),
+  // `title` says what failed; the error supplies the reason and request id
+  error: (title: string, error?: unknown) => show({
+    kind: 'error',
+    title,
+    message: error === undefined ? undefined : describeError(error),
+    requestId: isApiError(error) ? error.requestId : undefined,
+  }),
+};
+
+// Replacement for window.confirm; resolves false when dismissed
+export const confirmToast = (title: string, options: { message?: string; confirmLabel?: string; danger?: boolean } = {}) =>
+  new Promise<boolean>(resolve => show({
+    kind: 'info',
+    title,
+    message: options.message,
+    confirm: { label: options.confirmLabel || 'Confirm', danger: options.danger, resolve },
+  }));
+
+// State for the Toaster: the visible toasts, oldest first
+export const useToasts = () => {
+  const [toasts, setToasts] = useState<Toast[]>([]);
+  const toastsRef = useRef(toasts);
+  toastsRef.current = toasts;
+
+  const dismiss = useCallback((id: string, confirmed = false) => {
+    toastsRef.current.find(t => t.id === id)?.confirm?.resolve(confirmed);
+    setToasts(prev => prev.filter(t => t.id !== id));
+  }, []);
+
+  useEffect(() => {
+    const handleToast = (e: Event) => {
+      const next = (e as CustomEvent<Toast>).detail;
+      setToasts(prev => [...prev, next]);
+      if (!next.confirm) setTimeout(() => dismiss(next.id), DISMISS_AFTER_MS[next.kind]);
+    };
+    window.addEventListener(TOAST_EVENT, handleToast);
+    return () => window.removeEventListener(TOAST_EVENT, handleToast);
+  }, [dismiss]);
+
+  return { toasts, dismiss };
+};
@@ -0,0 +1,439 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { api } from '../api/heidi';
+import { useMonthlyBudget } from '../hooks/useBudget';
+import { useConnectionProfiles } from '../hooks/useConnectionProfiles';
+import { RunSummary } from '../types';
+import { PanelLeft, BarChart3, Download, Loader2, AlertTriangle, RefreshCw, Coins, Layers, CheckCircle, Wallet, Activity } from 'lucide-react';
+
+interface AnalyticsProps {
+  isSidebarOpen: boolean;
+  onToggleSidebar: () => void;
+}
+
+type RangeKey = '7d' | '30d' | '90d' | 'all';
+
+const RANGES: { key: RangeKey; label: string; days?: number }[] = [
+  { key: '7d', label: '7 days', days: 7 },
+  { key: '30d', label: '30 days', days: 30 },
+  { key: '90d', label: '90 days', days: 90 },
+  { key: 'all', label: 'All time' },
+];
+
+// Upper bounds (exclusive) of the token-count histogram buckets
+const TOKEN_BUCKETS: { label: string; max: number }[] = [
+  { label: '< 1k', max: 1_000 },
+  { label: '1k–5k', max: 5_000 },
+  { label: '5k–20k', max: 20_000 },
+  { label: '20k–100k', max: 100_000 },
+  { label: '100k+', max: Infinity },
+];
+
+interface Aggregate {
+  key: string;
+  runs: number;
+  cost: number;
+  inputTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+}
+
+const emptyAggregate = (key: string): Aggregate => ({ key, runs: 0, cost: 0, inputTokens: 0, outputTokens: 0, totalTokens: 0 });
+
+const addRun = (agg: Aggregate, run: RunSummary) => {
+  agg.runs += 1;
+  agg.cost += run.usage?.cost_usd || 0;
+  agg.inputTokens += run.usage?.input_tokens || 0;
+  agg.outputTokens += run.usage?.output_tokens || 0;
+  agg.totalTokens += run.usage?.total_tokens || 0;
+};
+
+const groupBy = (runs: RunSummary[], keyOf: (run: RunSummary) => string): Aggregate[] => {
+  const groups: Record<string, Aggregate> = {};
+  runs.forEach(run => {
+    const key = keyOf(run);
+    addRun(groups[key] ||= emptyAggregate(key), run);
+  });
+  return Object.values(groups).sort((a, b) => b.cost - a.cost || b.runs - a.runs);
+};
+
+const toDay = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+const daysAgo = (days: number) => {
+  const d = new Date();
+  d.setDate(d.getDate() - (days - 1));
+  return toDay(d);
+};
+
+// Spend per day across the range, including empty days. Long spans are
+// bucketed by month so the chart stays readable.
+const buildTimeline = (runs: RunSummary[], from?: string): Aggregate[] => {
+  const dated = runs.filter(r => r.created_at);
+  const days = dated.map(r => r.created_at!.slice(0, 10)).sort();
+  const start = from || days[0];
+  if (!start) return [];
+  const end = toDay(new Date());
+  const spanDays = Math.round((Date.parse(end) - Date.parse(start)) / 86_400_000) + 1;
+  const byMonth = spanDays > 120;
+  const keyOf = (day: string) => byMonth ? day.slice(0, 7) : day;
+
+  const buckets: Record<string, Aggregate> = {};
+  const cursor = new Date(`${start}T00:00:00`);
+  while (toDay(cursor) <= end) {
+    const key = keyOf(toDay(cursor));
+    buckets[key] ||= emptyAggregate(key);
+    cursor.setDate(cursor.getDate() + 1);
+  }
+  dated.forEach(run => {
+    const key = keyOf(run.created_at!.slice(0, 10));
+    if (buckets[key]) addRun(buckets[key], run);
+  });
+  return Object.values(buckets);
+};
+
+// Free text such as a task could start like a formula; spreadsheets would
+// run it, so it is prefixed with a quote to keep it text
+const csvCell = (value: string | number | undefined) => {
+  let text = value === undefined ? '' : String(value);
+  if (typeof value === 'string' && /^[=+\-@\t\r]/.test(text)) text = `'${text}`;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const exportCsv = (runs: RunSummary[], rangeKey: RangeKey) => {
+  const header = ['run_id', 'created_at', 'status', 'executor', 'task', 'input_tokens', 'output_tokens', 'total_tokens', 'cost_usd'];
+  const rows = runs.map(run => [
+    run.run_id,
+    run.created_at,
+    run.status,
+    run.executor,
+    run.task || run.prompt,
+    run.usage?.input_tokens,
+    run.usage?.output_tokens,
+    run.usage?.total_tokens,
+    run.usage?.cost_usd,
+  ].map(csvCell).join(','));
+  const blob = new Blob([[header.join(','), ...rows].join('\n')], { type: 'text/csv;charset=utf-8' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `heidi-usage-${rangeKey}-${toDay(new Date())}.csv`;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+const formatCost = (cost: number) => `$${cost < 10 ? cost.toFixed(4) : cost.toFixed(2)}`;
+const formatTokens = (tokens: number) =>
+  tokens >= 1_000_000 ? `${(tokens / 1_000_000).toFixed(1)}M` : tokens >= 1000 ? `${(tokens / 1000).toFixed(1)}k` : String(tokens);
+
+const StatCard: React.FC<{ icon: React.ReactNode; label: string; value: string; hint?: string }> = ({ icon, label, value, hint }) => (
+  <div className="p-4 rounded-2xl border border-white/5 bg-[#0f0f13]/60">
+    <div className="flex items-center gap-2 text-[10px] font-bold uppercase tracking-wider text-slate-500 mb-2">
+      {icon}
+      {label}
+    </div>
+    <div className="text-xl font-bold text-white font-mono">{value}</div>
+    {hint && <div className="text-[10px] text-slate-500 mt-1">{hint}</div>}
+  </div>
+);
+
+const BreakdownTable: React.FC<{ title: string; rows: Aggregate[] }> = ({ title, rows }) => {
+  const maxCost = Math.max(...rows.map(r => r.cost), 0);
+  return (
+    <section className="p-4 rounded-2xl border border-white/5 bg-white/[0.02] space-y-3">
+      <h2 className="text-xs font-bold uppercase tracking-wider text-slate-500">{title}</h2>
+      {rows.length === 0 ? (
+        <p className="text-xs text-slate-500">No runs</p>
+      ) : (
+        <table className="w-full text-xs">
+          <thead>
+            <tr className="text-[10px] uppercase tracking-wider text-slate-500">
+              <th className="text-left font-medium pb-2"></th>
+              <th className="text-right font-medium pb-2">Runs</th>
+              <th className="text-right font-medium pb-2">Tokens</th>
+              <th className="text-right font-medium pb-2">Cost</th>
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map(row => (
+              <tr key={row.key} className="border-t border-white/5">
+                <td className="py-2 pr-3 w-1/2">
+                  <div className="text-slate-200 capitalize truncate">{row.key}</div>
+                  <div className="h-1 mt-1.5 rounded-full bg-white/5 overflow-hidden">
+                    <div className="h-full bg-purple-500/60 rounded-full" style={{ width: `${maxCost > 0 ? (row.cost / maxCost) * 100 : 0}%` }}></div>
+                  </div>
+                </td>
+                <td className="py-2 text-right font-mono text-slate-400">{row.runs}</td>
+                <td className="py-2 text-right font-mono text-slate-400">{formatTokens(row.totalTokens)}</td>
+                <td className="py-2 text-right font-mono text-emerald-400">{formatCost(row.cost)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </section>
+  );
+};
+
+const Analytics: React.FC<AnalyticsProps> = ({ isSidebarOpen, onToggleSidebar }) => {
+  const [rangeKey, setRangeKey] = useState<RangeKey>('30d');
+  const [runs, setRuns] = useState<RunSummary[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const { activeProfile } = useConnectionProfiles();
+  const { budget, spent, exceeded, setBudget, refresh: refreshSpend } = useMonthlyBudget();
+  const [budgetInput, setBudgetInput] = useState(budget !== null ? String(budget) : '');
+
+  const range = RANGES.find(r => r.key === rangeKey)!;
+  const from = range.days ? daysAgo(range.days) : undefined;
+
+  const loadAbortRef = useRef<AbortController | null>(null);
+
+  // A newer load (another range or profile) cancels the one in flight
+  const load = async () => {
+    loadAbortRef.current?.abort();
+    const controller = new AbortController();
+    loadAbortRef.current = controller;
+    setLoading(true);
+    setError(null);
+    try {
+      const collected = await api.collectRuns(from ? { from } : {}, undefined, { signal: controller.signal });
+      if (!controller.signal.aborted) setRuns(collected);
+    } catch (e: any) {
+      if (!controller.signal.aborted) setError(e.message || 'Failed to load run history');
+    } finally {
+      if (loadAbortRef.current === controller) {
+        loadAbortRef.current = null;
+        setLoading(false);
+      }
+    }
+  };
+
+  useEffect(() => {
+    load();
+  }, [rangeKey, activeProfile.id]);
+
+  useEffect(() => () => loadAbortRef.current?.abort(), []);
+
+  useEffect(() => {
+    setBudgetInput(budget !== null ? String(budget) : '');
+  }, [budget]);
+
+  const handleSaveBudget = (e: React.FormEvent) => {
+    e.preventDefault();
+    const value = parseFloat(budgetInput);
+    setBudget(isNaN(value) || value <= 0 ? null : value);
+  };
+
+  const total = emptyAggregate('total');
+  runs.forEach(run => addRun(total, run));
+  const successful = runs.filter(r => r.status?.toLowerCase() === 'completed');
+  const successfulCost = successful.reduce((sum, r) => sum + (r.usage?.cost_usd || 0), 0);
+  const avgSuccessCost = successful.length ? successfulCost / successful.length : 0;
+
+  const timeline = buildTimeline(runs, from);
+  const maxDayCost = Math.max(...timeline.map(d => d.cost), 0);
+  const byExecutor = groupBy(runs, r => r.executor || 'unknown');
+  const byStatus = groupBy(runs, r => r.status?.toLowerCase() || 'unknown');
+
+  const histogram = TOKEN_BUCKETS.map(b => ({ ...b, count: 0 }));
+  runs.filter(r => r.usage).forEach(run => {
+    const bucket = histogram.find(b => run.usage!.total_tokens < b.max);
+    if (bucket) bucket.count += 1;
+  });
+  const maxBucket = Math.max(...histogram.map(b => b.count), 0);
+  const inputShare = total.inputTokens + total.outputTokens > 0
+    ? (total.inputTokens / (total.inputTokens + total.outputTokens)) * 100
+    : 0;
+
+  const budgetPercent = budget && spent !== null ? Math.min((spent / budget) * 100, 100) : 0;
+
+  return (
+    <div className="h-full flex flex-col w-full bg-transparent relative">
+      {/* Header */}
+      <div className="px-4 sm:px-6 py-4 flex items-center gap-4 bg-[#0a0a0a]/80 backdrop-blur-xl border-b border-white/5 shrink-0 sticky top-0 z-20">
+        <button
+          onClick={onToggleSidebar}
+          className="text-slate-400 hover:text-white transition-colors p-2 -ml-2 rounded-lg hover:bg-white/5 active:bg-white/10"
+        >
+          <PanelLeft size={20} />
+        </button>
+        <BarChart3 size={18} className="text-purple-300" />
+        <h1 className="text-lg font-bold text-white tracking-tight">Usage & Cost</h1>
+        <div className="ml-auto flex items-center gap-2">
+          <div className="hidden sm:flex bg-black/40 p-1 rounded-lg border border-white/5">
+            {RANGES.map(r => (
+              <button
+                key={r.key}
+                onClick={() => setRangeKey(r.key)}
+                className={`px-3 py-1 rounded-md text-[11px] font-bold transition-colors ${rangeKey === r.key ? 'bg-white/10 text-white' : 'text-slate-500 hover:text-slate-300'}`}
+              >
+                {r.label}
+              </button>
+            ))}
+          </div>
+          <select
+            value={rangeKey}
+            onChange={(e) => setRangeKey(e.target.value as RangeKey)}
+            className="sm:hidden bg-black/40 border border-white/10 rounded-lg px-2 py-1.5 text-xs text-slate-200"
+          >
+            {RANGES.map(r => <option key={r.key} value={r.key}>{r.label}</option>)}
+          </select>
+          <button
+            onClick={load}
+            className={`p-2 text-slate-400 hover:text-white rounded-lg hover:bg-white/5 transition-colors ${loading ? 'animate-spin' : ''}`}
+            title="Refresh"
+          >
+            <RefreshCw size={14} />
+          </button>
+          <button
+            onClick={() => exportCsv(runs, rangeKey)}
+            disabled={runs.length === 0}
+            className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg bg-white/5 border border-white/10 text-xs font-bold text-slate-200 hover:bg-white/10 disabled:opacity-40 transition-colors"
+          >
+            <Download size={12} />
+            CSV
+          </button>
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-4 sm:p-8 custom-scrollbar">
+        <div className="max-w-5xl mx-auto space-y-6 pb-20">
+
+          {error && (
+            <div className="flex items-center gap-2 text-xs text-red-200 bg-red-500/5 border border-red-500/10 rounded-lg px-3 py-2">
+              <AlertTriangle size={12} className="text-red-400 shrink-0" />
+              {error}
+            </div>
+          )}
+
+          {/* Monthly Budget */}
+          <section className={`p-4 rounded-2xl border space-y-3 ${exceeded ? 'border-amber-500/30 bg-amber-500/5' : 'border-white/5 bg-white/[0.02]'}`}>
+            <div className="flex flex-wrap items-center justify-between gap-3">
+              <div className="flex items-center gap-2">
+                <Wallet size={14} className={exceeded ? 'text-amber-400' : 'text-slate-400'} />
+                <h2 className="text-xs font-bold uppercase tracking-wider text-slate-400">Monthly Budget</h2>
+              </div>
+              <form onSubmit={handleSaveBudget} className="flex items-center gap-2">
+                <span className="text-xs text-slate-500">$</span>
+                <input
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={budgetInput}
+                  onChange={(e) => setBudgetInput(e.target.value)}
+                  placeholder="No limit"
+                  className="w-28 bg-black/30 border border-white/10 rounded-lg px-2 py-1.5 text-xs font-mono text-slate-200 focus:outline-none focus:border-purple-500/40"
+                />
+                <button type="submit" className="px-3 py-1.5 rounded-lg bg-purple-600 hover:bg-purple-500 text-white text-xs font-bold transition-colors">
+                  Save
+                </button>
+              </form>
+            </div>
+            {budget !== null && (
+              <div className="space-y-1.5">
+                <div className="h-2 rounded-full bg-white/5 overflow-hidden">
+                  <div
+                    className={`h-full rounded-full transition-all ${exceeded ? 'bg-amber-500' : budgetPercent > 80 ? 'bg-yellow-500/70' : 'bg-emerald-500/70'}`}
+                    style={{ width: `${budgetPercent}%` }}
+                  ></div>
+                </div>
+                <div className="flex items-center justify-between text-[11px] font-mono text-slate-400">
+                  <span>
+                    {spent !== null ? formatCost(spent) : '—'} of {formatCost(budget)} this month
+                  </span>
+                  <button onClick={refreshSpend} className="text-slate-500 hover:text-slate-300" title="Recalculate">
+                    <RefreshCw size={11} />
+                  </button>
+                </div>
+                {exceeded && (
+                  <p className="text-xs text-amber-200">Spending this month is over budget.</p>
+                )}
+              </div>
+            )}
+          </section>
+
+          {loading && runs.length === 0 ? (
+            <div className="flex justify-center py-16"><Loader2 size={24} className="animate-spin text-slate-500" /></div>
+          ) : (
+            <>
+              {/* Summary */}
+              <div className="grid grid-cols-2 lg:grid-cols-4 gap-3">
+                <StatCard icon={<Coins size={12} />} label="Total Spend" value={formatCost(total.cost)} hint={`${range.label.toLowerCase()}`} />
+                <StatCard icon={<Activity size={12} />} label="Runs" value={String(total.runs)} hint={total.runs ? `${Math.round((successful.length / total.runs) * 100)}% successful` : undefined} />
+                <StatCard icon={<CheckCircle size={12} />} label="Avg / Successful Run" value={formatCost(avgSuccessCost)} hint={`${successful.length} completed`} />
+                <StatCard icon={<Layers size={12} />} label="Tokens" value={formatTokens(total.totalTokens)} hint={`${formatTokens(total.inputTokens)} in · ${formatTokens(total.outputTokens)} out`} />
+              </div>
+
+              {/* Spend over time */}
+              <section className="p-4 rounded-2xl border border-white/5 bg-white/[0.02] space-y-3">
+                <div className="flex items-center justify-between">
+                  <h2 className="text-xs font-bold uppercase tracking-wider text-slate-500">Spend Over Time</h2>
+                  <span className="text-[10px] font-mono text-slate-500">peak {formatCost(maxDayCost)}</span>
+                </div>
+                {timeline.length === 0 ? (
+                  <p className="text-xs text-slate-500">No dated runs in this range</p>
+                ) : (
+                  <>
+                    <div className="h-40 flex items-end gap-px">
+                      {timeline.map(bucket => (
+                        <div
+                          key={bucket.key}
+                          className="flex-1 h-full flex items-end group relative"
+                          title={`${bucket.key}: ${formatCost(bucket.cost)} · ${bucket.runs} runs`}
+                        >
+                          <div
+                            className={`w-full rounded-t-sm transition-colors ${bucket.cost > 0 ? 'bg-purple-500/60 group-hover:bg-purple-400' : 'bg-white/5'}`}
+                            style={{ height: bucket.cost > 0 && maxDayCost > 0 ? `${Math.max((bucket.cost / maxDayCost) * 100, 2)}%` : '2px' }}
+                          ></div>
+                        </div>
+                      ))}
+                    </div>
+                    <div className="flex justify-between text-[10px] font-mono text-slate-500">
+                      <span>{timeline[0].key}</span>
+                      <span>{timeline[timeline.length - 1].key}</span>
+                    </div>
+                  </>
+                )}
+              </section>
+
+              {/* Breakdowns */}
+              <div className="grid md:grid-cols-2 gap-4">
+                <BreakdownTable title="By Executor" rows={byExecutor} />
+                <BreakdownTable title="By Status" rows={byStatus} />
+              </div>
+
+              {/* Token distribution */}
+              <section className="p-4 rounded-2xl border border-white/5 bg-white/[0.02] space-y-4">
+                <h2 className="text-xs font-bold uppercase tracking-wider text-slate-500">Token Distribution</h2>
+                <div className="space-y-1.5">
+                  <div className="h-2 rounded-full bg-white/5 overflow-hidden flex">
+                    <div className="h-full bg-sky-500/70" style={{ width: `${inputShare}%` }}></div>
+                    <div className="h-full bg-pink-500/70 flex-1"></div>
+                  </div>
+                  <div className="flex justify-between text-[10px] font-mono">
+                    <span className="text-sky-300">input {formatTokens(total.inputTokens)}</span>
+                    <span className="text-pink-300">output {formatTokens(total.outputTokens)}</span>
+                  </div>
+                </div>
+                <div className="space-y-2">
+                  {histogram.map(bucket => (
+                    <div key={bucket.label} className="flex items-center gap-3 text-[11px]">
+                      <span className="w-20 shrink-0 font-mono text-slate-400">{bucket.label}</span>
+                      <div className="flex-1 h-3 rounded bg-white/5 overflow-hidden">
+                        <div className="h-full bg-indigo-500/60 rounded" style={{ width: `${maxBucket > 0 ? (bucket.count / maxBucket) * 100 : 0}%` }}></div>
+                      </div>
+                      <span className="w-10 text-right font-mono text-slate-400">{bucket.count}</span>
+                    </div>
+                  ))}
+                </div>
+                <p className="text-[10px] text-slate-500">Runs by total tokens used.</p>
+              </section>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default Analytics;
@@ -1,40 +1,38 @@
-import React, { useEffect, useState } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import { api } from '../api/heidi';
+import { completeLoginAttempt } from '../api/pkce';
+import { navigateTo } from '../hooks/useRoute';
 import { Loader2, CheckCircle, AlertCircle } from 'lucide-react';
 
-export default function AuthCallback() {
+interface AuthCallbackProps {
+    onComplete: () => void;
+}
+
+export default function AuthCallback({ onComplete }: AuthCallbackProps) {
     const [status, setStatus] = useState<'processing' | 'success' | 'error'>('processing');
     const [errorMsg, setErrorMsg] = useState('');
 
-    useEffect(() => {
-        const handleCallback = async () => {
-            const params = new URLSearchParams(window.location.search);
-            const code = params.get('code');
-            const error = params.get('error');
-            const verifier = localStorage.getItem('pkce_verifier');
+    // StrictMode runs effects twice; the stored attempt can only be used once
+    const handledRef = useRef(false);
 
-            if (error) {
-                setStatus('error');
-                setErrorMsg(params.get('error_description') || error);
-                return;
-            }
+    useEffect(() => {
+        if (handledRef.current) return;
+        handledRef.current = true;
 
-            if (!code || !verifier) {
+        const handleCallback = async () => {
+            const result = completeLoginAttempt(new URLSearchParams(window.location.search));
+            if ('error' in result) {
                 setStatus('error');
-                setErrorMsg("Missing code or PKCE verifier");
+                setErrorMsg(result.error);
                 return;
             }
 
             try {
                 // Exchange code for session
-                await api.loginFinish(code, verifier);
+                await api.loginFinish(result.code, result.verifier);
                 setStatus('success');
-                // Clean up
-                localStorage.removeItem('pkce_verifier');
                 // Redirect home after brief delay
-                setTimeout(() => {
-                    window.location.href = '/';
-                }, 800);
+                setTimeout(onComplete, 800);
             } catch (e: any) {
                 console.error(e);
                 setStatus('error');
@@ -76,7 +74,7 @@ export default function AuthCallback() {
                         <h2 className="text-xl font-bold text-red-400">Authentication Failed</h2>
                         <p className="text-slate-300 text-sm bg-white/5 p-3 rounded-lg font-mono text-xs break-words">{errorMsg}</p>
                         <button 
-                            onClick={() => window.location.href = '/login'}
+                            onClick={() => navigateTo({ name: 'login' }, { replace: true })}
                             className="w-full py-2 bg-white/10 hover:bg-white/20 rounded-lg text-sm font-medium transition-colors mt-4"
                         >
                             Try Again
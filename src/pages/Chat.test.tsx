@@ -0,0 +1,73 @@
+// @vitest-environment jsdom
+import React, { act } from 'react';
+import { createRoot, Root } from 'react-dom/client';
+import { describe, it, expect, vi, beforeAll, afterEach } from 'vitest';
+import Chat from './Chat';
+import { expireSession } from '../api/session';
+
+vi.mock('../api/heidi', () => ({
+  api: {
+    getAgents: () => Promise.resolve([]),
+    getRun: (runId: string) => Promise.resolve({ run_id: runId, meta: { status: 'completed', prompt: 'Earlier task' }, events: [] }),
+  },
+}));
+
+type ChatProps = Partial<React.ComponentProps<typeof Chat>>;
+
+// Renders like the app does, then lets the mount requests settle
+const show = (root: Root, props: ChatProps) => act(async () => root.render(
+  <React.StrictMode>
+    <Chat isSidebarOpen onToggleSidebar={() => {}} {...props} />
+  </React.StrictMode>
+));
+
+const mount = async (props: ChatProps = {}) => {
+  const container = document.createElement('div');
+  document.body.appendChild(container);
+  const root = createRoot(container);
+  await show(root, props);
+  return { root, textarea: () => container.querySelector('textarea')! };
+};
+
+const type = (textarea: HTMLTextAreaElement, value: string) => act(() => {
+  // React tracks the last value it saw, so set it the way the browser does
+  Object.getOwnPropertyDescriptor(HTMLTextAreaElement.prototype, 'value')!.set!.call(textarea, value);
+  textarea.dispatchEvent(new Event('input', { bubbles: true }));
+});
+
+let mounted: Root[] = [];
+
+beforeAll(() => {
+  (globalThis as any).IS_REACT_ACT_ENVIRONMENT = true;
+  Element.prototype.scrollIntoView = () => {};
+});
+
+afterEach(() => {
+  mounted.forEach(root => act(() => root.unmount()));
+  mounted = [];
+  document.body.innerHTML = '';
+  sessionStorage.clear();
+});
+
+describe('Chat session draft', () => {
+  it('keeps the unsent prompt across an expire, login and return on the new chat route', async () => {
+    const first = await mount();
+    type(first.textarea(), 'Refactor the parser');
+
+    act(() => expireSession());
+    act(() => first.root.unmount()); // Off to /login
+
+    const second = await mount();
+    mounted.push(second.root);
+    expect(second.textarea().value).toBe('Refactor the parser');
+  });
+
+  it('clears the prompt when leaving a run for a new chat', async () => {
+    const view = await mount({ initialRunId: 'run-1' });
+    mounted.push(view.root);
+    type(view.textarea(), 'Follow-up for run-1');
+
+    await show(view.root, { initialRunId: null });
+    expect(view.textarea().value).toBe('');
+  });
+});
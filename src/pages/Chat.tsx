@@ -1,27 +1,52 @@
 import React, { useState, useEffect, useRef } from 'react';
-import { api, getSettings } from '../api/heidi';
+import { api } from '../api/heidi';
+import { SSEConnection } from '../api/sse';
+import RunEventView from '../components/RunEventView';
+import Markdown from '../components/Markdown';
+import LoopTimeline from '../components/LoopTimeline';
+import RunContextPanel, { RunContext, validateRunContext } from '../components/RunContextPanel';
+import PresenceAvatars from '../components/PresenceAvatars';
+import { useRecentValues } from '../hooks/useRecentValues';
+import { useSessionDraft } from '../hooks/useSessionDraft';
+import { toast } from '../hooks/useToasts';
+import { describeError, isApiError, ApiErrorKind, NotFoundError, UnauthorizedError } from '../api/errors';
+import { Peer } from '../hooks/useCollaboration';
 import { Agent, AppMode, RunEvent, RunStatus, RunUsage } from '../types';
 import { 
   Send, StopCircle, CheckCircle, AlertCircle, Loader2, PanelLeft,
-  Sparkles, Cpu, Map, Terminal, Eye, Shield, ArrowRight, CornerDownLeft, Clock,
-  Coins, Layers, Zap, Bot
+  Sparkles, Cpu, Map, Terminal, Eye, Shield, ArrowRight, CornerDownLeft,
+  Coins, Layers, Zap, Bot, FolderOpen
 } from 'lucide-react';
 
 interface ChatProps {
   initialRunId?: string | null;
-  onRunCreated?: () => void;
+  onRunCreated?: (runId: string) => void;
   isSidebarOpen: boolean;
   onToggleSidebar: () => void;
+  viewers?: Peer[]; // Collaboration room members looking at this run
 }
 
-const Chat: React.FC<ChatProps> = ({ initialRunId, onRunCreated, isSidebarOpen, onToggleSidebar }) => {
+// Polling keeps going through these; anything else stops it
+const RETRYABLE_POLL_ERRORS: ApiErrorKind[] = ['network', 'timeout', 'server'];
+
+const Chat: React.FC<ChatProps> = ({ initialRunId, onRunCreated, isSidebarOpen, onToggleSidebar, viewers = [] }) => {
   // Config State
   const [prompt, setPrompt] = useState('');
+  useSessionDraft('chat', prompt, setPrompt);
   const [mode, setMode] = useState<AppMode>(AppMode.RUN); 
   const [executor, setExecutor] = useState('copilot');
   const [maxRetries, setMaxRetries] = useState(2);
   const [dryRun, setDryRun] = useState(false);
   const [agents, setAgents] = useState<Agent[]>([]);
+  const [runContext, setRunContext] = useState<RunContext>({ workdir: '', persona: '', contextPaths: [] });
+  const [showContext, setShowContext] = useState(false);
+
+  const recentWorkdirs = useRecentValues('HEIDI_RECENT_WORKDIRS');
+  const recentPersonas = useRecentValues('HEIDI_RECENT_PERSONAS');
+  const recentContextPaths = useRecentValues('HEIDI_RECENT_CONTEXT_PATHS', 12);
+  const runContextErrors = validateRunContext(runContext);
+  const hasContextErrors = Object.keys(runContextErrors).length > 0;
+  const contextCount = (runContext.workdir.trim() ? 1 : 0) + (runContext.persona.trim() ? 1 : 0) + runContext.contextPaths.length;
 
   // Runtime State
   const [runId, setRunId] = useState<string | null>(null);
@@ -32,13 +57,19 @@ const Chat: React.FC<ChatProps> = ({ initialRunId, onRunCreated, isSidebarOpen,
   const [usage, setUsage] = useState<RunUsage | null>(null);
   const [isSending, setIsSending] = useState(false);
   const [isCancelling, setIsCancelling] = useState(false);
+  const [isReconnecting, setIsReconnecting] = useState(false);
 
   const isRunActive = !!runId && !['completed', 'failed', 'cancelled', 'idle'].includes(status.toLowerCase());
 
-  const abortControllerRef = useRef<AbortController | null>(null);
+  const streamRef = useRef<SSEConnection | null>(null);
+  const runFinishedRef = useRef(false);
   const pollingRef = useRef<any>(null);
+  // Run detail requests in flight; aborted when the run changes or streaming stops
+  const fetchAbortRef = useRef<AbortController | null>(null);
   const chatBottomRef = useRef<HTMLDivElement>(null);
   const textareaRef = useRef<HTMLTextAreaElement>(null);
+  // Route the prompt was typed on; a draft restored on mount belongs to it
+  const routeRunIdRef = useRef(initialRunId);
 
   // --- Initialization ---
   useEffect(() => {
@@ -48,10 +79,12 @@ const Chat: React.FC<ChatProps> = ({ initialRunId, onRunCreated, isSidebarOpen,
   }, []);
 
   useEffect(() => {
+    const routeChanged = routeRunIdRef.current !== initialRunId;
+    routeRunIdRef.current = initialRunId;
     if (initialRunId && initialRunId !== runId) {
       loadRun(initialRunId);
     } else if (!initialRunId) {
-      resetChat();
+      resetChat(routeChanged);
     }
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [initialRunId]);
@@ -75,7 +108,7 @@ const Chat: React.FC<ChatProps> = ({ initialRunId, onRunCreated, isSidebarOpen,
   }, [prompt]);
 
   // --- Logic ---
-  const resetChat = () => {
+  const resetChat = (clearPrompt = true) => {
     stopStreaming();
     setRunId(null);
     setTranscript([]);
@@ -83,19 +116,22 @@ const Chat: React.FC<ChatProps> = ({ initialRunId, onRunCreated, isSidebarOpen,
     setResult(null);
     setError(null);
     setUsage(null);
-    setPrompt('');
+    if (clearPrompt) setPrompt('');
     setIsCancelling(false);
   };
 
   const stopStreaming = () => {
-    if (abortControllerRef.current) {
-      abortControllerRef.current.abort();
-      abortControllerRef.current = null;
+    if (streamRef.current) {
+      streamRef.current.close();
+      streamRef.current = null;
     }
+    setIsReconnecting(false);
     if (pollingRef.current) {
       clearInterval(pollingRef.current);
       pollingRef.current = null;
     }
+    fetchAbortRef.current?.abort();
+    fetchAbortRef.current = null;
   };
 
   const loadRun = async (id: string) => {
@@ -105,9 +141,11 @@ const Chat: React.FC<ChatProps> = ({ initialRunId, onRunCreated, isSidebarOpen,
     setError(null);
     setResult(null);
     setUsage(null);
+    const controller = new AbortController();
+    fetchAbortRef.current = controller;
 
     try {
-      const details = await api.getRun(id);
+      const details = await api.getRun(id, { signal: controller.signal });
       
       // Merge meta prompt into events if missing for consistent display
       let events = details.events || [];
@@ -126,6 +164,12 @@ const Chat: React.FC<ChatProps> = ({ initialRunId, onRunCreated, isSidebarOpen,
       setStatus(details.meta?.status || RunStatus.RUNNING);
       setMode(details.meta?.task ? AppMode.LOOP : AppMode.RUN);
       setExecutor(details.meta?.executor || 'copilot');
+      if (typeof details.meta?.max_retries === 'number') setMaxRetries(details.meta.max_retries);
+      setRunContext({
+        workdir: details.meta?.workdir || '',
+        persona: details.meta?.persona || '',
+        contextPaths: Array.isArray(details.meta?.context_paths) ? details.meta.context_paths : [],
+      });
       if (details.result) setResult(details.result);
       if (details.error) setError(details.error);
       if (details.usage) setUsage(details.usage);
@@ -137,20 +181,29 @@ const Chat: React.FC<ChatProps> = ({ initialRunId, onRunCreated, isSidebarOpen,
       ) {
         startStreaming(id);
       }
-    } catch (err: any) {
-      console.error(err);
-      if (err.message === 'Unauthorized') {
+    } catch (err) {
+      if (controller.signal.aborted) return;
+      if (err instanceof UnauthorizedError) {
           setError('Authentication required to view this run.');
+      } else if (err instanceof NotFoundError) {
+          setError('This run does not exist on the current backend.');
       } else {
-          setError('Failed to load run details');
+          setError(describeError(err, 'Failed to load run details'));
       }
     }
   };
 
   const handleStart = async () => {
     if (!prompt.trim()) return;
+    if (hasContextErrors) {
+      setShowContext(true);
+      return;
+    }
 
     const currentPrompt = prompt;
+    const workdir = runContext.workdir.trim() || null;
+    const persona = runContext.persona.trim() || undefined;
+    const contextPaths = runContext.contextPaths;
     resetChat();
     
     // Add user prompt to transcript immediately so it shows in the list
@@ -166,19 +219,24 @@ const Chat: React.FC<ChatProps> = ({ initialRunId, onRunCreated, isSidebarOpen,
     try {
       let response;
       if (mode === AppMode.RUN) {
-        response = await api.startRun({ prompt: currentPrompt, executor, workdir: null, dry_run: dryRun });
+        response = await api.startRun({ prompt: currentPrompt, executor, workdir, persona, context_paths: contextPaths, dry_run: dryRun });
       } else {
-        response = await api.startLoop({ task: currentPrompt, executor, max_retries: maxRetries, workdir: null, dry_run: dryRun });
+        response = await api.startLoop({ task: currentPrompt, executor, max_retries: maxRetries, workdir, persona, context_paths: contextPaths, dry_run: dryRun });
       }
 
+      if (workdir) recentWorkdirs.remember(workdir);
+      if (persona) recentPersonas.remember(persona);
+      recentContextPaths.remember(...contextPaths);
+
       setRunId(response.run_id);
       setStatus(RunStatus.RUNNING);
       
-      if (onRunCreated) onRunCreated();
+      if (onRunCreated) onRunCreated(response.run_id);
       startStreaming(response.run_id);
-    } catch (err: any) {
-      setError(err.message || 'Failed to start run');
+    } catch (err) {
+      setError(describeError(err, 'Failed to start run'));
       setStatus(RunStatus.FAILED);
+      toast.error(mode === AppMode.RUN ? 'Could not start run' : 'Could not start loop', err);
     } finally {
       setIsSending(false);
     }
@@ -191,110 +249,74 @@ const Chat: React.FC<ChatProps> = ({ initialRunId, onRunCreated, isSidebarOpen,
           await api.cancelRun(runId);
           setStatus('cancelling');
       } catch (e) {
-          console.error("Cancel failed", e);
+          setIsCancelling(false);
+          toast.error('Could not cancel run', e);
       }
   };
 
-  const startStreaming = async (id: string) => {
+  const startStreaming = (id: string) => {
     stopStreaming();
-    
-    const { apiKey } = getSettings();
-    const headers: HeadersInit = {
-        'Accept': 'text/event-stream'
-    };
-    if (apiKey) {
-        headers['X-Heidi-Key'] = apiKey;
-    }
-
-    // getStreamUrl now appends ?key=<key> if apiKey exists
-    const streamUrl = api.getStreamUrl(id);
-    const controller = new AbortController();
-    abortControllerRef.current = controller;
-
-    try {
-      const response = await fetch(streamUrl, {
-        headers, // We still send headers for fetch-based streaming
-        signal: controller.signal,
-        credentials: 'include' // Important for cookie-based auth
-      });
-      
-      if (response.status === 401 || response.status === 403) {
-          throw new Error("Unauthorized");
-      }
-
-      if (!response.ok) {
-         throw new Error(`Stream connection failed: ${response.statusText}`);
-      }
-      
-      if (!response.body) throw new Error("No response body");
-      
-      const reader = response.body.getReader();
-      const decoder = new TextDecoder();
-      let buffer = '';
-
-      while (true) {
-        const { done, value } = await reader.read();
-        if (done) break;
-        
-        const chunk = decoder.decode(value, { stream: true });
-        buffer += chunk;
-        
-        // SSE messages are separated by double newline
-        const parts = buffer.split('\n\n');
-        // Keep the last part in buffer as it might be incomplete
-        buffer = parts.pop() || '';
-
-        for (const part of parts) {
-          const lines = part.split('\n');
-          for (const line of lines) {
-            const trimmed = line.trim();
-            if (trimmed.startsWith('data:')) {
-               const jsonStr = trimmed.replace(/^data:\s?/, '').trim();
-               if (!jsonStr) continue;
-               try {
-                 const data = JSON.parse(jsonStr);
-                 setTranscript((prev) => {
-                    // Avoid duplicating user_prompt if backend sends it and we already added it locally
-                    if (data.type === 'user_prompt') {
-                        const exists = prev.some(e => e.type === 'user_prompt' && e.message === data.message);
-                        if (exists) return prev;
-                    }
-                    return [...prev, data];
-                 });
-                 if (data.type === 'status') {
-                   setStatus(data.message);
-                 }
-                 // If the SSE event contains usage info (depends on backend implementation)
-                 if (data.usage) {
-                   setUsage(data.usage);
-                 }
-                 if (data.type === 'error') {
-                   setError(data.message);
-                 }
-               } catch (e) {
-                 console.warn("Error parsing SSE JSON chunk", jsonStr);
-               }
-            }
+    runFinishedRef.current = false;
+
+    streamRef.current = api.streamRun(id, {
+      onOpen: () => setIsReconnecting(false),
+      onEvent: (data) => {
+        setTranscript((prev) => {
+          // Avoid duplicating user_prompt if backend sends it and we already added it locally
+          if (data.type === 'user_prompt') {
+            const exists = prev.some(e => e.type === 'user_prompt' && e.message === data.message);
+            if (exists) return prev;
+          }
+          return [...prev, data];
+        });
+        if (data.type === 'status') {
+          setStatus(data.message);
+          if (['completed', 'failed', 'cancelled'].includes((data.message || '').toLowerCase())) {
+            runFinishedRef.current = true;
           }
         }
-      }
-    } catch (e: any) {
-      if (e.name === 'AbortError') return;
-      if (e.message === 'Unauthorized') {
+        // If the SSE event contains usage info (depends on backend implementation)
+        if (data.usage) {
+          setUsage(data.usage);
+        }
+        if (data.type === 'error') {
+          setError(data.message);
+        }
+      },
+      // Keep resuming until the run reports a terminal status
+      shouldReconnect: () => !runFinishedRef.current,
+      onReconnecting: (attempt, delayMs) => {
+        console.warn(`Stream dropped, reconnecting in ${delayMs}ms (attempt ${attempt})`);
+        setIsReconnecting(true);
+      },
+      onClose: () => {
+        // Stream finished; sync final result and usage from the run details
+        streamRef.current = null;
+        startPolling(id);
+      },
+      onError: (e) => {
+        streamRef.current = null;
+        setIsReconnecting(false);
+        if (e instanceof UnauthorizedError) {
           setError('Stream unauthorized. Please log in.');
           setStatus(RunStatus.FAILED);
           return;
-      }
-      console.warn("Streaming failed, switching to polling", e);
-      startPolling(id);
-    }
+        }
+        console.warn("Streaming failed, switching to polling", e);
+        startPolling(id);
+      },
+    });
   };
 
   const startPolling = (id: string) => {
     if (pollingRef.current) return;
+    const controller = new AbortController();
+    fetchAbortRef.current = controller;
+    // Reported once per streak of failures, not on every tick
+    let failing = false;
     const check = async () => {
       try {
-        const details = await api.getRun(id);
+        const details = await api.getRun(id, { signal: controller.signal });
         
         let events = details.events || [];
         const userMsg = details.meta?.prompt || details.meta?.task;
@@ -313,12 +335,23 @@ const Chat: React.FC<ChatProps> = ({ initialRunId, onRunCreated, isSidebarOpen,
         if (details.error) setError(details.error);
         if (details.usage) setUsage(details.usage);
         
+        failing = false;
         const s = (details.meta?.status || '').toLowerCase();
         if (['completed', 'failed', 'cancelled'].includes(s)) {
           stopStreaming();
           setIsCancelling(false);
         }
-      } catch (err) { console.error("Polling error", err); }
+      } catch (err) {
+        if (controller.signal.aborted) return;
+        // A deleted run, a lost session or a bad response won't fix itself
+        if (!isApiError(err) || !RETRYABLE_POLL_ERRORS.includes(err.kind)) {
+          stopStreaming();
+          toast.error('Stopped updating this run', err);
+          return;
+        }
+        if (!failing) toast.error('Could not refresh run, retrying', err);
+        failing = true;
+      }
     };
     check();
     pollingRef.current = setInterval(check, 1000); 
@@ -387,6 +420,7 @@ const Chat: React.FC<ChatProps> = ({ initialRunId, onRunCreated, isSidebarOpen,
                         {runId}
                    </span>
                )}
+               {runId && <PresenceAvatars peers={viewers} />}
            </div>
 
            {/* Metrics Display */}
@@ -426,7 +460,7 @@ const Chat: React.FC<ChatProps> = ({ initialRunId, onRunCreated, isSidebarOpen,
         {/* Events */}
         <div className="space-y-6">
             {transcript.map((event, idx) => {
-                if (!event.message) return null;
+                if (!event.message && event.details === undefined) return null;
                 
                 // User Prompt styling (Inserted into transcript)
                 if (event.type === 'user_prompt') {
@@ -445,33 +479,18 @@ const Chat: React.FC<ChatProps> = ({ initialRunId, onRunCreated, isSidebarOpen,
                     );
                 }
 
-                const isError = event.type === 'error';
-                return (
-                    <div key={idx} className="flex gap-4 max-w-full sm:max-w-[90%] animate-in fade-in slide-in-from-bottom-2 duration-300 group">
-                         <div className="flex-shrink-0 mt-1 hidden sm:block">
-                             <div className={`w-8 h-8 rounded-lg flex items-center justify-center border transition-colors ${isError ? 'bg-red-500/10 border-red-500/20 text-red-400' : 'bg-white/5 border-white/5 text-purple-400 group-hover:border-purple-500/30 group-hover:bg-purple-500/10'}`}>
-                                 {isError ? <AlertCircle size={16} /> : <Terminal size={16} />}
-                             </div>
-                         </div>
-                         <div className="flex-1 min-w-0">
-                             <div className="flex items-center gap-2 mb-2">
-                                <span className={`text-[10px] font-bold uppercase tracking-wider ${isError ? 'text-red-400' : 'text-purple-300/80'}`}>{event.type || 'System'}</span>
-                                <span className="text-[10px] text-slate-600 font-mono flex items-center gap-1">
-                                    <Clock size={10} />
-                                    {event.ts ? new Date(event.ts).toLocaleTimeString([], {hour: '2-digit', minute:'2-digit', second:'2-digit'}) : ''}
-                                </span>
-                             </div>
-                             
-                             <div className={`text-xs sm:text-sm leading-relaxed p-4 rounded-xl border shadow-sm overflow-x-auto custom-scrollbar font-mono ${
-                                 isError ? 'bg-red-950/30 border-red-500/20 text-red-200' : 
-                                 'bg-[#0a0a0a]/60 border-white/5 text-slate-300'
-                             }`}>
-                                 <pre className="whitespace-pre-wrap break-words">{event.message}</pre>
-                             </div>
-                         </div>
-                    </div>
-                )
+                // Loop runs render their events in the iteration timeline below the objective
+                if (mode === AppMode.LOOP) return null;
+                return <RunEventView key={idx} event={event} />;
             })}
+
+            {mode === AppMode.LOOP && transcript.some(e => e.type !== 'user_prompt') && (
+                <LoopTimeline
+                    events={transcript}
+                    maxRetries={maxRetries}
+                    isActive={isRunActive}
+                />
+            )}
             
             {/* Thinking Loader */}
             {isRunActive && !status.includes('cancel') && (
@@ -479,7 +498,7 @@ const Chat: React.FC<ChatProps> = ({ initialRunId, onRunCreated, isSidebarOpen,
                     <div className="w-8 h-8 flex-shrink-0 hidden sm:block" />
                     <div className="flex items-center gap-2 text-purple-400/70 text-xs bg-purple-500/5 px-4 py-2 rounded-full border border-purple-500/10">
                         <Loader2 size={12} className="animate-spin" />
-                        <span className="font-mono tracking-tight">Processing stream...</span>
+                        <span className="font-mono tracking-tight">{isReconnecting ? 'Reconnecting stream...' : 'Processing stream...'}</span>
                     </div>
                 </div>
             )}
@@ -492,9 +511,9 @@ const Chat: React.FC<ChatProps> = ({ initialRunId, onRunCreated, isSidebarOpen,
                     <CheckCircle size={14} />
                     Final Output
                 </h3>
-                <div className="bg-[#050505] border border-emerald-500/20 rounded-2xl p-5 sm:p-6 font-mono text-sm text-emerald-100/90 overflow-x-auto shadow-2xl relative group custom-scrollbar">
+                <div className="bg-[#050505] border border-emerald-500/20 rounded-2xl p-5 sm:p-6 text-sm text-emerald-50/90 overflow-x-auto shadow-2xl relative group custom-scrollbar">
                     <div className="absolute top-0 left-0 w-1 h-full bg-emerald-500/50 rounded-l-xl transition-all group-hover:bg-emerald-400"></div>
-                    <pre>{result}</pre>
+                    <Markdown content={result} />
                 </div>
             </div>
         )}
@@ -591,7 +610,35 @@ const Chat: React.FC<ChatProps> = ({ initialRunId, onRunCreated, isSidebarOpen,
                             />
                             <span className="text-[10px] font-bold uppercase text-slate-400 group-hover:text-purple-300 transition-colors">Dry Run</span>
                         </label>
+
+                        {/* Run Context */}
+                        <button
+                            onClick={() => setShowContext(!showContext)}
+                            className={`flex items-center gap-1.5 rounded-lg px-3 py-1.5 border transition-colors shrink-0 ${
+                                hasContextErrors ? 'bg-red-500/10 border-red-500/30 text-red-300' :
+                                showContext ? 'bg-purple-500/10 border-purple-500/30 text-purple-300' :
+                                'bg-white/5 border-white/10 text-slate-400 hover:border-purple-500/50 hover:text-purple-300'
+                            }`}
+                            title="Working directory, persona and context paths"
+                        >
+                            <FolderOpen size={12} />
+                            <span className="text-[10px] font-bold uppercase">Context</span>
+                            {contextCount > 0 && (
+                                <span className="text-[10px] font-mono bg-white/10 rounded px-1">{contextCount}</span>
+                            )}
+                        </button>
                     </div>
+
+                    {showContext && (
+                        <RunContextPanel
+                            value={runContext}
+                            onChange={setRunContext}
+                            errors={runContextErrors}
+                            recentWorkdirs={recentWorkdirs.values}
+                            recentPersonas={recentPersonas.values}
+                            recentContextPaths={recentContextPaths.values}
+                        />
+                    )}
                 </div>
             )}
 
@@ -629,7 +676,7 @@ const Chat: React.FC<ChatProps> = ({ initialRunId, onRunCreated, isSidebarOpen,
                     ) : (
                         <button
                             onClick={handleStart}
-                            disabled={!prompt.trim() || isSending}
+                            disabled={!prompt.trim() || isSending || hasContextErrors}
                             className={`p-3 rounded-xl flex items-center justify-center transition-all duration-300 shadow-lg ${
                                 prompt.trim() && !isSending 
                                 ? 'bg-indigo-600 text-white hover:scale-105 hover:bg-indigo-500 shadow-indigo-900/20' 
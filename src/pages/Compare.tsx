@@ -0,0 +1,377 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { api } from '../api/heidi';
+import Markdown from '../components/Markdown';
+import { DiffView } from '../components/RunEventView';
+import { PHASES, PHASE_META, buildLoopIterations, formatDuration } from '../components/LoopTimeline';
+import { RunDetails } from '../types';
+import { PanelLeft, GitCompare, Plus, X, Loader2, AlertTriangle, CheckCircle, XCircle, Circle, ExternalLink, Layers, Coins, Clock } from 'lucide-react';
+
+interface CompareProps {
+  runIds: string[];
+  onChangeRunIds: (runIds: string[]) => void;
+  onOpenRun: (runId: string) => void;
+  isSidebarOpen: boolean;
+  onToggleSidebar: () => void;
+}
+
+type LoadState =
+  | { state: 'loading' }
+  | { state: 'loaded'; details: RunDetails }
+  | { state: 'error'; message: string };
+
+interface RunStats {
+  phaseCounts: Record<string, number>;
+  otherEvents: number; // Events outside any phase
+  totalEvents: number;
+  durationMs?: number;
+}
+
+const tsOf = (value: unknown) => {
+  if (typeof value !== 'string') return undefined;
+  const t = Date.parse(value);
+  return isNaN(t) ? undefined : t;
+};
+
+const computeStats = (details: RunDetails): RunStats => {
+  const events = (details.events || []).filter(e => e.type !== 'user_prompt');
+  const phaseCounts: Record<string, number> = {};
+  let otherEvents = 0;
+  for (const iter of buildLoopIterations(events)) {
+    for (const group of iter.phases) {
+      if (group.phase) phaseCounts[group.phase] = (phaseCounts[group.phase] || 0) + group.events.length;
+      else otherEvents += group.events.length;
+    }
+  }
+
+  // Prefer backend timestamps, fall back to the span of the transcript
+  const times = events.map(e => tsOf(e.ts)).filter((t): t is number => t !== undefined);
+  const start = tsOf(details.meta?.created_at) ?? (times.length ? Math.min(...times) : undefined);
+  const end = tsOf(details.meta?.finished_at) ?? tsOf(details.meta?.updated_at) ?? (times.length ? Math.max(...times) : undefined);
+
+  return {
+    phaseCounts,
+    otherEvents,
+    totalEvents: events.length,
+    durationMs: start !== undefined && end !== undefined && end >= start ? end - start : undefined,
+  };
+};
+
+// Above this many LCS cells the diff degrades to "replace everything"
+const MAX_DIFF_CELLS = 4_000_000;
+
+// Line-based unified-style diff (LCS), rendered through DiffView
+const buildLineDiff = (before: string, after: string): string[] => {
+  const a = before.split('\n');
+  const b = after.split('\n');
+  if (a.length * b.length > MAX_DIFF_CELLS) {
+    return [...a.map(l => `-${l}`), ...b.map(l => `+${l}`)];
+  }
+
+  const table = Array.from({ length: a.length + 1 }, () => new Uint32Array(b.length + 1));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      table[i][j] = a[i] === b[j] ? table[i + 1][j + 1] + 1 : Math.max(table[i + 1][j], table[i][j + 1]);
+    }
+  }
+
+  const lines: string[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      lines.push(` ${a[i]}`);
+      i++; j++;
+    } else if (table[i + 1][j] >= table[i][j + 1]) {
+      lines.push(`-${a[i++]}`);
+    } else {
+      lines.push(`+${b[j++]}`);
+    }
+  }
+  while (i < a.length) lines.push(`-${a[i++]}`);
+  while (j < b.length) lines.push(`+${b[j++]}`);
+  return lines;
+};
+
+const shortId = (runId: string) => `#${runId.substring(0, 5)}`;
+
+const StatusIcon: React.FC<{ status?: string }> = ({ status }) => {
+  const s = status?.toLowerCase() || '';
+  if (s === 'completed') return <CheckCircle size={14} className="text-emerald-400" />;
+  if (s === 'failed' || s === 'cancelled') return <XCircle size={14} className="text-red-400" />;
+  return <Circle size={14} className="text-purple-400 animate-pulse" />;
+};
+
+const Compare: React.FC<CompareProps> = ({ runIds, onChangeRunIds, onOpenRun, isSidebarOpen, onToggleSidebar }) => {
+  const [runs, setRuns] = useState<Record<string, LoadState>>({});
+  const [newRunId, setNewRunId] = useState('');
+  const [diffTarget, setDiffTarget] = useState<string | null>(null);
+
+  // Load details for any run we have not fetched yet
+  useEffect(() => {
+    const missing = runIds.filter(id => !runs[id]);
+    if (missing.length === 0) return;
+    setRuns(prev => {
+      const next = { ...prev };
+      missing.forEach(id => { next[id] = { state: 'loading' }; });
+      return next;
+    });
+    missing.forEach(async (id) => {
+      try {
+        const details = await api.getRun(id);
+        setRuns(prev => ({ ...prev, [id]: { state: 'loaded', details } }));
+      } catch (e: any) {
+        setRuns(prev => ({ ...prev, [id]: { state: 'error', message: e.message || 'Failed to load run' } }));
+      }
+    });
+  }, [runIds.join(',')]);
+
+  const baselineId = runIds[0];
+  const targetId = diffTarget && runIds.includes(diffTarget) && diffTarget !== baselineId ? diffTarget : runIds[1];
+
+  const handleAdd = (e: React.FormEvent) => {
+    e.preventDefault();
+    const id = newRunId.trim();
+    if (!id || runIds.includes(id)) return;
+    onChangeRunIds([...runIds, id]);
+    setNewRunId('');
+  };
+
+  const handleRemove = (id: string) => {
+    onChangeRunIds(runIds.filter(r => r !== id));
+    setRuns(prev => {
+      const next = { ...prev };
+      delete next[id];
+      return next;
+    });
+  };
+
+  // Stats and the result diff only change with the loaded details, not on
+  // every render (each keystroke in the add-run field re-renders)
+  const loaded = useMemo(() => runIds
+    .map(id => ({ id, load: runs[id] }))
+    .filter((r): r is { id: string; load: { state: 'loaded'; details: RunDetails } } => r.load?.state === 'loaded')
+    .map(({ id, load }) => ({ id, details: load.details, stats: computeStats(load.details) })), [runs, runIds.join(',')]);
+
+  // Best (lowest) value per metric among loaded runs, for highlighting
+  const minOf = (values: (number | undefined)[]) => {
+    const defined = values.filter((v): v is number => v !== undefined);
+    return defined.length > 1 ? Math.min(...defined) : undefined;
+  };
+  const bestDuration = minOf(loaded.map(r => r.stats.durationMs));
+  const bestCost = minOf(loaded.map(r => r.details.usage?.cost_usd));
+  const bestTokens = minOf(loaded.map(r => r.details.usage?.total_tokens));
+
+  const phasesPresent = PHASES.filter(p => loaded.some(r => r.stats.phaseCounts[p]));
+
+  const baseline = loaded.find(r => r.id === baselineId);
+  const target = loaded.find(r => r.id === targetId);
+  const baselineDetails = baseline?.details;
+  const targetDetails = target?.details;
+  const diffLines = useMemo(() => baselineDetails && targetDetails
+    ? buildLineDiff(baselineDetails.result || '', targetDetails.result || '')
+    : null, [baselineDetails, targetDetails]);
+  const identical = !!diffLines && diffLines.every(l => l.startsWith(' '));
+
+  const gridStyle = { gridTemplateColumns: `repeat(${Math.max(runIds.length, 1)}, minmax(16rem, 1fr))` };
+
+  const metricRow = (label: React.ReactNode, cell: (r: typeof loaded[number]) => React.ReactNode) => (
+    <tr className="border-t border-white/5">
+      <th className="text-left font-medium text-slate-500 py-2 pr-4 whitespace-nowrap">{label}</th>
+      {runIds.map(id => {
+        const run = loaded.find(r => r.id === id);
+        return <td key={id} className="py-2 px-3 font-mono text-slate-300 whitespace-nowrap">{run ? cell(run) : '—'}</td>;
+      })}
+    </tr>
+  );
+
+  const highlight = (value: number | undefined, best: number | undefined, text: string) => (
+    <span className={value !== undefined && value === best ? 'text-emerald-400 font-bold' : ''}>{text}</span>
+  );
+
+  return (
+    <div className="h-full flex flex-col w-full bg-transparent relative">
+      {/* Header */}
+      <div className="px-4 sm:px-6 py-4 flex items-center gap-4 bg-[#0a0a0a]/80 backdrop-blur-xl border-b border-white/5 shrink-0 sticky top-0 z-20">
+        <button
+          onClick={onToggleSidebar}
+          className="text-slate-400 hover:text-white transition-colors p-2 -ml-2 rounded-lg hover:bg-white/5 active:bg-white/10"
+        >
+          <PanelLeft size={20} />
+        </button>
+        <GitCompare size={18} className="text-purple-300" />
+        <h1 className="text-lg font-bold text-white tracking-tight">Compare Runs</h1>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-4 sm:p-8 custom-scrollbar">
+        <div className="max-w-6xl mx-auto space-y-8 pb-20">
+
+          {/* Run selection */}
+          <div className="flex flex-wrap items-center gap-2">
+            {runIds.map((id, i) => {
+              const load = runs[id];
+              return (
+                <span key={id} className="flex items-center gap-2 pl-3 pr-1.5 py-1.5 rounded-full bg-white/5 border border-white/10 text-xs">
+                  {i === 0 && <span className="text-[9px] font-bold uppercase tracking-wider text-purple-300">Base</span>}
+                  <span className="font-mono text-slate-200">{shortId(id)}</span>
+                  {load?.state === 'loading' && <Loader2 size={12} className="animate-spin text-slate-500" />}
+                  {load?.state === 'error' && <AlertTriangle size={12} className="text-red-400" />}
+                  <button onClick={() => handleRemove(id)} className="p-0.5 rounded-full text-slate-500 hover:text-white hover:bg-white/10" title="Remove from comparison">
+                    <X size={12} />
+                  </button>
+                </span>
+              );
+            })}
+            <form onSubmit={handleAdd} className="flex items-center gap-1">
+              <input
+                value={newRunId}
+                onChange={(e) => setNewRunId(e.target.value)}
+                placeholder="Add run ID"
+                className="bg-black/30 border border-white/10 rounded-full px-3 py-1.5 text-xs font-mono text-slate-200 placeholder-slate-600 focus:outline-none focus:border-purple-500/40 w-40"
+              />
+              <button type="submit" disabled={!newRunId.trim()} className="p-1.5 rounded-full bg-purple-600/20 text-purple-200 hover:bg-purple-600/30 disabled:opacity-40 transition-colors" title="Add run">
+                <Plus size={14} />
+              </button>
+            </form>
+          </div>
+
+          {runIds.length < 2 && (
+            <div className="p-6 text-center rounded-2xl border border-white/5 bg-white/[0.02] text-sm text-slate-400">
+              Select at least two runs to compare. Use <span className="font-bold text-slate-200">Compare</span> in the history sidebar or add run IDs above.
+            </div>
+          )}
+
+          {runIds.some(id => runs[id]?.state === 'error') && (
+            <div className="space-y-2">
+              {runIds.map(id => {
+                const load = runs[id];
+                if (load?.state !== 'error') return null;
+                return (
+                  <div key={id} className="flex items-center gap-2 text-xs text-red-200 bg-red-500/5 border border-red-500/10 rounded-lg px-3 py-2">
+                    <AlertTriangle size={12} className="text-red-400 shrink-0" />
+                    <span className="font-mono">{shortId(id)}</span>
+                    <span>{load.message}</span>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+
+          {/* Metrics */}
+          {loaded.length > 0 && (
+            <section className="rounded-2xl border border-white/5 bg-white/[0.02] p-4 overflow-x-auto custom-scrollbar">
+              <table className="w-full text-xs">
+                <thead>
+                  <tr>
+                    <th></th>
+                    {runIds.map(id => {
+                      const run = loaded.find(r => r.id === id);
+                      return (
+                        <th key={id} className="text-left px-3 pb-2">
+                          <button onClick={() => onOpenRun(id)} className="flex items-center gap-2 text-slate-200 hover:text-purple-300 transition-colors" title="Open run">
+                            <StatusIcon status={run?.details.meta?.status} />
+                            <span className="font-mono">{shortId(id)}</span>
+                            <ExternalLink size={10} className="opacity-50" />
+                          </button>
+                        </th>
+                      );
+                    })}
+                  </tr>
+                </thead>
+                <tbody>
+                  {metricRow('Executor', r => r.details.meta?.executor || '—')}
+                  {metricRow('Status', r => <span className="capitalize">{r.details.meta?.status || '—'}</span>)}
+                  {metricRow(<span className="flex items-center gap-1.5"><Clock size={11} />Duration</span>, r =>
+                    r.stats.durationMs !== undefined ? highlight(r.stats.durationMs, bestDuration, formatDuration(r.stats.durationMs)) : '—'
+                  )}
+                  {metricRow('Events', r => r.stats.totalEvents)}
+                  {phasesPresent.map(phase => (
+                    <React.Fragment key={phase}>
+                      {metricRow(
+                        <span className={`flex items-center gap-1.5 pl-3 ${PHASE_META[phase].color}`}>{PHASE_META[phase].icon}{PHASE_META[phase].label}</span>,
+                        r => r.stats.phaseCounts[phase] || 0
+                      )}
+                    </React.Fragment>
+                  ))}
+                  {loaded.some(r => r.stats.otherEvents > 0) && metricRow(<span className="pl-3">Other</span>, r => r.stats.otherEvents)}
+                  {metricRow(<span className="flex items-center gap-1.5"><Layers size={11} />Input tokens</span>, r => r.details.usage?.input_tokens.toLocaleString() ?? '—')}
+                  {metricRow(<span className="flex items-center gap-1.5 pl-[17px]">Output tokens</span>, r => r.details.usage?.output_tokens.toLocaleString() ?? '—')}
+                  {metricRow(<span className="flex items-center gap-1.5 pl-[17px]">Total tokens</span>, r =>
+                    r.details.usage ? highlight(r.details.usage.total_tokens, bestTokens, r.details.usage.total_tokens.toLocaleString()) : '—'
+                  )}
+                  {metricRow(<span className="flex items-center gap-1.5"><Coins size={11} />Cost</span>, r =>
+                    r.details.usage ? highlight(r.details.usage.cost_usd, bestCost, `$${r.details.usage.cost_usd.toFixed(4)}`) : '—'
+                  )}
+                </tbody>
+              </table>
+            </section>
+          )}
+
+          {/* Results side by side */}
+          {loaded.length > 0 && (
+            <section className="space-y-3">
+              <h2 className="text-xs font-bold uppercase tracking-wider text-slate-500">Results</h2>
+              <div className="overflow-x-auto custom-scrollbar">
+                <div className="grid gap-4" style={gridStyle}>
+                  {runIds.map(id => {
+                    const load = runs[id];
+                    return (
+                      <div key={id} className="rounded-2xl border border-white/5 bg-[#0f0f13]/60 p-4 min-w-0">
+                        <div className="flex items-center gap-2 mb-3 text-[10px] font-mono text-slate-500">
+                          <span className="text-slate-300">{shortId(id)}</span>
+                          {load?.state === 'loaded' && <span>{load.details.meta?.executor}</span>}
+                        </div>
+                        {load?.state === 'loading' && <Loader2 size={16} className="animate-spin text-slate-500" />}
+                        {load?.state === 'error' && <p className="text-xs text-red-300">{load.message}</p>}
+                        {load?.state === 'loaded' && (
+                          load.details.result ? (
+                            <Markdown content={load.details.result} className="text-sm" />
+                          ) : load.details.error ? (
+                            <p className="text-xs text-red-300 font-mono whitespace-pre-wrap">{load.details.error}</p>
+                          ) : (
+                            <p className="text-xs text-slate-500 italic">No result</p>
+                          )
+                        )}
+                      </div>
+                    );
+                  })}
+                </div>
+              </div>
+            </section>
+          )}
+
+          {/* Result diff */}
+          {runIds.length >= 2 && (
+            <section className="space-y-3">
+              <div className="flex flex-wrap items-center gap-3">
+                <h2 className="text-xs font-bold uppercase tracking-wider text-slate-500">Result Diff</h2>
+                <span className="text-[10px] font-mono text-slate-500">{shortId(baselineId)} →</span>
+                {runIds.length > 2 ? (
+                  <select
+                    value={targetId}
+                    onChange={(e) => setDiffTarget(e.target.value)}
+                    className="bg-black/30 border border-white/10 rounded-lg px-2 py-1 text-[11px] font-mono text-slate-200 focus:outline-none"
+                  >
+                    {runIds.slice(1).map(id => <option key={id} value={id}>{shortId(id)}</option>)}
+                  </select>
+                ) : (
+                  <span className="text-[10px] font-mono text-slate-300">{shortId(targetId)}</span>
+                )}
+              </div>
+              {!diffLines ? (
+                runs[baselineId]?.state === 'error' || runs[targetId]?.state === 'error'
+                  ? <p className="text-xs text-slate-500">Diff unavailable: a run failed to load.</p>
+                  : <Loader2 size={16} className="animate-spin text-slate-500" />
+              ) : identical ? (
+                <p className="text-xs text-slate-400">Results are identical.</p>
+              ) : (
+                <DiffView diff={diffLines.join('\n')} />
+              )}
+            </section>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default Compare;
@@ -1,12 +1,27 @@
 import React, { useState, useRef, useEffect } from 'react';
-import { ai, checkApiKeySelection } from '../api/gemini';
-import { GenerateContentResponse, Modality, LiveServerMessage } from '@google/genai';
-import { PanelLeft, Mic, Send, Image as ImageIcon, Video, Wand2, Sparkles, Loader2, Volume2, Search, MapPin, Play, StopCircle, RefreshCw, Upload, Download, Users, Phone, PhoneOff, Video as VideoIcon } from 'lucide-react';
-import { useCollaboration, Peer } from '../hooks/useCollaboration';
+import { ai, checkApiKeySelection, db, createChatId, base64ToBlob, blobToBase64, base64Size, MAX_STORED_ATTACHMENT_BYTES, AttachmentKind, StoredMessage } from '../api/gemini';
+import { GenerateContentResponse, Modality, LiveServerMessage, GroundingChunk, Content, Part, FunctionCall } from '@google/genai';
+import { PanelLeft, Mic, Send, Image as ImageIcon, Video, Wand2, Sparkles, Loader2, Volume2, Search, MapPin, Play, StopCircle, Code2, Terminal, Lock, Unlock, Link2, Check, Plus, AlertTriangle, RefreshCw, Upload, Download, Users, Phone, PhoneOff, Video as VideoIcon } from 'lucide-react';
+import { ChatSettings, DEFAULT_CHAT_SETTINGS, GEMINI_MODELS, TOOL_LABELS, GeminiTool, getModelInfo, normalizeSettings, thinkingBudgetsFor, formatThinkingBudget, buildGenerateConfig, isThinkingEnabled, describeSettings } from '../api/geminiModels';
+import { executeHeidiFunction, HeidiCall, MAX_FUNCTION_ROUNDS } from '../api/geminiTools';
+import { buildRequestContext, planContext, ContextSummary, DEFAULT_CONTEXT_BUDGET } from '../api/geminiContext';
+import { Collaboration, Peer } from '../hooks/useCollaboration';
+import { useSessionDraft } from '../hooks/useSessionDraft';
+import { toast } from '../hooks/useToasts';
+import { RoomMessage } from '../api/collabProtocol';
+import { createRoomId, createPassphrase, buildInviteLink } from '../api/collabRooms';
+import Markdown from '../components/Markdown';
+import TransferProgressList from '../components/TransferProgressList';
+import PresenceAvatars, { peerLabel } from '../components/PresenceAvatars';
+import HeidiRunCard from '../components/HeidiRunCard';
+import HeidiCallConfirm from '../components/HeidiCallConfirm';
 
 interface GeminiProps {
   isSidebarOpen: boolean;
   onToggleSidebar: () => void;
+  chatId?: string | null;
+  onChatCreated?: (chatId: string) => void;
+  collaboration: Collaboration; // The app-wide room, see useCollaboration
 }
 
 type Tab = 'chat' | 'create' | 'live';
@@ -18,28 +33,136 @@ type ChatMessage = {
     image?: string; 
     video?: string; 
     mimeType?: string;
-    isThinking?: boolean;
+    isThinking?: boolean; // Reply is still in its thinking phase
+    thoughts?: string; // Thinking summary streamed alongside the reply
+    streamId?: string; // Set while the reply is streaming in
+    stopped?: boolean; // Generation was stopped by the user
+    settings?: ChatSettings; // Model configuration used for this reply
+    runIds?: string[]; // Heidi runs started or checked through function calls
+    pendingCall?: HeidiCall; // Heidi call waiting for the user to run or decline it
     senderId?: string; // For peers
+    senderName?: string;
+    roomMessageId?: string; // Collaboration envelope id, used to dedup room traffic
+    transfer?: { id: string; kind: AttachmentKind; size: number }; // Attachment moving through the room
+    attachmentId?: string; // Key of the persisted image/video
+    attachmentOmitted?: AttachmentKind; // Attachment was too large to persist
 };
 
-export default function Gemini({ isSidebarOpen, onToggleSidebar }: GeminiProps) {
+// Collapsible thinking summary shown above a model reply
+const ThoughtsPanel: React.FC<{ thoughts: string; active: boolean }> = ({ thoughts, active }) => {
+  const [open, setOpen] = useState(false);
+  return (
+    <div className="mb-3 rounded-lg border border-purple-500/20 bg-purple-500/5">
+      <button
+        onClick={() => setOpen(!open)}
+        className="w-full flex items-center gap-2 px-3 py-1.5 text-[11px] font-bold uppercase tracking-wider text-purple-300"
+      >
+        {active ? <Loader2 size={12} className="animate-spin" /> : <Wand2 size={12} />}
+        {active ? 'Thinking…' : 'Thoughts'}
+        <span className="ml-auto text-purple-400/60 normal-case font-normal">{open ? 'Hide' : 'Show'}</span>
+      </button>
+      {open && (
+        <div className="px-3 pb-3 text-xs text-slate-400 border-t border-purple-500/10 pt-2">
+          <Markdown content={thoughts} className="text-xs" />
+        </div>
+      )}
+    </div>
+  );
+};
+
+const SAVE_DEBOUNCE_MS = 400;
+
+// Sender's profile picture while they're in the room
+const PeerAvatar: React.FC<{ peer?: Peer }> = ({ peer }) =>
+  peer?.profile?.avatarUrl
+    ? <img src={peer.profile.avatarUrl} alt={peerLabel(peer)} className="w-full h-full rounded-full object-cover" />
+    : <Users size={14} className="text-green-300" />;
+
+// Peer AI replies keep the "[AI Response]" tag that keeps them out of our own model context.
+// Attachment bytes are filled in from `files` once their transfer completes.
+const roomMessageToChat = (m: RoomMessage, files: Record<string, string>): ChatMessage => {
+  const data = m.attachment ? files[m.attachment.transferId] : undefined;
+  return {
+    role: 'peer',
+    text: m.kind === 'ai' ? `[AI Response]: ${m.text}` : m.text,
+    senderId: m.senderId,
+    senderName: m.senderName,
+    roomMessageId: m.id,
+    image: m.attachment?.type === 'image' ? data : undefined,
+    video: m.attachment?.type === 'video' ? data : undefined,
+    mimeType: m.attachment?.mimeType,
+    attachmentId: m.attachment ? createChatId() : undefined,
+    transfer: m.attachment ? { id: m.attachment.transferId, kind: m.attachment.type, size: m.attachment.size } : undefined,
+  };
+};
+
+const TITLE_MAX_LENGTH = 48;
+
+const provisionalTitle = (messages: ChatMessage[]) => {
+  const first = messages.find(m => m.role === 'user' && m.text.trim());
+  if (!first) return messages.some(m => m.image || m.video) ? 'Media chat' : 'New chat';
+  const line = first.text.trim().split('\n')[0];
+  return line.length > TITLE_MAX_LENGTH ? `${line.slice(0, TITLE_MAX_LENGTH - 1)}…` : line;
+};
+
+// Rebuilds an in-memory message, pulling its attachment back out of IndexedDB
+const hydrateMessage = async (stored: StoredMessage): Promise<ChatMessage> => {
+  const msg: ChatMessage = {
+    role: stored.role,
+    text: stored.text,
+    senderId: stored.senderId,
+    mimeType: stored.mimeType,
+    thoughts: stored.thoughts,
+    stopped: stored.stopped,
+    settings: stored.settings,
+    runIds: stored.runIds,
+    senderName: stored.senderName,
+    roomMessageId: stored.roomMessageId,
+    attachmentOmitted: stored.attachmentOmitted,
+  };
+  if (stored.attachment) {
+    const attachment = await db.getAttachment(stored.attachment.id).catch(() => undefined);
+    if (attachment) {
+      msg[stored.attachment.kind] = await blobToBase64(attachment.blob);
+      msg.attachmentId = stored.attachment.id;
+    } else {
+      msg.attachmentOmitted = stored.attachment.kind;
+    }
+  }
+  return msg;
+};
+
+export default function Gemini({ isSidebarOpen, onToggleSidebar, chatId = null, onChatCreated, collaboration }: GeminiProps) {
   const [activeTab, setActiveTab] = useState<Tab>('chat');
 
+  // Persistence State
+  const chatIdRef = useRef<string | null>(null);
+  const createdAtRef = useRef(Date.now());
+  const storedAttachmentsRef = useRef<Set<string>>(new Set());
+  const autoTitlesRef = useRef<Record<string, string>>({});
+  const skipSaveRef = useRef(false); // Next messages change came from a load
+  const pendingSaveRef = useRef<(() => void) | null>(null);
+  const [isLoadingChat, setIsLoadingChat] = useState(false);
+  const [isChatReady, setIsChatReady] = useState(false); // Room messages wait until the chat is loaded
+  const abortRef = useRef<AbortController | null>(null);
+  const answerCallRef = useRef<((approved: boolean) => void) | null>(null); // Answers the shown pendingCall
+  const [contextSummary, setContextSummary] = useState<ContextSummary | null>(null);
+
   // Chat State
   const [messages, setMessages] = useState<ChatMessage[]>([]);
   const [prompt, setPrompt] = useState('');
-  const [isThinking, setIsThinking] = useState(false);
-  const [isFast, setIsFast] = useState(false);
-  const [useSearch, setUseSearch] = useState(false);
-  const [useMaps, setUseMaps] = useState(false);
+  useSessionDraft('gemini', prompt, setPrompt);
+  const [settings, setSettings] = useState<ChatSettings>(DEFAULT_CHAT_SETTINGS);
   const [isProcessing, setIsProcessing] = useState(false);
   const [attachment, setAttachment] = useState<{ type: 'image' | 'video'; data: string; mimeType: string } | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
   // Collaboration State
   const [collabRoomId, setCollabRoomId] = useState('');
-  const [activeRoom, setActiveRoom] = useState<string | null>(null);
-  const { peers, messages: remoteMessages, typingUsers, broadcastMessage, broadcastTyping, startCall, endCall, localStream } = useCollaboration(activeRoom);
+  const [collabPassphrase, setCollabPassphrase] = useState('');
+  const [inviteCopied, setInviteCopied] = useState(false);
+  const { room: activeRoom, setRoom: setActiveRoom, peers, selfId, encrypted, transportKind, supportsMedia, connectionError, messages: remoteMessages, acks, transfers, files, typingUsers, broadcastMessage, broadcastTyping, startCall, endCall, localStream } = collaboration;
+  const seenRoomMessagesRef = useRef<Set<string>>(new Set());
   const [isInCall, setIsInCall] = useState(false);
 
   // Create State
@@ -56,23 +179,64 @@ export default function Gemini({ isSidebarOpen, onToggleSidebar }: GeminiProps)
   const [liveStatus, setLiveStatus] = useState('Disconnected');
   const [liveVolume, setLiveVolume] = useState(0);
 
-  // Sync Remote Messages
-  useEffect(() => {
-      if (remoteMessages.length > 0) {
-          const lastMsg = remoteMessages[remoteMessages.length - 1];
-          // Check if we already have this message (simple dedup by timestamp/content if needed, but here just append)
-          // Ideally we'd have IDs. For now, we trust the stream.
-          const newMsg: ChatMessage = {
-              role: 'peer',
-              text: lastMsg.text,
-              senderId: lastMsg.senderId,
-              image: lastMsg.attachment?.type === 'image' ? lastMsg.attachment.data : undefined,
-              video: lastMsg.attachment?.type === 'video' ? lastMsg.attachment.data : undefined,
-              mimeType: lastMsg.attachment?.mimeType
-          };
-          setMessages(prev => [...prev, newMsg]);
+  const handleCreateRoom = () => {
+      setActiveRoom({ id: createRoomId(), passphrase: createPassphrase() });
+  };
+
+  const handleJoinRoom = () => {
+      setActiveRoom({ id: collabRoomId.trim(), passphrase: collabPassphrase || undefined });
+      setCollabPassphrase('');
+  };
+
+  const handleCopyInvite = async () => {
+      if (!activeRoom) return;
+      try {
+          await navigator.clipboard.writeText(buildInviteLink(activeRoom));
+          setInviteCopied(true);
+          setTimeout(() => setInviteCopied(false), 2000);
+      } catch (e) {
+          console.error("Failed to copy invite link", e);
       }
-  }, [remoteMessages]);
+  };
+
+  // Sync Remote Messages: every peer message not yet in this chat is placed
+  // where the room's agreed order puts it. The room outlives this page, so
+  // messages that arrived elsewhere are merged in once the chat has loaded.
+  useEffect(() => {
+      if (!isChatReady) return;
+      const fresh = remoteMessages.filter(m => m.senderId !== selfId && !seenRoomMessagesRef.current.has(m.id));
+      if (fresh.length === 0) return;
+      fresh.forEach(m => seenRoomMessagesRef.current.add(m.id));
+      ensureChatId();
+      const roomOrder = new Map(remoteMessages.map((m, i) => [m.id, i]));
+      setMessages(prev => {
+          const known = new Set(prev.map(m => m.roomMessageId).filter(Boolean));
+          let next = prev;
+          fresh.filter(m => !known.has(m.id)).forEach(m => {
+              const position = roomOrder.get(m.id)!;
+              const before = next.findIndex(other => other.roomMessageId !== undefined && (roomOrder.get(other.roomMessageId) ?? -1) > position);
+              const peerMsg = roomMessageToChat(m, files);
+              next = before === -1 ? [...next, peerMsg] : [...next.slice(0, before), peerMsg, ...next.slice(before)];
+          });
+          return next;
+      });
+  }, [remoteMessages, selfId, isChatReady]);
+
+  // Attachments that finished transferring after their message arrived
+  useEffect(() => {
+      setMessages(prev => {
+          if (!prev.some(m => m.transfer && files[m.transfer.id] && !m.image && !m.video)) return prev;
+          return prev.map(m => {
+              if (!m.transfer || !files[m.transfer.id] || m.image || m.video) return m;
+              return { ...m, [m.transfer.kind]: files[m.transfer.id] };
+          });
+      });
+  }, [files]);
+
+  const peerName = (peerId: string) => {
+      const peer = peers.find(p => p.id === peerId);
+      return peer ? peerLabel(peer) : `Peer ${peerId.slice(0, 4)}`;
+  };
 
   // Typing Broadcast
   const handleTyping = (e: React.ChangeEvent<HTMLTextAreaElement>) => {
@@ -85,6 +249,140 @@ export default function Gemini({ isSidebarOpen, onToggleSidebar }: GeminiProps)
       }
   };
 
+  // --- Persistence ---
+
+  const persistChat = async (id: string, list: ChatMessage[], createdAt: number, summary: ContextSummary | null, chatSettings: ChatSettings) => {
+    const stored: StoredMessage[] = [];
+    for (const m of list) {
+      const entry: StoredMessage = { role: m.role, text: m.text, senderId: m.senderId, mimeType: m.mimeType, thoughts: m.thoughts, stopped: m.stopped, settings: m.settings, runIds: m.runIds, senderName: m.senderName, roomMessageId: m.roomMessageId };
+      const kind: AttachmentKind | undefined = m.image ? 'image' : m.video ? 'video' : undefined;
+      if (kind && m.attachmentId) {
+        const data = m[kind]!;
+        if (base64Size(data) > MAX_STORED_ATTACHMENT_BYTES) {
+          entry.attachmentOmitted = kind;
+        } else {
+          // Attachments are written once, as binary, outside the chat record
+          if (!storedAttachmentsRef.current.has(m.attachmentId)) {
+            const fallbackType = kind === 'image' ? 'image/jpeg' : 'video/mp4';
+            await db.saveAttachment({ id: m.attachmentId, chatId: id, blob: base64ToBlob(data, m.mimeType || fallbackType) });
+            storedAttachmentsRef.current.add(m.attachmentId);
+          }
+          entry.attachment = { id: m.attachmentId, kind };
+        }
+      } else if (m.attachmentOmitted) {
+        entry.attachmentOmitted = m.attachmentOmitted;
+      }
+      stored.push(entry);
+    }
+
+    const existing = await db.getChat(id);
+    const title = existing?.customTitle
+      ? existing.title
+      : autoTitlesRef.current[id] || existing?.title || provisionalTitle(list);
+    await db.saveChat({
+      id,
+      title,
+      customTitle: existing?.customTitle,
+      messages: stored,
+      contextSummary: summary || undefined,
+      settings: chatSettings,
+      createdAt: existing?.createdAt ?? createdAt,
+      updatedAt: Date.now(),
+    });
+  };
+
+  const flushPendingSave = () => {
+    const pending = pendingSaveRef.current;
+    pendingSaveRef.current = null;
+    pending?.();
+  };
+
+  // Auto-save shortly after every change
+  useEffect(() => {
+    if (skipSaveRef.current) {
+      skipSaveRef.current = false;
+      return;
+    }
+    const id = chatIdRef.current;
+    if (!id || messages.length === 0) return;
+    const createdAt = createdAtRef.current;
+    const save = () => {
+      persistChat(id, messages, createdAt, contextSummary, settings).catch(e => console.error("Failed to save chat", e));
+    };
+    pendingSaveRef.current = save;
+    const timer = setTimeout(flushPendingSave, SAVE_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [messages, contextSummary, settings]);
+
+  // Don't lose the last edit when leaving the page
+  useEffect(() => () => {
+    abortRef.current?.abort();
+    flushPendingSave();
+  }, []);
+
+  const loadChat = async (id: string | null) => {
+    abortRef.current?.abort();
+    flushPendingSave();
+    chatIdRef.current = id;
+    createdAtRef.current = Date.now();
+    setMessages([]);
+    setContextSummary(null);
+    setSettings(DEFAULT_CHAT_SETTINGS);
+    setIsChatReady(!id);
+    if (!id) return;
+
+    setIsLoadingChat(true);
+    try {
+      const chat = await db.getChat(id);
+      if (chatIdRef.current !== id || !chat) return;
+      const hydrated = await Promise.all(chat.messages.map(hydrateMessage));
+      if (chatIdRef.current !== id) return;
+      hydrated.forEach(m => { if (m.attachmentId) storedAttachmentsRef.current.add(m.attachmentId); });
+      createdAtRef.current = chat.createdAt ?? chat.updatedAt;
+      skipSaveRef.current = true;
+      setMessages(hydrated);
+      setContextSummary(chat.contextSummary || null);
+      setSettings(normalizeSettings(chat.settings));
+    } catch (e) {
+      console.error("Failed to load chat", e);
+    } finally {
+      if (chatIdRef.current === id) {
+        setIsLoadingChat(false);
+        setIsChatReady(true);
+      }
+    }
+  };
+
+  useEffect(() => {
+    if (chatId === chatIdRef.current) return;
+    loadChat(chatId);
+  }, [chatId]);
+
+  // The first message of a fresh conversation gives it an id (and a URL)
+  const ensureChatId = () => {
+    if (chatIdRef.current) return chatIdRef.current;
+    const id = createChatId();
+    chatIdRef.current = id;
+    createdAtRef.current = Date.now();
+    onChatCreated?.(id);
+    return id;
+  };
+
+  const generateTitle = async (id: string, userText: string, replyText: string) => {
+    try {
+      const response = await ai.models.generateContent({
+        model: 'gemini-2.5-flash-lite',
+        contents: `Write a short title (at most 6 words, no quotes or punctuation at the end) for a conversation that starts like this.\n\nUser: ${userText.slice(0, 1000)}\n\nAssistant: ${replyText.slice(0, 1000)}`,
+      });
+      const title = (response.text || '').trim().split('\n')[0].replace(/^["'#*\s]+|["'*\s.]+$/g, '').slice(0, TITLE_MAX_LENGTH);
+      if (!title) return;
+      autoTitlesRef.current[id] = title;
+      await db.renameChat(id, title, false);
+    } catch (e) {
+      console.warn("Could not generate chat title", e);
+    }
+  };
+
   // --- Chat Logic ---
 
   const handleSendMessage = async () => {
@@ -92,9 +390,12 @@ export default function Gemini({ isSidebarOpen, onToggleSidebar }: GeminiProps)
 
     // Capture attachment in local scope before state clear
     const currentAttachment = attachment;
+    const conversationId = ensureChatId();
+    const isFirstReply = !messages.some(m => m.role === 'model');
 
     const userMsg: ChatMessage = { role: 'user', text: prompt };
     if (currentAttachment) {
+      userMsg.attachmentId = createChatId();
       if (currentAttachment.type === 'image') {
           userMsg.image = currentAttachment.data;
           userMsg.mimeType = currentAttachment.mimeType;
@@ -106,91 +407,166 @@ export default function Gemini({ isSidebarOpen, onToggleSidebar }: GeminiProps)
     }
     
     setMessages(prev => [...prev, userMsg]);
-    
-    // Broadcast if in room
+
+    // Broadcast if in room; hashing a large attachment shouldn't hold up the reply
     if (activeRoom) {
-        broadcastMessage(prompt, currentAttachment);
+        broadcastMessage(prompt, currentAttachment).then(sent => {
+            if (!sent) return;
+            const transfer = sent.attachment ? { id: sent.attachment.transferId, kind: sent.attachment.type, size: sent.attachment.size } : undefined;
+            setMessages(prev => prev.map(m => m === userMsg ? { ...m, roomMessageId: sent.id, transfer } : m));
+        }).catch(e => console.error("Failed to share message with the room", e));
     }
 
     setPrompt('');
     setAttachment(null);
     setIsProcessing(true);
 
+    const controller = new AbortController();
+    abortRef.current = controller;
+    const streamId = createChatId();
+    const requestSettings = settings;
+    let text = '';
+    let thoughts = '';
+    const updateStream = (patch: Partial<ChatMessage>) => {
+      setMessages(prev => prev.map(m => m.streamId === streamId ? { ...m, ...patch } : m));
+    };
+    // Shows the call on the reply and waits for Run or Decline; Stop declines it
+    const confirmCall = (call: HeidiCall) => new Promise<boolean>(resolve => {
+      const answer = (approved: boolean) => {
+        controller.signal.removeEventListener('abort', onAbort);
+        if (answerCallRef.current === answer) answerCallRef.current = null;
+        updateStream({ pendingCall: undefined });
+        resolve(approved);
+      };
+      const onAbort = () => answer(false);
+      controller.signal.addEventListener('abort', onAbort);
+      answerCallRef.current = answer;
+      updateStream({ pendingCall: call });
+    });
+
     // If it's a peer command (optional), we might skip AI? 
     // But typically user wants AI + Peer.
     // We proceed to call Gemini.
 
     try {
-      let model = 'gemini-3-pro-preview';
-      let config: any = {};
-
-      // Determine model based on flags and attachment
-      if (isFast) {
-        model = 'gemini-2.5-flash-lite';
-      } else if (isThinking) {
-        model = 'gemini-3-pro-preview';
-        config.thinkingConfig = { thinkingBudget: 32768 };
-      } else if (useSearch) {
-        model = 'gemini-3-flash-preview';
-        config.tools = [{ googleSearch: {} }];
-      } else if (useMaps) {
-        model = 'gemini-2.5-flash';
-        config.tools = [{ googleMaps: {} }];
-      } else if (currentAttachment && currentAttachment.type === 'video') {
-         model = 'gemini-3-pro-preview'; // Video understanding
-      } else if (currentAttachment && currentAttachment.type === 'image') {
-         model = 'gemini-3-pro-preview'; // Image understanding
-      }
+      const model = requestSettings.model;
+      const config = buildGenerateConfig(requestSettings);
 
-      // Prepare contents
-      let contents: any = { parts: [{ text: userMsg.text }] };
-      if (userMsg.image) {
-        contents.parts.unshift({ inlineData: { data: userMsg.image, mimeType: userMsg.mimeType || 'image/jpeg' } });
-      }
-      if (userMsg.video) {
-        // For inline video (limitations apply to size, usually < 20MB for inline)
-        contents.parts.unshift({ inlineData: { data: userMsg.video, mimeType: userMsg.mimeType || 'video/mp4' } });
-      }
+      // Prepare contents: the conversation so far, trimmed to the context budget
+      // (inline video is limited in size, usually < 20MB)
+      const context = await buildRequestContext([...messages, userMsg], contextSummary);
+      if (context.summary !== contextSummary) setContextSummary(context.summary);
+      const contents = context.contents;
+      if (context.systemInstruction) config.systemInstruction = context.systemInstruction;
 
       // Check key for Pro models if needed
       if (model.includes('pro-preview')) await checkApiKeySelection();
+      if (controller.signal.aborted) throw new DOMException('Aborted', 'AbortError');
 
-      const response = await ai.models.generateContent({
-        model,
-        contents,
-        config
-      });
+      const thinking = isThinkingEnabled(requestSettings);
+      setMessages(prev => [...prev, { role: 'model', text: '', streamId, isThinking: thinking, settings: requestSettings }]);
+
+      let requestContents: Content[] = contents;
+      let groundingChunks: GroundingChunk[] | undefined;
+      const runIds: string[] = [];
+      let skippedCalls: FunctionCall[] = [];
+      for (let round = 0; ; round++) {
+        const stream = await ai.models.generateContentStream({
+          model,
+          contents: requestContents,
+          config: { ...config, abortSignal: controller.signal }
+        });
+
+        const modelParts: Part[] = [];
+        const calls: FunctionCall[] = [];
+        for await (const chunk of stream) {
+          for (const part of chunk.candidates?.[0]?.content?.parts || []) {
+            modelParts.push(part);
+            if (part.functionCall) {
+              calls.push(part.functionCall);
+            } else if (part.executableCode) {
+              text += `\n\n\`\`\`${(part.executableCode.language || '').toLowerCase().replace('language_unspecified', '')}\n${part.executableCode.code}\n\`\`\`\n\n`;
+            } else if (part.codeExecutionResult) {
+              text += `\n\`\`\`\n${part.codeExecutionResult.output || ''}\n\`\`\`\n\n`;
+            } else if (part.text) {
+              if (part.thought) thoughts += part.text;
+              else text += part.text;
+            }
+          }
+          groundingChunks = chunk.candidates?.[0]?.groundingMetadata?.groundingChunks || groundingChunks;
+          updateStream({ text, thoughts: thoughts || undefined, isThinking: !text && thinking });
+        }
+
+        if (calls.length === 0) break;
+        if (round >= MAX_FUNCTION_ROUNDS) {
+          skippedCalls = calls;
+          break;
+        }
+
+        // Run the requested Heidi calls and hand the results back to the model
+        const responses: Part[] = [];
+        for (const call of calls) {
+          if (controller.signal.aborted) throw new DOMException('Aborted', 'AbortError');
+          const result = await executeHeidiFunction(call.name || '', call.args || {}, { signal: controller.signal, confirm: confirmCall });
+          if (result.runId && !runIds.includes(result.runId)) {
+            runIds.push(result.runId);
+            updateStream({ runIds: [...runIds] });
+          }
+          responses.push({ functionResponse: { id: call.id, name: call.name, response: result.response } });
+        }
+        if (controller.signal.aborted) throw new DOMException('Aborted', 'AbortError');
+        requestContents = [...requestContents, { role: 'model', parts: modelParts }, { role: 'user', parts: responses }];
+      }
 
-      const text = response.text || "No text response.";
-      
       // Check for grounding
       let groundingInfo = '';
-      if (response.candidates?.[0]?.groundingMetadata?.groundingChunks) {
-         groundingInfo = "\n\nSources:\n" + response.candidates[0].groundingMetadata.groundingChunks
-            .map((c: any) => c.web?.uri || c.maps?.uri).filter(Boolean).join('\n');
+      if (groundingChunks) {
+         groundingInfo = "\n\nSources:\n" + groundingChunks
+            .map(c => c.web?.uri || c.maps?.uri).filter(Boolean).join('\n');
       }
 
-      const aiMsg: ChatMessage = { role: 'model', text: text + groundingInfo };
-      setMessages(prev => [...prev, aiMsg]);
-      
-      // Optionally broadcast AI response to peers? 
-      // Usually peers run their own AI or see user prompt. 
-      // Let's NOT broadcast AI response to avoid double-generation display on peers if they also had logic.
-      // But if we want shared AI state, we would broadcast it.
-      // For this "Chat in same room" request, assuming human chat + individual AI or shared context.
-      // We will broadcast the AI response so peers see what AI said to ME.
-      if (activeRoom) {
-          // Send as a special system message or just text
-          broadcastMessage(`[AI Response]: ${text + groundingInfo}`);
+      // The model still wanted to call Heidi, so what it wrote is not its full answer
+      if (skippedCalls.length > 0) {
+        const skipped = skippedCalls.map(c => `\`${c.name}\``).join(', ');
+        text += `${text ? '\n\n' : ''}> Stopped after ${MAX_FUNCTION_ROUNDS} rounds of Heidi calls; this reply is incomplete. Not run: ${skipped}. Send a follow-up to continue.`;
       }
+      text = text || "No text response.";
+      // Peers see what the AI said to us, tagged so they don't feed it to their own model
+      const roomMessageId = activeRoom ? (await broadcastMessage(text + groundingInfo, null, 'ai'))?.id : undefined;
+      updateStream({ text: text + groundingInfo, isThinking: false, streamId: undefined, roomMessageId });
+      if (isFirstReply) generateTitle(conversationId, userMsg.text, text);
 
     } catch (e: any) {
-      setMessages(prev => [...prev, { role: 'model', text: `Error: ${e.message}` }]);
+      if (controller.signal.aborted) {
+        // Keep whatever arrived before the stop
+        updateStream({ isThinking: false, stopped: true, streamId: undefined });
+      } else {
+        const errorText = `Error: ${e.message}`;
+        setMessages(prev => prev.some(m => m.streamId === streamId)
+          ? prev.map(m => m.streamId === streamId ? { ...m, text: text ? `${text}\n\n${errorText}` : errorText, isThinking: false, streamId: undefined } : m)
+          : [...prev, { role: 'model', text: errorText }]);
+      }
     } finally {
+      if (abortRef.current === controller) abortRef.current = null;
       setIsProcessing(false);
     }
   };
 
+  const handleStop = () => {
+    abortRef.current?.abort();
+  };
+
+  const handleModelChange = (model: string) => {
+    setSettings(prev => normalizeSettings({ ...prev, model }));
+  };
+
+  const toggleTool = (tool: GeminiTool) => {
+    setSettings(prev => ({
+      ...prev,
+      tools: prev.tools.includes(tool) ? prev.tools.filter(t => t !== tool) : [...prev.tools, tool],
+    }));
+  };
+
   const handleTranscribe = async () => {
     try {
         const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
@@ -336,7 +712,7 @@ export default function Gemini({ isSidebarOpen, onToggleSidebar }: GeminiProps)
             }
         }
     } catch (e: any) {
-        alert("Generation failed: " + e.message);
+        toast.error('Generation failed', e);
     } finally {
         setIsGenerating(false);
     }
@@ -460,6 +836,10 @@ export default function Gemini({ isSidebarOpen, onToggleSidebar }: GeminiProps)
 
   // --- Render ---
 
+  const contextPlan = planContext(messages, DEFAULT_CONTEXT_BUDGET, contextSummary);
+  const contextPercent = Math.min((contextPlan.usedTokens / contextPlan.budget) * 100, 100);
+  const formatTokens = (n: number) => n >= 1000 ? `${(n / 1000).toFixed(1)}k` : String(n);
+
   return (
     <div className="flex flex-col h-full bg-transparent text-white">
        {/* Header */}
@@ -485,18 +865,48 @@ export default function Gemini({ isSidebarOpen, onToggleSidebar }: GeminiProps)
                     onChange={(e) => setCollabRoomId(e.target.value)}
                     className="bg-transparent border-none text-xs px-2 py-1 outline-none w-20 text-white placeholder-slate-500"
                   />
+                  <input
+                    type="password"
+                    placeholder="Passphrase"
+                    value={collabPassphrase}
+                    onChange={(e) => setCollabPassphrase(e.target.value)}
+                    onKeyDown={(e) => { if (e.key === 'Enter' && collabRoomId.trim()) handleJoinRoom(); }}
+                    className="bg-transparent border-l border-white/10 text-xs px-2 py-1 outline-none w-24 text-white placeholder-slate-500"
+                  />
                   <button 
-                    onClick={() => setActiveRoom(collabRoomId)}
-                    disabled={!collabRoomId}
+                    onClick={handleJoinRoom}
+                    disabled={!collabRoomId.trim()}
                     className="px-2 py-1 bg-green-600/20 text-green-300 rounded text-xs hover:bg-green-600/30 disabled:opacity-50"
                   >
                     Join
                   </button>
+                  <button
+                    onClick={handleCreateRoom}
+                    className="ml-0.5 px-2 py-1 text-slate-300 rounded text-xs hover:bg-white/10 flex items-center gap-1"
+                    title="Create an encrypted room with a random ID and passphrase"
+                  >
+                    <Plus size={12} /> New
+                  </button>
                </div>
              ) : (
                 <div className="flex items-center gap-2 bg-green-900/20 border border-green-500/20 rounded-lg px-2 py-1">
-                    <span className="text-xs text-green-300 font-mono">Room: {activeRoom}</span>
+                    {encrypted ? (
+                        <span title="Encrypted with the room passphrase"><Lock size={12} className="text-green-300" /></span>
+                    ) : (
+                        <span title="Not encrypted: anyone with the room ID can join"><Unlock size={12} className="text-amber-300" /></span>
+                    )}
+                    {transportKind === 'relay' && (
+                        <span className="text-[9px] uppercase font-bold tracking-wider text-green-300/70 border border-green-500/20 rounded px-1" title="Connected through the self-hosted relay">Relay</span>
+                    )}
+                    {connectionError && (
+                        <span title={connectionError}><AlertTriangle size={12} className="text-red-400" /></span>
+                    )}
+                    <span className="text-xs text-green-300 font-mono" title={activeRoom.id}>Room: {activeRoom.id.length > 12 ? `${activeRoom.id.slice(0, 8)}…` : activeRoom.id}</span>
+                    <button onClick={handleCopyInvite} className="hover:text-white text-green-400" title="Copy invite link">
+                        {inviteCopied ? <Check size={12} /> : <Link2 size={12} />}
+                    </button>
                     <div className="w-px h-3 bg-green-500/20"></div>
+                    <PresenceAvatars peers={peers} />
                     <Users size={12} className="text-green-300" />
                     <span className="text-xs text-green-300">{peers.length + 1}</span>
                     <button onClick={() => { setActiveRoom(null); setIsInCall(false); endCall(); }} className="ml-1 hover:text-white text-green-400">
@@ -544,22 +954,27 @@ export default function Gemini({ isSidebarOpen, onToggleSidebar }: GeminiProps)
                                     autoPlay playsInline 
                                     className="w-full h-full object-cover" 
                                 />
-                                <span className="absolute bottom-1 left-2 text-[10px] bg-black/50 px-1 rounded text-white">{p.id.slice(0,4)}</span>
+                                <span className="absolute bottom-1 left-2 text-[10px] bg-black/50 px-1 rounded text-white">{peerLabel(p)}</span>
                              </div>
                         ) : null)}
                      </div>
                    )}
 
                    <div className={`flex-1 overflow-y-auto p-6 space-y-6 ${isInCall ? 'pt-52' : ''}`}>
-                       {messages.map((m, i) => (
+                       {isLoadingChat && (
+                           <div className="flex justify-center py-10">
+                               <Loader2 size={20} className="animate-spin text-slate-500" />
+                           </div>
+                       )}
+                       {messages.map((m, i) => m.streamId && !m.text && !m.thoughts ? null : (
                            <div key={i} className={`flex gap-4 ${m.role === 'user' ? 'justify-end' : ''}`}>
                                {(m.role === 'model' || m.role === 'peer') && (
                                    <div className={`w-8 h-8 rounded-full flex items-center justify-center border ${m.role === 'peer' ? 'bg-green-500/20 border-green-500/30' : 'bg-indigo-500/20 border-indigo-500/30'}`}>
-                                       {m.role === 'peer' ? <Users size={14} className="text-green-300" /> : <Sparkles size={14} className="text-indigo-300" />}
+                                       {m.role === 'peer' ? <PeerAvatar peer={peers.find(p => p.profile?.clientId === m.senderId)} /> : <Sparkles size={14} className="text-indigo-300" />}
                                    </div>
                                )}
                                <div className={`max-w-[80%] p-4 rounded-2xl ${m.role === 'user' ? 'bg-indigo-600 text-white rounded-tr-sm' : 'bg-white/5 text-slate-200 rounded-tl-sm border border-white/5'}`}>
-                                   {m.role === 'peer' && <div className="text-[10px] text-green-400 mb-1 opacity-70">Peer {m.senderId?.slice(0,4)}</div>}
+                                   {m.role === 'peer' && <div className="text-[10px] text-green-400 mb-1 opacity-70">{m.senderName || `Peer ${m.senderId?.slice(0,4)}`}</div>}
                                    {m.image && (
                                         <img 
                                             src={`data:${m.mimeType || 'image/jpeg'};base64,${m.image}`} 
@@ -574,8 +989,50 @@ export default function Gemini({ isSidebarOpen, onToggleSidebar }: GeminiProps)
                                             className="mb-2 rounded-lg max-h-60" 
                                         />
                                    )}
-                                   <div className="whitespace-pre-wrap">{m.text}</div>
-                                   {m.role === 'model' && (
+                                   {m.role === 'peer' && m.transfer && !m.image && !m.video && (
+                                        <TransferProgressList kind={m.transfer.kind} size={m.transfer.size} progress={transfers[m.transfer.id] || []} direction="receive" peerName={peerName} />
+                                   )}
+                                   {m.attachmentOmitted && !m.image && !m.video && (
+                                        <div className="mb-2 flex items-center gap-2 px-3 py-2 rounded-lg bg-black/20 border border-white/10 text-xs text-slate-400">
+                                            {m.attachmentOmitted === 'video' ? <Video size={14} /> : <ImageIcon size={14} />}
+                                            {m.attachmentOmitted === 'video' ? 'Video' : 'Image'} not saved (too large to keep in history)
+                                        </div>
+                                   )}
+                                   {m.thoughts && <ThoughtsPanel thoughts={m.thoughts} active={!!m.isThinking} />}
+                                   {m.role === 'model' ? (
+                                       <Markdown content={m.text} className="text-sm" />
+                                   ) : (
+                                       <div className="whitespace-pre-wrap">{m.text}</div>
+                                   )}
+                                   {m.runIds && m.runIds.length > 0 && (
+                                       <div className="mt-3 space-y-2">
+                                           {m.runIds.map(runId => <HeidiRunCard key={runId} runId={runId} />)}
+                                       </div>
+                                   )}
+                                   {m.pendingCall && (
+                                       <div className="mt-3">
+                                           <HeidiCallConfirm call={m.pendingCall} onAnswer={approved => answerCallRef.current?.(approved)} />
+                                       </div>
+                                   )}
+                                   {m.role === 'model' && m.settings && (
+                                       <div className="mt-2 text-[10px] font-mono text-slate-500">{describeSettings(m.settings)}</div>
+                                   )}
+                                   {activeRoom && m.role === 'user' && m.transfer && (
+                                       <TransferProgressList kind={m.transfer.kind} size={m.transfer.size} progress={transfers[m.transfer.id] || []} direction="send" peerName={peerName} />
+                                   )}
+                                   {activeRoom && m.role !== 'peer' && m.roomMessageId && (
+                                       <div className={`mt-1 text-[10px] text-right ${m.role === 'user' ? 'text-indigo-200/70' : 'text-slate-500'}`}>
+                                           {(acks[m.roomMessageId] || []).length > 0
+                                               ? `Delivered to ${(acks[m.roomMessageId] || []).length}/${peers.length}`
+                                               : 'Sent'}
+                                       </div>
+                                   )}
+                                   {m.stopped && (
+                                       <div className="mt-2 inline-flex items-center gap-1 text-[10px] uppercase tracking-wider text-amber-400/80">
+                                           <StopCircle size={10} /> Stopped
+                                       </div>
+                                   )}
+                                   {m.role === 'model' && !m.streamId && m.text && (
                                        <button onClick={() => handleTTS(m.text)} className="mt-2 text-slate-500 hover:text-indigo-300 transition-colors">
                                            <Volume2 size={14} />
                                        </button>
@@ -583,14 +1040,14 @@ export default function Gemini({ isSidebarOpen, onToggleSidebar }: GeminiProps)
                                </div>
                            </div>
                        ))}
-                       {isProcessing && (
+                       {isProcessing && !messages.some(m => m.streamId && (m.text || m.thoughts)) && (
                            <div className="flex gap-2 items-center text-slate-500 text-sm animate-pulse">
                                <Loader2 size={16} className="animate-spin" /> Gemini is working...
                            </div>
                        )}
                        {typingUsers.length > 0 && (
                            <div className="text-xs text-slate-500 italic ml-12">
-                               {typingUsers.length} person(s) typing...
+                               {typingUsers.map(peerName).join(', ')} {typingUsers.length === 1 ? 'is' : 'are'} typing...
                            </div>
                        )}
                    </div>
@@ -600,18 +1057,63 @@ export default function Gemini({ isSidebarOpen, onToggleSidebar }: GeminiProps)
                            {/* Config Toggles */}
                            <div className="flex items-center justify-between pb-2">
                                <div className="flex gap-2 overflow-x-auto">
-                                    <button onClick={() => setIsThinking(!isThinking)} className={`px-3 py-1 rounded-full text-xs border transition-colors flex items-center gap-1 ${isThinking ? 'bg-purple-500/20 border-purple-500 text-purple-300' : 'border-white/10 text-slate-400'}`}>
-                                        <Wand2 size={12} /> Deep Think
-                                    </button>
-                                    <button onClick={() => setIsFast(!isFast)} className={`px-3 py-1 rounded-full text-xs border transition-colors flex items-center gap-1 ${isFast ? 'bg-yellow-500/20 border-yellow-500 text-yellow-300' : 'border-white/10 text-slate-400'}`}>
-                                        <Loader2 size={12} /> Fast
-                                    </button>
-                                    <button onClick={() => setUseSearch(!useSearch)} className={`px-3 py-1 rounded-full text-xs border transition-colors flex items-center gap-1 ${useSearch ? 'bg-blue-500/20 border-blue-500 text-blue-300' : 'border-white/10 text-slate-400'}`}>
-                                        <Search size={12} /> Search
-                                    </button>
+                                    <select
+                                      value={settings.model}
+                                      onChange={(e) => handleModelChange(e.target.value)}
+                                      className="bg-black/40 border border-white/10 rounded-full px-3 py-1 text-xs text-slate-200 focus:outline-none focus:border-indigo-500/50"
+                                      title="Model"
+                                    >
+                                        {GEMINI_MODELS.map(m => <option key={m.id} value={m.id}>{m.label}</option>)}
+                                    </select>
+                                    {(Object.keys(TOOL_LABELS) as GeminiTool[]).map(tool => {
+                                        const supported = getModelInfo(settings.model).tools.includes(tool);
+                                        const active = settings.tools.includes(tool);
+                                        const Icon = tool === 'search' ? Search : tool === 'maps' ? MapPin : tool === 'heidi' ? Terminal : Code2;
+                                        return (
+                                            <button
+                                              key={tool}
+                                              onClick={() => toggleTool(tool)}
+                                              disabled={!supported}
+                                              title={supported ? undefined : `Not available on ${getModelInfo(settings.model).label}`}
+                                              className={`px-3 py-1 rounded-full text-xs border transition-colors flex items-center gap-1 disabled:opacity-30 disabled:cursor-not-allowed ${active ? 'bg-blue-500/20 border-blue-500 text-blue-300' : 'border-white/10 text-slate-400'}`}
+                                            >
+                                                <Icon size={12} /> {TOOL_LABELS[tool]}
+                                            </button>
+                                        );
+                                    })}
+                                    <label className={`px-3 py-1 rounded-full text-xs border transition-colors flex items-center gap-1 ${isThinkingEnabled(settings) ? 'bg-purple-500/20 border-purple-500 text-purple-300' : 'border-white/10 text-slate-400'}`} title="Thinking budget (tokens)">
+                                        <Wand2 size={12} /> Think
+                                        <select
+                                          value={settings.thinkingBudget}
+                                          onChange={(e) => setSettings(prev => ({ ...prev, thinkingBudget: Number(e.target.value) }))}
+                                          className="bg-transparent focus:outline-none"
+                                        >
+                                            {thinkingBudgetsFor(settings.model).map(b => (
+                                                <option key={b} value={b} className="bg-slate-900">{formatThinkingBudget(b)}</option>
+                                            ))}
+                                        </select>
+                                    </label>
                                </div>
 
-                               {activeRoom && (
+                               <div className="flex items-center gap-3 shrink-0">
+                               {messages.length > 0 && (
+                                   <div
+                                     className="flex items-center gap-2 text-[10px] font-mono text-slate-500"
+                                     title={`Estimated context sent with the next message${contextPlan.droppedMessages > 0 ? `; ${contextPlan.droppedMessages} earlier messages are included as a summary` : ''}`}
+                                   >
+                                       <div className="w-16 h-1.5 rounded-full bg-white/10 overflow-hidden">
+                                           <div
+                                             className={`h-full rounded-full ${contextPercent > 90 ? 'bg-amber-400' : 'bg-indigo-400'}`}
+                                             style={{ width: `${contextPercent}%` }}
+                                           ></div>
+                                       </div>
+                                       <span>{formatTokens(contextPlan.usedTokens)} / {formatTokens(contextPlan.budget)}</span>
+                                       {contextPlan.droppedMessages > 0 && (
+                                           <span className="text-amber-300/80">· {contextPlan.droppedMessages} summarized</span>
+                                       )}
+                                   </div>
+                               )}
+                               {activeRoom && supportsMedia && (
                                    <button 
                                      onClick={() => {
                                          if(isInCall) {
@@ -628,6 +1130,7 @@ export default function Gemini({ isSidebarOpen, onToggleSidebar }: GeminiProps)
                                        {isInCall ? <PhoneOff size={16} /> : <VideoIcon size={16} />}
                                    </button>
                                )}
+                               </div>
                            </div>
 
                            <div className="relative">
@@ -645,9 +1148,15 @@ export default function Gemini({ isSidebarOpen, onToggleSidebar }: GeminiProps)
                                    <button onClick={handleTranscribe} className="p-2 text-slate-400 hover:text-white rounded hover:bg-white/10">
                                        <Mic size={18} />
                                    </button>
-                                   <button onClick={handleSendMessage} disabled={isProcessing} className="p-2 bg-indigo-600 text-white rounded hover:bg-indigo-500 disabled:opacity-50">
-                                       <Send size={18} />
-                                   </button>
+                                   {isProcessing ? (
+                                       <button onClick={handleStop} className="p-2 bg-red-600/80 text-white rounded hover:bg-red-500" title="Stop generating">
+                                           <StopCircle size={18} />
+                                       </button>
+                                   ) : (
+                                       <button onClick={handleSendMessage} className="p-2 bg-indigo-600 text-white rounded hover:bg-indigo-500">
+                                           <Send size={18} />
+                                       </button>
+                                   )}
                                </div>
                                <input type="file" ref={fileInputRef} className="hidden" onChange={handleFileUpload} accept="image/*,video/*" />
                            </div>
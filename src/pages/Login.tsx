@@ -1,5 +1,7 @@
 import React, { useEffect, useState } from 'react';
 import { api } from '../api/heidi';
+import { beginLoginAttempt, clearLoginAttempt } from '../api/pkce';
+import { navigateTo } from '../hooks/useRoute';
 import { AuthProvider } from '../types';
 import { Github, LogIn, Loader2, AlertCircle, Bot } from 'lucide-react';
 
@@ -21,7 +23,8 @@ export default function Login() {
         setError('');
         try {
             // Get the redirect URL from backend
-            const authUrl = await api.getLoginUrl(providerId);
+            const challenge = await beginLoginAttempt(providerId);
+            const authUrl = await api.getLoginUrl(providerId, challenge);
             if (authUrl) {
                 // Redirect browser to the provider's login page
                 window.location.href = authUrl;
@@ -30,6 +33,7 @@ export default function Login() {
             }
         } catch (e: any) {
             console.error(e);
+            clearLoginAttempt();
             setError(e.message || "Login failed to start");
             setLoggingInProvider(null);
         }
@@ -92,7 +96,7 @@ export default function Login() {
 
                 <div className="mt-8 text-center">
                     <button 
-                        onClick={() => window.location.href = '/'}
+                        onClick={() => navigateTo({ name: 'chat', runId: null })}
                         className="text-xs text-slate-500 hover:text-slate-300 transition-colors"
                     >
                         Back to Guest Mode (if enabled)
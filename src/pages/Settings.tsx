@@ -1,7 +1,12 @@
-import React, { useState, useEffect } from 'react';
-import { getSettings, saveSettings, api } from '../api/heidi';
+import React, { useState, useEffect, useRef } from 'react';
+import { api, createProfileId, PROFILE_COLORS } from '../api/heidi';
+import { useConnectionProfiles, useProfileHealth } from '../hooks/useConnectionProfiles';
+import { toast, confirmToast } from '../hooks/useToasts';
+import { describeError } from '../api/errors';
+import { HEALTH_STYLES } from '../components/ProfileSwitcher';
 import { OpenAIConnectionStatus, OpenAIConnectionTestResult } from '../types';
-import { Save, Server, Wifi, AlertTriangle, PanelLeft, Lock, Globe, Bot, Link, ExternalLink, CheckCircle, XCircle, Loader2, X, Terminal, RefreshCw, Copy, Info, Key, ShieldAlert } from 'lucide-react';
+import { TransportKind, getTransportSettings, saveTransportSettings } from '../api/collabTransport';
+import { Save, Server, Wifi, AlertTriangle, PanelLeft, Lock, Globe, Bot, Link, ExternalLink, CheckCircle, XCircle, Loader2, X, Terminal, RefreshCw, Copy, Info, Key, ShieldAlert, Plus, Trash2, Tag, Check, Users } from 'lucide-react';
 
 interface SettingsProps {
     isSidebarOpen: boolean;
@@ -9,10 +14,19 @@ interface SettingsProps {
 }
 
 const Settings: React.FC<SettingsProps> = ({ isSidebarOpen, onToggleSidebar }) => {
+  const { profiles, activeProfile, saveProfile, removeProfile, switchProfile } = useConnectionProfiles();
+  const { health, refresh: refreshHealth } = useProfileHealth(profiles);
+
+  // Profile Editor State
+  const [editingId, setEditingId] = useState(activeProfile.id);
+  const [label, setLabel] = useState('');
+  const [color, setColor] = useState(PROFILE_COLORS[0]);
   const [baseUrl, setBaseUrl] = useState('');
   const [apiKey, setApiKey] = useState('');
   const [status, setStatus] = useState<'idle' | 'checking' | 'connected' | 'error'>('idle');
   const [msg, setMsg] = useState('');
+  const checkAbortRef = useRef<AbortController | null>(null);
+  const isNewProfile = !profiles.some(p => p.id === editingId);
   
   // OpenAI Connection State
   const [openaiStatus, setOpenaiStatus] = useState<OpenAIConnectionStatus | null>(null);
@@ -23,26 +37,65 @@ const Settings: React.FC<SettingsProps> = ({ isSidebarOpen, onToggleSidebar }) =
   
   const [copiedCmd, setCopiedCmd] = useState<string | null>(null);
 
+  // Collaboration transport
+  const [transportKind, setTransportKind] = useState<TransportKind>(() => getTransportSettings().kind);
+  const [relayUrl, setRelayUrl] = useState(() => getTransportSettings().relayUrl);
+  const [transportSaved, setTransportSaved] = useState(false);
+
+  useEffect(() => () => checkAbortRef.current?.abort(), []);
+
   // Initial load
   useEffect(() => {
-    const current = getSettings();
-    setBaseUrl(current.baseUrl);
-    setApiKey(current.apiKey);
-    
-    // Initial checks
-    checkConnection(current.baseUrl, current.apiKey);
     checkOpenAIStatus();
   }, []);
 
+  // Load the selected profile into the editor
+  useEffect(() => {
+    const profile = profiles.find(p => p.id === editingId);
+    if (!profile) return;
+    setLabel(profile.label);
+    setColor(profile.color);
+    setBaseUrl(profile.baseUrl);
+    setApiKey(profile.apiKey);
+    checkConnection(profile.baseUrl, profile.apiKey);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [editingId]);
+
+  const handleAddProfile = () => {
+    setEditingId(createProfileId());
+    setLabel('New Profile');
+    setColor(PROFILE_COLORS[profiles.length % PROFILE_COLORS.length]);
+    setBaseUrl('');
+    setApiKey('');
+    setStatus('idle');
+    setMsg('');
+  };
+
+  const handleDeleteProfile = async () => {
+    if (isNewProfile) {
+      setEditingId(activeProfile.id);
+      return;
+    }
+    if (profiles.length <= 1) return;
+    if (!await confirmToast(`Delete connection profile "${label}"?`, { confirmLabel: 'Delete', danger: true })) return;
+    removeProfile(editingId);
+    setEditingId(profiles.find(p => p.id !== editingId)!.id);
+  };
+
   const checkConnection = async (url: string, key: string) => {
+    // Only the latest check (e.g. for the profile now being edited) may report
+    checkAbortRef.current?.abort();
+    const controller = new AbortController();
+    checkAbortRef.current = controller;
     setStatus('checking');
     try {
-      await api.health(url, key);
+      await api.health(url, key, { signal: controller.signal });
       setStatus('connected');
       setMsg('Connected successfully');
-    } catch (error: any) {
+    } catch (error) {
+      if (controller.signal.aborted) return;
       setStatus('error');
-      setMsg(error.message || 'Connection failed');
+      setMsg(describeError(error, 'Connection failed'));
     }
   };
 
@@ -77,15 +130,27 @@ const Settings: React.FC<SettingsProps> = ({ isSidebarOpen, onToggleSidebar }) =
       }
   };
 
+  const handleSaveTransport = () => {
+    saveTransportSettings({ kind: transportKind, relayUrl: relayUrl.trim() });
+    setTransportSaved(true);
+    setTimeout(() => setTransportSaved(false), 2000);
+  };
+
   const handleSave = async () => {
-    saveSettings({ baseUrl, apiKey });
+    saveProfile({ id: editingId, label: label.trim() || 'Untitled', color, baseUrl, apiKey });
+    toast.success(`Saved profile "${label.trim() || 'Untitled'}"`);
+    refreshHealth();
     await checkConnection(baseUrl, apiKey);
   };
   
-  const copyToClipboard = (text: string) => {
-      navigator.clipboard.writeText(text);
-      setCopiedCmd(text);
-      setTimeout(() => setCopiedCmd(null), 2000);
+  const copyToClipboard = async (text: string) => {
+      try {
+          await navigator.clipboard.writeText(text);
+          setCopiedCmd(text);
+          setTimeout(() => setCopiedCmd(null), 2000);
+      } catch (e) {
+          toast.error('Could not copy to clipboard', e);
+      }
   };
 
   return (
@@ -221,10 +286,50 @@ const Settings: React.FC<SettingsProps> = ({ isSidebarOpen, onToggleSidebar }) =
                         </div>
                         <div>
                             <h2 className="text-xl font-bold text-white">Connection</h2>
-                            <p className="text-slate-400 text-xs">Manage connection to Heidi Server</p>
+                            <p className="text-slate-400 text-xs">Manage connection profiles for Heidi servers</p>
                         </div>
                     </div>
 
+                    {/* Profile List */}
+                    <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                        {profiles.map(p => {
+                            const h = HEALTH_STYLES[health[p.id] || 'checking'];
+                            return (
+                                <button
+                                    key={p.id}
+                                    onClick={() => setEditingId(p.id)}
+                                    className={`text-left p-4 rounded-2xl border transition-all ${
+                                        editingId === p.id
+                                        ? 'bg-white/[0.08] border-white/20 shadow-lg'
+                                        : 'bg-[#0f0f13]/60 border-white/5 hover:bg-white/5 hover:border-white/10'
+                                    }`}
+                                >
+                                    <div className="flex items-center justify-between gap-2 mb-1.5">
+                                        <div className="flex items-center gap-2 min-w-0">
+                                            <span className="w-2.5 h-2.5 rounded-full shrink-0" style={{ backgroundColor: p.color }}></span>
+                                            <span className="text-sm font-bold text-white truncate">{p.label}</span>
+                                            {activeProfile.id === p.id && (
+                                                <span className="text-[9px] bg-indigo-500/20 text-indigo-300 border border-indigo-500/20 px-1.5 py-0.5 rounded uppercase font-bold tracking-wider shrink-0">Active</span>
+                                            )}
+                                        </div>
+                                        <span className="flex items-center gap-1.5 text-[10px] text-slate-400 shrink-0" title={h.label}>
+                                            <span className={`w-1.5 h-1.5 rounded-full ${h.dot}`}></span>
+                                            {h.label}
+                                        </span>
+                                    </div>
+                                    <div className="text-[11px] font-mono text-slate-500 truncate">{p.baseUrl}</div>
+                                </button>
+                            );
+                        })}
+                        <button
+                            onClick={handleAddProfile}
+                            className="p-4 rounded-2xl border border-dashed border-white/10 text-slate-500 hover:text-white hover:border-white/20 hover:bg-white/5 transition-all flex items-center justify-center gap-2 text-xs font-bold"
+                        >
+                            <Plus size={14} />
+                            Add Profile
+                        </button>
+                    </div>
+
                     <div className="bg-[#0f0f13]/60 backdrop-blur-md rounded-3xl p-5 sm:p-8 border border-white/10 shadow-xl space-y-6">
                         {/* Status Card */}
                         <div className={`p-4 rounded-2xl flex items-center gap-4 border transition-colors ${
@@ -260,6 +365,37 @@ const Settings: React.FC<SettingsProps> = ({ isSidebarOpen, onToggleSidebar }) =
                         </div>
 
                         <div className="space-y-4">
+                            <div className="grid grid-cols-1 sm:grid-cols-[1fr_auto] gap-4">
+                                <div className="group">
+                                    <label className="flex items-center gap-2 text-xs font-bold text-slate-400 mb-2 uppercase tracking-wide">
+                                        <Tag size={12} /> Label
+                                    </label>
+                                    <input
+                                        type="text"
+                                        value={label}
+                                        onChange={(e) => setLabel(e.target.value)}
+                                        placeholder="Staging"
+                                        className="w-full bg-black/40 border border-white/10 rounded-xl px-4 py-3 text-white focus:ring-1 focus:ring-indigo-500 outline-none transition-all placeholder-slate-600 text-xs"
+                                    />
+                                </div>
+                                <div>
+                                    <label className="flex items-center gap-2 text-xs font-bold text-slate-400 mb-2 uppercase tracking-wide">Color</label>
+                                    <div className="flex items-center gap-1.5 h-[42px]">
+                                        {PROFILE_COLORS.map(c => (
+                                            <button
+                                                key={c}
+                                                onClick={() => setColor(c)}
+                                                className={`w-6 h-6 rounded-full flex items-center justify-center transition-transform hover:scale-110 ${color === c ? 'ring-2 ring-white/60 ring-offset-2 ring-offset-[#0f0f13]' : ''}`}
+                                                style={{ backgroundColor: c }}
+                                                title={c}
+                                            >
+                                                {color === c && <Check size={12} className="text-white" />}
+                                            </button>
+                                        ))}
+                                    </div>
+                                </div>
+                            </div>
+
                             <div className="group">
                                 <label className="flex items-center gap-2 text-xs font-bold text-slate-400 mb-2 uppercase tracking-wide">
                                     <Globe size={12} /> Base URL
@@ -291,14 +427,33 @@ const Settings: React.FC<SettingsProps> = ({ isSidebarOpen, onToggleSidebar }) =
                             <span className={`text-[10px] font-bold uppercase tracking-wider ${status === 'error' ? 'text-red-400' : 'text-emerald-400'}`}>
                                 {msg}
                             </span>
-                            <button
-                                onClick={handleSave}
-                                disabled={status === 'checking'}
-                                className="flex items-center gap-2 bg-white text-black hover:bg-slate-200 px-5 py-2 rounded-lg font-bold text-xs transition-colors disabled:opacity-50"
-                            >
-                                <Save size={14} />
-                                Save & Connect
-                            </button>
+                            <div className="flex items-center gap-2">
+                                {(isNewProfile || profiles.length > 1) && (
+                                    <button
+                                        onClick={handleDeleteProfile}
+                                        className="p-2 text-slate-500 hover:text-red-400 hover:bg-red-500/10 rounded-lg transition-colors"
+                                        title={isNewProfile ? 'Discard profile' : 'Delete profile'}
+                                    >
+                                        <Trash2 size={14} />
+                                    </button>
+                                )}
+                                {!isNewProfile && activeProfile.id !== editingId && (
+                                    <button
+                                        onClick={() => switchProfile(editingId)}
+                                        className="flex items-center gap-2 border border-white/10 hover:bg-white/5 text-slate-300 px-4 py-2 rounded-lg font-bold text-xs transition-colors"
+                                    >
+                                        Use Profile
+                                    </button>
+                                )}
+                                <button
+                                    onClick={handleSave}
+                                    disabled={status === 'checking' || !baseUrl.trim()}
+                                    className="flex items-center gap-2 bg-white text-black hover:bg-slate-200 px-5 py-2 rounded-lg font-bold text-xs transition-colors disabled:opacity-50"
+                                >
+                                    <Save size={14} />
+                                    Save & Connect
+                                </button>
+                            </div>
                         </div>
                     </div>
                 </section>
@@ -430,6 +585,71 @@ const Settings: React.FC<SettingsProps> = ({ isSidebarOpen, onToggleSidebar }) =
                     </div>
                 </section>
 
+                {/* --- COLLABORATION --- */}
+                <section className="space-y-6 animate-in fade-in slide-in-from-bottom-4 duration-500 delay-200">
+                    <div className="flex items-center gap-4">
+                        <div className="p-3 bg-gradient-to-br from-green-500/20 to-emerald-500/20 rounded-2xl border border-white/10">
+                            <Users className="text-green-300" size={24} />
+                        </div>
+                        <div>
+                            <h2 className="text-xl font-bold text-white">Collaboration</h2>
+                            <p className="text-slate-400 text-xs">How Gemini Studio rooms connect to each other</p>
+                        </div>
+                    </div>
+
+                    <div className="bg-[#0f0f13]/60 backdrop-blur-md rounded-3xl p-5 sm:p-6 border border-white/10 shadow-xl space-y-5">
+                        <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                            {([
+                                { kind: 'trystero', title: 'Peer-to-peer', description: 'WebRTC via public BitTorrent trackers. No server needed; supports calls.' },
+                                { kind: 'relay', title: 'Self-hosted relay', description: 'All traffic through your own WebSocket relay. For restricted networks; no calls.' },
+                            ] as { kind: TransportKind; title: string; description: string }[]).map(option => (
+                                <button
+                                    key={option.kind}
+                                    onClick={() => setTransportKind(option.kind)}
+                                    className={`text-left p-4 rounded-2xl border transition-all ${
+                                        transportKind === option.kind
+                                        ? 'bg-white/[0.08] border-white/20 shadow-lg'
+                                        : 'bg-black/20 border-white/5 hover:bg-white/5 hover:border-white/10'
+                                    }`}
+                                >
+                                    <div className="text-sm font-bold text-white mb-1">{option.title}</div>
+                                    <div className="text-[11px] text-slate-400">{option.description}</div>
+                                </button>
+                            ))}
+                        </div>
+
+                        {transportKind === 'relay' && (
+                            <div className="group">
+                                <label className="flex items-center gap-2 text-xs font-bold text-slate-400 mb-2 uppercase tracking-wide">
+                                    <Globe size={12} /> Relay URL
+                                </label>
+                                <input
+                                    type="text"
+                                    value={relayUrl}
+                                    onChange={(e) => setRelayUrl(e.target.value)}
+                                    placeholder="ws://127.0.0.1:8787"
+                                    className="w-full bg-black/40 border border-white/10 rounded-xl px-4 py-3 text-white focus:ring-1 focus:ring-indigo-500 outline-none transition-all placeholder-slate-600 font-mono text-xs"
+                                />
+                                <p className="text-[11px] text-slate-500 mt-2">Run one with <code className="font-mono text-slate-400">npm run relay</code>.</p>
+                            </div>
+                        )}
+
+                        <div className="pt-4 flex items-center justify-between border-t border-white/5">
+                            <span className="text-[10px] font-bold uppercase tracking-wider text-emerald-400">
+                                {transportSaved ? 'Saved. Applies to the next room you join.' : ''}
+                            </span>
+                            <button
+                                onClick={handleSaveTransport}
+                                disabled={transportKind === 'relay' && !/^wss?:\/\//.test(relayUrl.trim())}
+                                className="flex items-center gap-2 bg-white text-black hover:bg-slate-200 px-5 py-2 rounded-lg font-bold text-xs transition-colors disabled:opacity-50"
+                            >
+                                <Save size={14} />
+                                Save
+                            </button>
+                        </div>
+                    </div>
+                </section>
+
             </div>
         </div>
     </div>
@@ -9,72 +9,46 @@ export enum RunStatus {
   CANCELLED = 'cancelled',
 }
 
-export interface Agent {
-  name: string;
-  description?: string;
-}
-
-export interface RunRequest {
-  prompt: string;
-  executor: string;
-  workdir?: string | null;
-  persona?: string;
-  dry_run?: boolean;
-}
-
-export interface LoopRequest {
-  task: string;
-  executor: string;
-  max_retries: number;
-  workdir?: string | null;
-  persona?: string;
-  dry_run?: boolean;
-  context_paths?: string[];
-}
-
-export interface RunResponse {
-  run_id: string;
-  status: string;
-  result?: string | null;
-  error?: string | null;
-}
-
-export interface RunEvent {
-  type: string;
-  message: string;
-  ts: string;
-  details?: any;
-}
-
-export interface RunUsage {
-  input_tokens: number;
-  output_tokens: number;
-  total_tokens: number;
-  cost_usd: number;
+// Request and response shapes are generated from the backend's OpenAPI
+// document (openapi/heidi.json); see src/api/heidiSchema.ts
+import type { RunSummary } from './api/heidiSchema';
+
+export type {
+  Agent,
+  RunRequest,
+  LoopRequest,
+  RunResponse,
+  RunUsage,
+  RunEvent,
+  RunMeta,
+  RunDetails,
+  RunSummary,
+  User,
+  AuthStatus,
+  AuthProvider,
+  IntegrationStatus,
+  OpenAIConnectionStatus,
+  OpenAIConnectionTestResult,
+} from './api/heidiSchema';
+
+export interface RunQuery {
+  limit?: number;
+  offset?: number;
+  cursor?: string | null;
+  q?: string;
+  status?: string;
+  executor?: string;
+  from?: string; // ISO date (inclusive)
+  to?: string; // ISO date (inclusive)
+  min_cost?: number;
+  max_cost?: number;
 }
 
-export interface RunDetails {
-  run_id: string;
-  meta: {
-    status: string;
-    task?: string;
-    prompt?: string;
-    executor: string;
-    [key: string]: any;
-  };
-  events: RunEvent[];
-  result?: string;
-  error?: string;
-  usage?: RunUsage;
-}
-
-export interface RunSummary {
-  run_id: string;
-  status: string;
-  task?: string; // or prompt
-  executor?: string;
-  created_at?: string;
-  usage?: RunUsage;
+export interface RunPage {
+  runs: RunSummary[];
+  next_cursor?: string | null;
+  has_more: boolean;
+  fetched_ids: string[]; // Every run the backend sent, before client-side filtering
 }
 
 export enum AppMode {
@@ -87,43 +61,12 @@ export interface SettingsState {
   apiKey: string;
 }
 
-export interface User {
-  id: string;
-  username: string;
-  name?: string;
-  email?: string;
-  avatar_url?: string;
-  provider: string;
-}
-
-export interface AuthStatus {
-  authenticated: boolean;
-  user?: User;
-  message?: string;
-}
-
-export interface AuthProvider {
+export interface ConnectionProfile {
   id: string;
-  name: string;
-  icon?: string;
-  url?: string; // Optional direct url if not using flow
-}
-
-export interface IntegrationStatus {
-  provider: string;
-  connected: boolean;
-  details?: string;
-  last_checked?: string;
-}
-
-export interface OpenAIConnectionStatus {
-  connected: boolean;
-  authPath?: string;
-  models?: string[];
-  lastError?: string;
+  label: string;
+  baseUrl: string;
+  apiKey: string;
+  color: string; // Hex accent used in the switcher and settings
 }
 
-export interface OpenAIConnectionTestResult {
-  pass: boolean;
-  message?: string;
-}
\ No newline at end of file
+export type ProfileHealth = 'checking' | 'online' | 'offline' | 'unauthorized';